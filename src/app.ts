@@ -8,8 +8,17 @@ import { integrationRoutes } from './routes/integrations';
 import { inventoryRoutes } from './routes/inventory';
 import { webhookRoutes } from './routes/webhooks';
 import { jobRoutes } from './routes/jobs';
+import { orderRoutes } from './routes/orders';
+import { shopRoutes } from './routes/shops';
+import { channelRoutes } from './routes/channels';
+import { feedRoutes } from './routes/feeds';
+import { categoryRoutes } from './routes/categories';
+import { collectionRoutes } from './routes/collections';
+import { attributeRoutes } from './routes/attributes';
 import { errorHandler } from './middleware/errorHandler';
+import { captureRawBody } from './middleware/verifyShopifyWebhook';
 import { JobQueueService } from './services/jobQueue';
+import { ProductOptionService } from './services/productOption';
 
 dotenv.config();
 
@@ -19,8 +28,8 @@ const app = express();
 app.use(helmet());
 app.use(cors());
 app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 
 // Initialize job queue service
 const jobQueueService = new JobQueueService();
@@ -31,6 +40,13 @@ app.use('/api/integrations', integrationRoutes);
 app.use('/api/inventory', inventoryRoutes);
 app.use('/api/webhooks', webhookRoutes);
 app.use('/api/jobs', jobRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/shops', shopRoutes);
+app.use('/api/channels', channelRoutes);
+app.use('/api/feeds', feedRoutes);
+app.use('/api/categories', categoryRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/attributes', attributeRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -63,7 +79,15 @@ process.on('SIGINT', async () => {
 });
 
 app.listen(PORT, () => {
-  
+  // Variants from before product options keep their size and color in the old columns
+  new ProductOptionService().backfillLegacySizeColor()
+    .then(count => {
+      if (count > 0) {
+        console.log(`Copied size and color of ${count} variants into product options`);
+      }
+    })
+    .catch(error => console.error('Failed to backfill variant size and color options:', error));
+
   if (jobQueueService.isRedisAvailable()) {
     console.log(`Background jobs enabled with Redis`);
   } else {
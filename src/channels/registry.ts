@@ -0,0 +1,24 @@
+import { ChannelAdapter } from './types';
+import { ShopifyChannelAdapter } from './shopify';
+import { WooCommerceChannelAdapter } from './woocommerce';
+import { NotFoundError } from '../utils/errors';
+
+// Sales channels by name; adding a marketplace means implementing ChannelAdapter and registering it here
+const adapters = new Map<string, ChannelAdapter>();
+
+export const registerChannel = (adapter: ChannelAdapter) => {
+  adapters.set(adapter.name, adapter);
+};
+
+export const getChannel = (name: string) => {
+  const adapter = adapters.get(name);
+  if (!adapter) {
+    throw new NotFoundError(`Unknown sales channel: ${name}. Available channels: ${Array.from(adapters.keys()).join(', ')}`);
+  }
+  return adapter;
+};
+
+export const listChannels = () => Array.from(adapters.values());
+
+registerChannel(new ShopifyChannelAdapter());
+registerChannel(new WooCommerceChannelAdapter());
@@ -0,0 +1,97 @@
+import { ChannelAdapter, ChannelContext, PullProductsOptions, FetchOrdersOptions, ChannelOrdersResult, SHOPIFY_CHANNEL } from './types';
+import { ProductService } from '../services/product';
+import { OrderService } from '../services/order';
+import { ShopService } from '../services/shop';
+
+// Shopify as a sales channel; the account is a shop (ID, domain or shop name)
+export class ShopifyChannelAdapter implements ChannelAdapter {
+  readonly name = SHOPIFY_CHANNEL;
+  readonly label = 'Shopify';
+
+  private productService: ProductService;
+  private orderService: OrderService;
+  private shopService: ShopService;
+
+  constructor() {
+    this.productService = new ProductService();
+    this.orderService = new OrderService();
+    this.shopService = new ShopService();
+  }
+
+  async isConfigured(context: ChannelContext = {}) {
+    try {
+      const shop = await this.shopService.resolve(context.account);
+      return !!shop.accessToken;
+    } catch {
+      return false;
+    }
+  }
+
+  async pushProduct(productId: number, context: ChannelContext = {}) {
+    const shop = await this.shopService.resolve(context.account);
+    const product = await this.productService.getById(productId);
+
+    if (await this.productService.hasChannelMapping(productId, SHOPIFY_CHANNEL, shop.id)) {
+      const [updated] = await this.productService.updateProductInShopify(productId, product, shop.id);
+      return { created: false, result: updated };
+    }
+
+    return { created: true, result: await this.productService.deployToShopify(product, shop.id) };
+  }
+
+  async pullProducts(options: PullProductsOptions = {}) {
+    const { account, ...importOptions } = options;
+    const shop = await this.shopService.resolve(account);
+    return await this.productService.importFromShopifyBulk({ ...importOptions, shopId: shop.id });
+  }
+
+  async pushInventory(context: ChannelContext = {}) {
+    const shop = await this.shopService.resolve(context.account);
+    return await this.productService.syncInventoryAcrossChannels(shop.id);
+  }
+
+  async pullInventory(context: ChannelContext = {}) {
+    const shop = await this.shopService.resolve(context.account);
+    return await this.productService.syncInventoryFromShopifyReadOnly(shop.id);
+  }
+
+  // Catch up on orders missed by webhooks; unknown orders are created, known ones updated
+  async fetchOrders(options: FetchOrdersOptions = {}): Promise<ChannelOrdersResult> {
+    const shop = await this.shopService.resolve(options.account);
+    const shopify = this.shopService.getShopifyService(shop);
+    const maxPages = options.maxPages ?? Infinity;
+
+    const result: ChannelOrdersResult = { success: true, fetched: 0, created: 0, updated: 0, failed: 0, errors: [] };
+    let pageInfo: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await shopify.getOrdersPage({
+        limit: options.limit,
+        pageInfo,
+        updatedAtMin: options.updatedAtMin,
+      });
+      pages++;
+
+      for (const order of page.orders) {
+        result.fetched++;
+        try {
+          const outcome = await this.orderService.updateFromShopify(order, 'orders/updated', shop.id);
+          if (outcome.created) {
+            result.created++;
+          } else {
+            result.updated++;
+          }
+        } catch (error) {
+          result.failed++;
+          result.errors.push(`Order ${order.id}: ${(error as Error).message}`);
+        }
+      }
+
+      pageInfo = page.nextPageInfo || undefined;
+    } while (pageInfo && pages < maxPages);
+
+    result.success = result.failed === 0;
+    return result;
+  }
+}
@@ -0,0 +1,59 @@
+// Contract every sales channel (marketplace, storefront) implements. The catalog, stock and
+// order tables are channel-agnostic; an adapter translates between them and one channel's API.
+
+export const INTERNAL_CHANNEL = 'internal';
+export const SHOPIFY_CHANNEL = 'shopify';
+export const WOOCOMMERCE_CHANNEL = 'woocommerce';
+
+// Which store of a channel a call targets (e.g. a Shopify shop ID or domain); the channel's
+// default account when omitted
+export interface ChannelContext {
+  account?: string | number;
+}
+
+export interface PullProductsOptions extends ChannelContext {
+  limit?: number;
+  updatedAtMin?: string;
+  incremental?: boolean;
+  resume?: boolean;
+  maxPages?: number;
+  syncDeletions?: boolean;
+}
+
+export interface FetchOrdersOptions extends ChannelContext {
+  updatedAtMin?: string;
+  limit?: number;
+  maxPages?: number;
+}
+
+export interface ChannelOrdersResult {
+  success: boolean;
+  fetched: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: string[];
+}
+
+export interface ChannelAdapter {
+  readonly name: string;
+  readonly label: string;
+
+  // Credentials/settings are present for the account
+  isConfigured(context?: ChannelContext): Promise<boolean>;
+
+  // Create the product in the channel, or update it when already listed there
+  pushProduct(productId: number, context?: ChannelContext): Promise<any>;
+
+  // Import the channel's catalog into products/variants
+  pullProducts(options?: PullProductsOptions): Promise<any>;
+
+  // Send local stock levels to the channel
+  pushInventory(context?: ChannelContext): Promise<any>;
+
+  // Read the channel's stock levels into the inventory table
+  pullInventory(context?: ChannelContext): Promise<any>;
+
+  // Fetch orders from the channel and record new or changed ones
+  fetchOrders(options?: FetchOrdersOptions): Promise<ChannelOrdersResult>;
+}
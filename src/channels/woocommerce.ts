@@ -0,0 +1,47 @@
+import { ChannelAdapter, PullProductsOptions, FetchOrdersOptions, ChannelOrdersResult, WOOCOMMERCE_CHANNEL } from './types';
+import { WooCommerceSyncService } from '../services/woocommerceSync';
+
+// WooCommerce as a sales channel; one store configured through WOOCOMMERCE_* settings, so the
+// account is ignored
+export class WooCommerceChannelAdapter implements ChannelAdapter {
+  readonly name = WOOCOMMERCE_CHANNEL;
+  readonly label = 'WooCommerce';
+
+  private syncService: WooCommerceSyncService;
+
+  constructor() {
+    this.syncService = new WooCommerceSyncService();
+  }
+
+  async isConfigured() {
+    return this.syncService.isConfigured();
+  }
+
+  async pushProduct(productId: number) {
+    return await this.syncService.pushProduct(productId);
+  }
+
+  async pullProducts(options: PullProductsOptions = {}) {
+    return await this.syncService.importProducts({
+      perPage: options.limit,
+      modifiedAfter: options.updatedAtMin,
+      maxPages: options.maxPages,
+    });
+  }
+
+  async pushInventory() {
+    return await this.syncService.pushInventory();
+  }
+
+  async pullInventory() {
+    return await this.syncService.pullInventory();
+  }
+
+  async fetchOrders(options: FetchOrdersOptions = {}): Promise<ChannelOrdersResult> {
+    return await this.syncService.fetchOrders({
+      modifiedAfter: options.updatedAtMin,
+      perPage: options.limit,
+      maxPages: options.maxPages,
+    });
+  }
+}
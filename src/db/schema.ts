@@ -9,8 +9,45 @@ import {
   boolean, 
   timestamp, 
   jsonb,
-  uniqueIndex
+  index,
+  uniqueIndex,
+  unique,
+  customType,
+  AnyPgColumn
 } from 'drizzle-orm/pg-core';
+import { sql, getTableColumns } from 'drizzle-orm';
+
+// Weighted full-text document for a product (name > SKU > brand > description), generated by
+// Postgres. It is only used inside queries; select productColumns to leave it out of results.
+const productSearchVector = customType<{ data: never; driverData: string }>({
+  dataType() {
+    return `tsvector generated always as (
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(sku, '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(brand, '')), 'C') ||
+      setweight(to_tsvector('english', coalesce(description, '')), 'D')
+    ) stored`;
+  },
+  fromDriver() {
+    return undefined as never;
+  },
+});
+
+// Category tree; a product belongs to one node (and so to every ancestor)
+export const categories = pgTable('categories', {
+  id: serial('id').primaryKey(),
+  parentId: integer('parent_id').references((): AnyPgColumn => categories.id), // null for top-level categories
+  name: varchar('name', { length: 100 }).notNull(),
+  slug: varchar('slug', { length: 150 }).notNull().unique(),
+  description: text('description'),
+  position: integer('position').notNull().default(0), // order among siblings
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    parentIdx: index('categories_parent_idx').on(table.parentId),
+  }
+});
 
 // Products table - unified catalog
 export const products = pgTable('products', {
@@ -18,35 +55,221 @@ export const products = pgTable('products', {
   sku: varchar('sku', { length: 100 }).notNull().unique(),
   name: varchar('name', { length: 500 }).notNull(),
   description: text('description'),
-  category: varchar('category', { length: 100 }),
+  category: varchar('category', { length: 100 }), // free-text product type (Shopify product_type)
+  categoryId: integer('category_id').references(() => categories.id),
   brand: varchar('brand', { length: 100 }),
   basePrice: decimal('base_price', { precision: 10, scale: 2 }),
   status: varchar('status', { length: 20 }).default('active'), // active, inactive, discontinued
+  searchVector: productSearchVector('search_vector'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    searchIdx: index('products_search_idx').on(table.searchVector).using(sql`gin`),
+    categoryIdx: index('products_category_idx').on(table.categoryId),
+  }
 });
 
+// Every products column except searchVector, for selects and returning() that read whole rows
+const { searchVector: _searchVector, ...productColumns } = getTableColumns(products);
+export { productColumns };
+
 // Product variants (size, color, etc.)
 export const productVariants = pgTable('product_variants', {
   id: serial('id').primaryKey(),
   productId: integer('product_id').references(() => products.id),
   sku: varchar('sku', { length: 100 }).notNull().unique(),
   name: varchar('name', { length: 200 }),
+  // Superseded by product options. Kept until ProductOptionService.backfillLegacySizeColor has
+  // copied them into Size and Color options at startup; drop them in a later release.
   size: varchar('size', { length: 20 }),
   color: varchar('color', { length: 50 }),
   price: decimal('price', { precision: 10, scale: 2 }),
   weight: decimal('weight', { precision: 8, scale: 2 }),
+  gtin: varchar('gtin', { length: 14 }), // UPC/EAN/ISBN barcode (Shopify barcode)
   dimensions: jsonb('dimensions'), // {length, width, height}
   images: jsonb('images'), // array of image URLs
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
 
-// Inventory tracking across channels
+// Named options of a product (Size, Color, Material, ...), in display order
+export const productOptions = pgTable('product_options', {
+  id: serial('id').primaryKey(),
+  productId: integer('product_id').references(() => products.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  position: integer('position').notNull(), // 1-based
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    productOptionNameIdx: uniqueIndex('product_option_name_idx').on(table.productId, table.name),
+  }
+});
+
+// The value a variant has for each of its product's options
+export const variantOptionValues = pgTable('variant_option_values', {
+  id: serial('id').primaryKey(),
+  variantId: integer('variant_id').references(() => productVariants.id).notNull(),
+  optionId: integer('option_id').references(() => productOptions.id).notNull(),
+  value: varchar('value', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    variantOptionIdx: uniqueIndex('variant_option_idx').on(table.variantId, table.optionId),
+    optionValueIdx: index('option_value_idx').on(table.optionId, table.value),
+  }
+});
+
+// Merchant tags; sent to Shopify as the product's tags
+export const productTags = pgTable('product_tags', {
+  id: serial('id').primaryKey(),
+  productId: integer('product_id').references(() => products.id).notNull(),
+  tag: varchar('tag', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    productTagIdx: uniqueIndex('product_tag_idx').on(table.productId, table.tag),
+    tagIdx: index('tag_idx').on(table.tag),
+  }
+});
+
+// Custom attributes merchants define for products or variants (material, care instructions,
+// origin, ...). Synced with Shopify metafields of the same namespace and key.
+export const attributeDefinitions = pgTable('attribute_definitions', {
+  id: serial('id').primaryKey(),
+  ownerType: varchar('owner_type', { length: 20 }).notNull(), // product, variant
+  namespace: varchar('namespace', { length: 64 }).notNull().default('custom'),
+  key: varchar('key', { length: 64 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  type: varchar('type', { length: 20 }).notNull(), // string, number, boolean, json, reference
+  referenceType: varchar('reference_type', { length: 20 }), // reference: product, variant, collection
+  required: boolean('required').notNull().default(false),
+  validation: jsonb('validation'), // { choices, min, max, maxLength, pattern }
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    // Attributes are addressed by key, so a key is used once per owner type whatever the namespace
+    attributeKeyIdx: uniqueIndex('attribute_key_idx').on(table.ownerType, table.key),
+  }
+});
+
+// Attribute values; owner_id is a product or variant ID depending on the definition's owner type
+export const attributeValues = pgTable('attribute_values', {
+  id: serial('id').primaryKey(),
+  definitionId: integer('definition_id').references(() => attributeDefinitions.id).notNull(),
+  ownerId: integer('owner_id').notNull(),
+  value: jsonb('value').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    attributeOwnerIdx: uniqueIndex('attribute_owner_idx').on(table.definitionId, table.ownerId),
+    attributeValueOwnerIdx: index('attribute_value_owner_idx').on(table.ownerId),
+  }
+});
+
+// Product collections. Manual collections list their products in collection_products; smart
+// collections match products by rules, evaluated when they are queried.
+export const collections = pgTable('collections', {
+  id: serial('id').primaryKey(),
+  title: varchar('title', { length: 255 }).notNull(),
+  handle: varchar('handle', { length: 255 }).notNull().unique(),
+  description: text('description'),
+  type: varchar('type', { length: 20 }).notNull().default('manual'), // manual, smart
+  rules: jsonb('rules'), // smart: [{ field, relation, value }]
+  disjunctive: boolean('disjunctive').notNull().default(false), // smart: any rule matches rather than all
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const collectionProducts = pgTable('collection_products', {
+  id: serial('id').primaryKey(),
+  collectionId: integer('collection_id').references(() => collections.id).notNull(),
+  productId: integer('product_id').references(() => products.id).notNull(),
+  position: integer('position').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    collectionProductIdx: uniqueIndex('collection_product_idx').on(table.collectionId, table.productId),
+    productIdx: index('collection_products_product_idx').on(table.productId),
+  }
+});
+
+// A collection's counterpart in a channel store, e.g. a Shopify custom or smart collection
+export const collectionMappings = pgTable('collection_mappings', {
+  id: serial('id').primaryKey(),
+  collectionId: integer('collection_id').references(() => collections.id).notNull(),
+  channel: varchar('channel', { length: 50 }).notNull(),
+  shopId: integer('shop_id').references(() => shops.id),
+  channelCollectionId: varchar('channel_collection_id', { length: 100 }).notNull(),
+  channelData: jsonb('channel_data'),
+  syncStatus: varchar('sync_status', { length: 20 }).default('pending'), // pending, synced, failed
+  lastSyncAt: timestamp('last_sync_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    channelCollectionIdx: uniqueIndex('collection_mappings_channel_idx').on(table.channel, table.shopId, table.channelCollectionId),
+  }
+});
+
+// Connected Shopify stores; several storefronts can sell from the one catalog
+export const shops = pgTable('shops', {
+  id: serial('id').primaryKey(),
+  domain: varchar('domain', { length: 255 }).notNull().unique(), // my-store.myshopify.com
+  shopName: varchar('shop_name', { length: 255 }).notNull(), // my-store
+  name: varchar('name', { length: 255 }),
+  accessToken: text('access_token'), // encrypted when ENCRYPTION_KEY is set
+  webhookSecret: text('webhook_secret'), // per-store secret for custom apps
+  apiVersion: varchar('api_version', { length: 20 }),
+  scopes: text('scopes'), // granted OAuth scopes, comma-separated
+  settings: jsonb('settings'),
+  isActive: boolean('is_active').default(true),
+  isDefault: boolean('is_default').default(false), // used when a request doesn't name a shop
+  installedAt: timestamp('installed_at'),
+  uninstalledAt: timestamp('uninstalled_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Pending OAuth installs: the state nonce sent to Shopify, valid once and for a short time
+export const shopifyOauthStates = pgTable('shopify_oauth_states', {
+  id: serial('id').primaryKey(),
+  nonce: varchar('nonce', { length: 64 }).notNull().unique(),
+  shopDomain: varchar('shop_domain', { length: 255 }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// Stock locations - mirrored from Shopify or managed internally
+export const locations = pgTable('locations', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  channel: varchar('channel', { length: 50 }).notNull(), // shopify, internal
+  shopId: integer('shop_id').references(() => shops.id), // owning shop for Shopify locations
+  channelLocationId: varchar('channel_location_id', { length: 100 }),
+  address: jsonb('address'), // {address1, city, province, country, zip}
+  isActive: boolean('is_active').default(true),
+  isDefault: boolean('is_default').default(false), // default location for internal stock
+  lastSyncAt: timestamp('last_sync_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    channelLocationIdx: uniqueIndex('channel_location_idx').on(table.channel, table.shopId, table.channelLocationId)
+  }
+});
+
+// Inventory tracking across channels, one row per variant per channel per location.
+// Shopify rows belong to a shop through their location.
 export const inventory = pgTable('inventory', {
   id: serial('id').primaryKey(),
   variantId: integer('variant_id').references(() => productVariants.id),
-      channel: varchar('channel', { length: 50 }).notNull(), // shopify, internal
+  channel: varchar('channel', { length: 50 }).notNull(), // shopify, internal
+  locationId: integer('location_id').references(() => locations.id),
   channelProductId: varchar('channel_product_id', { length: 100 }),
   quantity: integer('quantity').default(0),
   reserved: integer('reserved').default(0), // reserved for pending orders
@@ -56,7 +279,28 @@ export const inventory = pgTable('inventory', {
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => {
   return {
-    channelVariantIdx: uniqueIndex('channel_variant_idx').on(table.variantId, table.channel)
+    channelVariantLocationIdx: uniqueIndex('channel_variant_location_idx').on(table.variantId, table.channel, table.locationId)
+  }
+});
+
+// Append-only ledger of inventory changes; inventory.quantity is the running balance
+export const inventoryMovements = pgTable('inventory_movements', {
+  id: serial('id').primaryKey(),
+  // Ledger rows outlive their variant; a deleted variant's history keeps a null variant
+  variantId: integer('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  channel: varchar('channel', { length: 50 }).notNull(),
+  locationId: integer('location_id').references(() => locations.id),
+  delta: integer('delta').notNull(),
+  balanceAfter: integer('balance_after').notNull(),
+  reason: varchar('reason', { length: 30 }).notNull(), // sale, restock, damage, sync-correction, manual
+  source: varchar('source', { length: 50 }).notNull(), // api, shopify-sync, opening-balance, ...
+  actor: varchar('actor', { length: 255 }), // user or process that made the change
+  note: text('note'),
+  details: jsonb('details'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    variantCreatedIdx: index('inventory_movements_variant_created_idx').on(table.variantId, table.createdAt)
   }
 });
 
@@ -66,13 +310,19 @@ export const channelMappings = pgTable('channel_mappings', {
   productId: integer('product_id').references(() => products.id),
   variantId: integer('variant_id').references(() => productVariants.id),
   channel: varchar('channel', { length: 50 }).notNull(),
+  shopId: integer('shop_id').references(() => shops.id), // which Shopify store the IDs belong to
   channelProductId: varchar('channel_product_id', { length: 100 }),
   channelVariantId: varchar('channel_variant_id', { length: 100 }),
+  channelInventoryItemId: varchar('channel_inventory_item_id', { length: 100 }), // Shopify inventory_item_id
   channelData: jsonb('channel_data'), // store channel-specific data
   syncStatus: varchar('sync_status', { length: 20 }).default('pending'), // pending, synced, failed
   lastSyncAt: timestamp('last_sync_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    shopChannelProductIdx: index('channel_mappings_shop_product_idx').on(table.channel, table.shopId, table.channelProductId)
+  }
 });
 
 // Sync logs for audit trail
@@ -80,6 +330,7 @@ export const syncLogs = pgTable('sync_logs', {
   id: serial('id').primaryKey(),
   channel: varchar('channel', { length: 50 }).notNull(),
   operation: varchar('operation', { length: 50 }).notNull(), // import, export, update
+  shopId: integer('shop_id').references(() => shops.id),
   productId: integer('product_id').references(() => products.id),
   variantId: integer('variant_id').references(() => productVariants.id),
   status: varchar('status', { length: 20 }).notNull(), // success, failed, partial
@@ -91,27 +342,102 @@ export const syncLogs = pgTable('sync_logs', {
 // Orders table
 export const orders = pgTable('orders', {
   id: serial('id').primaryKey(),
-  orderNumber: varchar('order_number', { length: 100 }).unique(),
+  orderNumber: varchar('order_number', { length: 100 }), // unique per channel and shop, not globally
   channel: varchar('channel', { length: 50 }).notNull(),
+  shopId: integer('shop_id').references(() => shops.id),
   channelOrderId: varchar('channel_order_id', { length: 100 }),
   customerEmail: varchar('customer_email', { length: 255 }),
   totalAmount: decimal('total_amount', { precision: 10, scale: 2 }),
-  status: varchar('status', { length: 20 }).default('pending'),
+  status: varchar('status', { length: 20 }).default('pending'), // pending, partially_fulfilled, fulfilled, partially_refunded, refunded, cancelled
+  financialStatus: varchar('financial_status', { length: 30 }), // as reported by the channel
+  fulfillmentStatus: varchar('fulfillment_status', { length: 30 }), // as reported by the channel
+  cancelledAt: timestamp('cancelled_at'),
+  statusChangedAt: timestamp('status_changed_at'),
   orderData: jsonb('order_data'), // full order details
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => {
+  return {
+    // Every shop numbers its orders from #1001, so numbers only need to be unique within a shop.
+    // WooCommerce orders have no shop, and NULLS NOT DISTINCT keeps them unique within the channel
+    orderNumberIdx: unique('order_number_idx').on(table.channel, table.shopId, table.orderNumber).nullsNotDistinct(),
+  }
 });
 
 // Order items
 export const orderItems = pgTable('order_items', {
   id: serial('id').primaryKey(),
   orderId: integer('order_id').references(() => orders.id),
-  variantId: integer('variant_id').references(() => productVariants.id),
+  variantId: integer('variant_id').references(() => productVariants.id), // null until the line is matched
+  locationId: integer('location_id').references(() => locations.id), // where stock is reserved
+  channelLineItemId: varchar('channel_line_item_id', { length: 100 }),
+  channelVariantId: varchar('channel_variant_id', { length: 100 }),
+  sku: varchar('sku', { length: 100 }),
+  title: varchar('title', { length: 500 }),
   quantity: integer('quantity').notNull(),
+  reservedQuantity: integer('reserved_quantity').default(0), // currently held in inventory.reserved
+  fulfilledQuantity: integer('fulfilled_quantity').default(0),
+  refundedQuantity: integer('refunded_quantity').default(0),
   price: decimal('price', { precision: 10, scale: 2 }),
   totalPrice: decimal('total_price', { precision: 10, scale: 2 }),
 });
 
+// Order status transitions and lifecycle events
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: serial('id').primaryKey(),
+  orderId: integer('order_id').references(() => orders.id).notNull(),
+  fromStatus: varchar('from_status', { length: 20 }),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  event: varchar('event', { length: 100 }).notNull(), // webhook topic or other trigger
+  eventId: varchar('event_id', { length: 100 }), // e.g. Shopify refund ID, for idempotency
+  details: jsonb('details'),
+  occurredAt: timestamp('occurred_at').notNull(), // when it happened in the channel
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => {
+  return {
+    orderOccurredIdx: index('order_status_history_order_idx').on(table.orderId, table.occurredAt),
+    // An event with an ID (e.g. a Shopify refund) is applied to an order once
+    orderEventIdx: uniqueIndex('order_status_history_event_idx').on(table.orderId, table.event, table.eventId),
+  }
+});
+
+// Spreadsheet product imports run in the background, with progress and the per-row report
+export const productImports = pgTable('product_imports', {
+  id: serial('id').primaryKey(),
+  filename: varchar('filename', { length: 255 }),
+  format: varchar('format', { length: 10 }).notNull(), // csv, xlsx
+  dryRun: boolean('dry_run').default(false),
+  status: varchar('status', { length: 20 }).default('pending'), // pending, running, completed, failed
+  totalRows: integer('total_rows').default(0),
+  processedRows: integer('processed_rows').default(0),
+  rows: jsonb('rows'), // parsed rows waiting to be processed; cleared once done
+  summary: jsonb('summary'), // created/updated/failed counts
+  report: jsonb('report'), // rows with errors
+  lastError: text('last_error'),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+// Incoming webhook deliveries, used to deduplicate retries and replay failures
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  webhookId: varchar('webhook_id', { length: 255 }).notNull().unique(), // X-Shopify-Webhook-Id
+  channel: varchar('channel', { length: 50 }).notNull(),
+  topic: varchar('topic', { length: 100 }).notNull(),
+  shopDomain: varchar('shop_domain', { length: 255 }),
+  shopId: integer('shop_id').references(() => shops.id),
+  payloadHash: varchar('payload_hash', { length: 64 }).notNull(), // sha256 hex
+  payload: jsonb('payload'),
+  status: varchar('status', { length: 20 }).default('received'), // received, processing, processed, failed
+  attempts: integer('attempts').default(0),
+  lastError: text('last_error'),
+  receivedAt: timestamp('received_at').defaultNow(),
+  processedAt: timestamp('processed_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Configuration for API settings
 export const configurations = pgTable('configurations', {
   id: serial('id').primaryKey(),
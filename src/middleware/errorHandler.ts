@@ -12,6 +12,21 @@ export const errorHandler = (
     return res.status(400).json({
       error: 'Validation Error',
       message: error.message,
+      details: (error as any).details,
+    });
+  }
+
+  if (error.name === 'NotFoundError') {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: error.message,
+    });
+  }
+
+  if (error.name === 'ConflictError') {
+    return res.status(409).json({
+      error: 'Conflict',
+      message: error.message,
     });
   }
 
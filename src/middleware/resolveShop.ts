@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { ShopService, Shop } from '../services/shop';
+
+declare global {
+  namespace Express {
+    interface Request {
+      shop?: Shop;
+    }
+  }
+}
+
+const shopService = new ShopService();
+
+// Shop a request targets: the :shop path parameter, then ?shop= or a "shop" body field,
+// falling back to the default shop. Accepts a shop ID, domain or shop name.
+export const resolveShop = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const identifier = req.params.shop ?? req.query.shop ?? req.body?.shop;
+    req.shop = await shopService.resolve(typeof identifier === 'string' || typeof identifier === 'number' ? identifier : undefined);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { db } from '../db/connection';
+import { syncLogs } from '../db/schema';
+import { ShopService } from '../services/shop';
+import { decryptSecret } from '../utils/encryption';
+
+const shopService = new ShopService();
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+// Body parser verify hook: keep the exact bytes that were signed
+export const captureRawBody = (req: IncomingMessage, res: unknown, buf: Buffer) => {
+  (req as Request).rawBody = buf;
+};
+
+// SHOPIFY_WEBHOOK_SECRET plus any comma-separated SHOPIFY_WEBHOOK_SECRETS (for rotation).
+// Webhooks of OAuth-installed shops are signed with the app's SHOPIFY_SECRET_KEY.
+export const getShopifyWebhookSecrets = (): string[] => {
+  const secrets = [
+    process.env.SHOPIFY_WEBHOOK_SECRET,
+    process.env.SHOPIFY_SECRET_KEY,
+    ...(process.env.SHOPIFY_WEBHOOK_SECRETS || '').split(','),
+  ]
+    .map(secret => secret?.trim())
+    .filter((secret): secret is string => !!secret);
+
+  return Array.from(new Set(secrets));
+};
+
+// The sending shop's own secret (shops connected with separate apps) plus the global ones
+const getSecretsForShop = async (shopDomain: string | undefined) => {
+  const secrets = getShopifyWebhookSecrets();
+  if (!shopDomain) {
+    return secrets;
+  }
+
+  const shop = await shopService.getByDomain(shopDomain);
+  return shop?.webhookSecret ? [decryptSecret(shop.webhookSecret), ...secrets] : secrets;
+};
+
+export const isValidShopifyHmac = (rawBody: Buffer, hmacHeader: string, secrets: string[]) => {
+  const received = Buffer.from(hmacHeader, 'base64');
+
+  return secrets.some(secret => {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(rawBody)
+      .digest();
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  });
+};
+
+const logRejection = async (req: Request, reason: string) => {
+  const topic = req.get('X-Shopify-Topic') || 'unknown';
+  const shopDomain = req.get('X-Shopify-Shop-Domain') || 'unknown';
+
+  console.warn(`Rejected Shopify webhook ${topic} from ${shopDomain}: ${reason}`);
+
+  try {
+    await db.insert(syncLogs).values({
+      channel: 'shopify',
+      operation: 'webhook-verification',
+      status: 'failed',
+      message: `Rejected ${topic} webhook from ${shopDomain}: ${reason}`,
+      details: {
+        topic,
+        shopDomain,
+        webhookId: req.get('X-Shopify-Webhook-Id') || null,
+        path: req.originalUrl,
+        ip: req.ip,
+        reason,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to log webhook rejection:', error);
+  }
+};
+
+// Verify X-Shopify-Hmac-Sha256 against the raw request body
+export const verifyShopifyWebhook = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const secrets = await getSecretsForShop(req.get('X-Shopify-Shop-Domain'));
+    const hmacHeader = req.get('X-Shopify-Hmac-Sha256');
+
+    if (secrets.length === 0) {
+      await logRejection(req, 'no webhook secret configured');
+      return res.status(401).send('Unauthorized');
+    }
+
+    if (!hmacHeader) {
+      await logRejection(req, 'missing HMAC header');
+      return res.status(401).send('Unauthorized');
+    }
+
+    if (!req.rawBody) {
+      await logRejection(req, 'missing raw body (unexpected content type)');
+      return res.status(401).send('Unauthorized');
+    }
+
+    if (!isValidShopifyHmac(req.rawBody, hmacHeader, secrets)) {
+      await logRejection(req, 'invalid HMAC signature');
+      return res.status(401).send('Unauthorized');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { db } from '../db/connection';
+import { syncLogs } from '../db/schema';
+
+// X-WC-Webhook-Signature is the base64 HMAC-SHA256 of the raw body, keyed with the webhook's secret
+export const isValidWooCommerceSignature = (rawBody: Buffer, signature: string, secret: string) => {
+  const received = Buffer.from(signature, 'base64');
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(rawBody)
+    .digest();
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+const logRejection = async (req: Request, reason: string) => {
+  const topic = req.get('X-WC-Webhook-Topic') || 'unknown';
+  const source = req.get('X-WC-Webhook-Source') || 'unknown';
+
+  console.warn(`Rejected WooCommerce webhook ${topic} from ${source}: ${reason}`);
+
+  try {
+    await db.insert(syncLogs).values({
+      channel: 'woocommerce',
+      operation: 'webhook-verification',
+      status: 'failed',
+      message: `Rejected ${topic} webhook from ${source}: ${reason}`,
+      details: {
+        topic,
+        source,
+        deliveryId: req.get('X-WC-Webhook-Delivery-ID') || null,
+        path: req.originalUrl,
+        ip: req.ip,
+        reason,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to log webhook rejection:', error);
+  }
+};
+
+// Verify X-WC-Webhook-Signature against the raw request body
+export const verifyWooCommerceWebhook = async (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.WOOCOMMERCE_WEBHOOK_SECRET;
+  const signature = req.get('X-WC-Webhook-Signature');
+
+  if (!secret) {
+    await logRejection(req, 'no webhook secret configured');
+    return res.status(401).send('Unauthorized');
+  }
+
+  if (!signature) {
+    await logRejection(req, 'missing signature header');
+    return res.status(401).send('Unauthorized');
+  }
+
+  if (!req.rawBody) {
+    await logRejection(req, 'missing raw body (unexpected content type)');
+    return res.status(401).send('Unauthorized');
+  }
+
+  if (!isValidWooCommerceSignature(req.rawBody, signature, secret)) {
+    await logRejection(req, 'invalid signature');
+    return res.status(401).send('Unauthorized');
+  }
+
+  next();
+};
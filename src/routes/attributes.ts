@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { AttributeService } from '../services/attribute';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+const attributeService = new AttributeService();
+
+const parseDefinitionId = (value: string) => {
+  const definitionId = parseInt(value);
+  if (isNaN(definitionId) || definitionId <= 0) {
+    throw new ValidationError(`Invalid attribute definition id: ${value}`);
+  }
+  return definitionId;
+};
+
+// Attribute definitions, optionally of one owner type (?ownerType=product or variant)
+router.get('/', async (req, res, next) => {
+  try {
+    const definitions = await attributeService.listDefinitions(req.query.ownerType as string | undefined);
+    res.json({ success: true, definitions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Define an attribute, e.g. { ownerType: 'product', key: 'material', name: 'Material', type: 'string' }
+router.post('/', async (req, res, next) => {
+  try {
+    const { ownerType, namespace, key, name, description, type, referenceType, required, validation } = req.body;
+    const definition = await attributeService.createDefinition({
+      ownerType, namespace, key, name, description, type, referenceType, required, validation,
+    });
+    res.status(201).json({ success: true, definition });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const definition = await attributeService.getDefinition(parseDefinitionId(req.params.id));
+    res.json({ success: true, definition });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Change the name, description, required flag or validation; the key and type are fixed
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { ownerType, namespace, key, name, description, type, referenceType, required, validation } = req.body;
+    const definition = await attributeService.updateDefinition(parseDefinitionId(req.params.id), {
+      ownerType, namespace, key, name, description, type, referenceType, required, validation,
+    });
+    res.json({ success: true, definition });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a definition along with every value stored for it
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const definition = await attributeService.deleteDefinition(parseDefinitionId(req.params.id));
+    res.json({ success: true, definition });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as attributeRoutes };
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { CategoryService } from '../services/category';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+const categoryService = new CategoryService();
+
+const parseCategoryId = (value: string) => {
+  const categoryId = parseInt(value);
+  if (isNaN(categoryId) || categoryId <= 0) {
+    throw new ValidationError(`Invalid category id: ${value}`);
+  }
+  return categoryId;
+};
+
+// The category tree with direct product counts, or a flat list with ?flat=true
+router.get('/', async (req, res, next) => {
+  try {
+    if (req.query.flat === 'true') {
+      res.json({ success: true, categories: await categoryService.getAll() });
+      return;
+    }
+    res.json({ success: true, categories: await categoryService.getTree() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/slug/:slug', async (req, res, next) => {
+  try {
+    const category = await categoryService.getBySlug(req.params.slug);
+    res.json({ success: true, category: await categoryService.getDetails(category.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// A category with its path from the root and its subcategories
+router.get('/:id', async (req, res, next) => {
+  try {
+    const category = await categoryService.getDetails(parseCategoryId(req.params.id));
+    res.json({ success: true, category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a category; the slug is derived from the name unless given
+router.post('/', async (req, res, next) => {
+  try {
+    const { name, slug, description, parentId, position } = req.body;
+    const category = await categoryService.create({ name, slug, description, parentId, position });
+    res.status(201).json({ success: true, category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rename, move (parentId) or reorder (position) a category
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { name, slug, description, parentId, position } = req.body;
+    const category = await categoryService.update(parseCategoryId(req.params.id), { name, slug, description, parentId, position });
+    res.json({ success: true, category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete a category without subcategories; its products become uncategorized
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const category = await categoryService.delete(parseCategoryId(req.params.id));
+    res.json({ success: true, category });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as categoryRoutes };
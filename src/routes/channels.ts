@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { getChannel, listChannels } from '../channels/registry';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+
+// Registered sales channels and whether their default account is set up
+router.get('/', async (req, res, next) => {
+  try {
+    const channels = await Promise.all(listChannels().map(async adapter => ({
+      name: adapter.name,
+      label: adapter.label,
+      configured: await adapter.isConfigured(),
+    })));
+    res.json({ success: true, channels });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create or update products in the channel
+router.post('/:channel/products/push', async (req, res, next) => {
+  try {
+    const adapter = getChannel(req.params.channel);
+    const { productIds, account } = req.body;
+    if (!Array.isArray(productIds) || productIds.length === 0) {
+      throw new ValidationError('productIds must be a non-empty array');
+    }
+
+    const pushed = [];
+    const failed = [];
+    for (const productId of productIds) {
+      try {
+        pushed.push({ productId, ...(await adapter.pushProduct(productId, { account })) });
+      } catch (error) {
+        console.error(`Failed to push product ${productId} to ${adapter.name}:`, error);
+        failed.push({ productId, error: (error as Error).message });
+      }
+    }
+
+    res.json({ success: failed.length === 0, channel: adapter.name, pushed: pushed.length, products: pushed, failed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Import the channel's catalog
+router.post('/:channel/products/pull', async (req, res, next) => {
+  try {
+    const adapter = getChannel(req.params.channel);
+    const { account, limit, updatedAtMin, incremental, resume, maxPages, syncDeletions } = req.body;
+    const result = await adapter.pullProducts({ account, limit, updatedAtMin, incremental, resume, maxPages, syncDeletions });
+    res.json({ channel: adapter.name, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Push local stock levels to the channel
+router.post('/:channel/inventory/push', async (req, res, next) => {
+  try {
+    const adapter = getChannel(req.params.channel);
+    const result = await adapter.pushInventory({ account: req.body.account });
+    res.json({ channel: adapter.name, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Read the channel's stock levels
+router.post('/:channel/inventory/pull', async (req, res, next) => {
+  try {
+    const adapter = getChannel(req.params.channel);
+    const result = await adapter.pullInventory({ account: req.body.account });
+    res.json({ channel: adapter.name, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Fetch orders changed in the channel (e.g. to catch up after missed webhooks)
+router.post('/:channel/orders/pull', async (req, res, next) => {
+  try {
+    const adapter = getChannel(req.params.channel);
+    const { account, updatedAtMin, limit, maxPages } = req.body;
+    const result = await adapter.fetchOrders({ account, updatedAtMin, limit, maxPages });
+    res.json({ channel: adapter.name, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as channelRoutes };
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { CollectionService } from '../services/collection';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+const collectionService = new CollectionService();
+
+const parseId = (value: string, label: string) => {
+  const id = parseInt(value);
+  if (isNaN(id) || id <= 0) {
+    throw new ValidationError(`Invalid ${label}: ${value}`);
+  }
+  return id;
+};
+
+// Import the custom and smart collections of a shop (?shop=ID, domain or name; default shop otherwise)
+router.post('/shopify/import', async (req, res, next) => {
+  try {
+    const result = await collectionService.importFromShopify(req.query.shop as string | undefined);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// All collections with their product counts
+router.get('/', async (req, res, next) => {
+  try {
+    res.json({ success: true, collections: await collectionService.getAll() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create a manual collection (optionally with productIds) or a smart one from rules,
+// e.g. { type: 'smart', rules: [{ field: 'brand', relation: 'equals', value: 'Acme' }] }
+router.post('/', async (req, res, next) => {
+  try {
+    const { title, handle, description, type, rules, disjunctive, productIds } = req.body;
+    const collection = await collectionService.create({ title, handle, description, type, rules, disjunctive, productIds });
+    res.status(201).json({ success: true, collection });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const collection = await collectionService.getDetails(parseId(req.params.id, 'collection id'));
+    res.json({ success: true, collection });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update fields or rules; productIds replaces a manual collection's products
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { title, handle, description, type, rules, disjunctive, productIds } = req.body;
+    const collection = await collectionService.update(parseId(req.params.id, 'collection id'), {
+      title, handle, description, type, rules, disjunctive, productIds,
+    });
+    res.json({ success: true, collection });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const collection = await collectionService.delete(parseId(req.params.id, 'collection id'));
+    res.json({ success: true, collection });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id/products', async (req, res, next) => {
+  try {
+    const { limit = 100, offset = 0 } = req.query;
+    const parsedLimit = parseInt(limit as string);
+    const parsedOffset = parseInt(offset as string);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 1000) {
+      throw new ValidationError('limit must be between 1 and 1000');
+    }
+    if (isNaN(parsedOffset) || parsedOffset < 0) {
+      throw new ValidationError('offset must be a non-negative integer');
+    }
+
+    const result = await collectionService.getProducts(parseId(req.params.id, 'collection id'), parsedLimit, parsedOffset);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add products to a manual collection
+router.post('/:id/products', async (req, res, next) => {
+  try {
+    const result = await collectionService.addProducts(parseId(req.params.id, 'collection id'), req.body.productIds);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/:id/products/:productId', async (req, res, next) => {
+  try {
+    await collectionService.removeProduct(
+      parseId(req.params.id, 'collection id'),
+      parseId(req.params.productId, 'product id')
+    );
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create or update the collection in a shop (?shop=ID, domain or name)
+router.post('/:id/shopify', async (req, res, next) => {
+  try {
+    const result = await collectionService.pushToShopify(
+      parseId(req.params.id, 'collection id'),
+      req.query.shop as string | undefined
+    );
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as collectionRoutes };
@@ -0,0 +1,121 @@
+import { Router, Request } from 'express';
+import { FeedService, FeedFormat } from '../services/feed';
+import { ProductFilters } from '../services/product';
+import { parseIdFilter } from '../utils/params';
+
+const router = Router();
+const feedService = new FeedService();
+
+// Product listing filters given in the query string (same names as GET /api/products)
+const parseFilters = (query: Request['query']) => {
+  const filters: ProductFilters = {};
+  for (const field of ['search', 'category', 'brand', 'status', 'color', 'size'] as const) {
+    if (typeof query[field] === 'string' && query[field]) {
+      filters[field] = query[field] as string;
+    }
+  }
+  for (const field of ['minPrice', 'maxPrice'] as const) {
+    if (typeof query[field] === 'string' && query[field]) {
+      filters[field] = parseFloat(query[field] as string);
+    }
+  }
+  for (const field of ['categoryId', 'collectionId'] as const) {
+    if (query[field]) {
+      filters[field] = parseIdFilter(query[field], field);
+    }
+  }
+  // options[Material]=Wool, attributes[material]=wool
+  for (const field of ['options', 'attributes'] as const) {
+    const value = query[field];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      filters[field] = Object.fromEntries(
+        Object.entries(value).filter(([, entry]) => typeof entry === 'string' && entry)
+      ) as Record<string, string>;
+    }
+  }
+  // tags=sale,new or tags=sale&tags=new
+  if (query.tags) {
+    filters.tags = ([] as unknown[]).concat(query.tags)
+      .flatMap(value => (typeof value === 'string' ? value.split(',') : []))
+      .map(tag => tag.trim())
+      .filter(Boolean);
+  }
+  return filters;
+};
+
+// Feed channels, their formats and settings
+router.get('/', async (req, res, next) => {
+  try {
+    const feeds = await Promise.all(feedService.listChannels().map(async channel => ({
+      ...channel,
+      config: await feedService.getConfig(channel.name),
+    })));
+    res.json({ success: true, feeds, cacheDir: feedService.getCacheDir() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:channel/config', async (req, res, next) => {
+  try {
+    const config = await feedService.getConfig(req.params.channel);
+    res.json({ success: true, channel: req.params.channel, config });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update a feed's settings (partial); the cached files are rebuilt on the next regeneration
+router.patch('/:channel/config', async (req, res, next) => {
+  try {
+    const config = await feedService.updateConfig(req.params.channel, req.body);
+    res.json({ success: true, channel: req.params.channel, config });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rebuild a feed's cached files now
+router.post('/:channel/regenerate', async (req, res, next) => {
+  try {
+    const result = await feedService.regenerateAll(req.params.channel);
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The feed itself, e.g. /google.xml, /google.tsv, /meta.csv or /meta.xml; served from the
+// cached file (?refresh=true regenerates it first). Product filters in the query string
+// (category, brand, status, ...) render a filtered feed on the fly instead.
+router.get('/:channel.:format', async (req, res, next) => {
+  try {
+    const filters = parseFilters(req.query);
+    if (Object.keys(filters).length > 0) {
+      res.set('Content-Type', feedService.getContentType(req.params.channel, req.params.format as FeedFormat));
+      await feedService.streamFeed(req.params.channel, req.params.format as FeedFormat, filters, res);
+      return res.end();
+    }
+
+    const file = await feedService.getFeedFile(req.params.channel, req.params.format as FeedFormat, {
+      refresh: req.query.refresh === 'true',
+    });
+
+    res.set('Content-Type', file.contentType);
+    res.set('Last-Modified', file.generatedAt.toUTCString());
+    res.sendFile(file.path, error => {
+      if (error && !res.headersSent) {
+        next(error);
+      }
+    });
+  } catch (error) {
+    // A feed that fails part-way must not look complete
+    if (res.headersSent) {
+      console.error('Feed streaming failed:', error);
+      return res.destroy();
+    }
+    next(error);
+  }
+});
+
+export { router as feedRoutes };
@@ -1,21 +1,53 @@
 import { Router } from 'express';
-import { ShopifyService } from '../services/shopify';
 import { ProductService } from '../services/product';
+import { ShopService } from '../services/shop';
+import { ShopifyOAuthService } from '../services/shopifyOAuth';
+import { WebhookSubscriptionService } from '../services/webhookSubscription';
+import { resolveShop } from '../middleware/resolveShop';
+import { ValidationError } from '../utils/errors';
 
 const router = Router();
-const shopify = new ShopifyService();
 const productService = new ProductService();
+const shopService = new ShopService();
+const webhookSubscriptions = new WebhookSubscriptionService();
+const shopifyOAuth = new ShopifyOAuthService();
+
+// App install: redirect the merchant to Shopify to approve the requested scopes
+router.get('/shopify/install', async (req, res, next) => {
+  try {
+    const { authorizeUrl } = await shopifyOAuth.beginInstall(req.query.shop);
+    res.redirect(authorizeUrl);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OAuth redirect target: verifies HMAC and state, then stores the shop's offline token
+router.get('/shopify/callback', async (req, res, next) => {
+  try {
+    const { shop, webhooks } = await shopifyOAuth.completeInstall(req.query);
+    res.json({ success: true, shop: shopService.toPublic(shop), webhooks });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Shopify routes work on one shop: /shopify/shops/:shop/... names it, plain /shopify/...
+// takes ?shop= (or a "shop" body field) and otherwise uses the default shop
+const shopifyRouter = Router({ mergeParams: true });
+shopifyRouter.use(resolveShop);
 
 // Deploy products to Shopify
-router.post('/shopify/deploy', async (req, res) => {
+shopifyRouter.post('/deploy', async (req, res) => {
   try {
     const { productIds } = req.body;
+    const shop = req.shop!;
     
     const deployedProducts = [];
     for (const productId of productIds) {
       try {
         const product = await productService.getById(productId);
-        const shopifyProduct = await productService.deployToShopify(product);
+        const shopifyProduct = await productService.deployToShopify(product, shop.id);
         deployedProducts.push(shopifyProduct);
       } catch (error) {
         console.error(`Failed to deploy product ${productId}:`, error);
@@ -24,6 +56,7 @@ router.post('/shopify/deploy', async (req, res) => {
     
     res.json({
       success: true,
+      shop: shop.domain,
       deployed: deployedProducts.length,
       products: deployedProducts,
     });
@@ -32,87 +65,121 @@ router.post('/shopify/deploy', async (req, res) => {
   }
 });
 
-// Import products from Shopify to local database (with deletion sync)
-router.post('/shopify/import', async (req, res) => {
+// Import products from Shopify to local database, walking every page of the catalog.
+// Deletions are only synced after a complete pass without updatedAtMin.
+shopifyRouter.post('/import', async (req, res) => {
   try {
-    const { limit = 50, syncDeletions = true } = req.body;
-    // Get products from Shopify
-    const shopifyProducts = await shopify.getProducts(limit);
-    
-    const importedProducts = [];
-    const updatedProducts = [];
-    const failedProducts = [];
-    let deletedCount = 0;
-    
-    // Get all existing Shopify products from local database
-    const existingProducts = await productService.getShopifyProducts();
-    const shopifyProductIds = shopifyProducts.map(p => p.id.toString());
-    
-    // Handle deletions if syncDeletions is true
-    if (syncDeletions) {
-      for (const existingProduct of existingProducts) {
-        const shopifyMapping = existingProduct.channelMappings?.find((m: any) => m.channel === 'shopify');
-        if (shopifyMapping && !shopifyProductIds.includes(shopifyMapping.channelProductId)) {
-          // Product exists locally but not in Shopify - mark as deleted
-          await productService.markProductAsDeleted(existingProduct.id);
-          deletedCount++;
-        }
-      }
-    }
-    
-    // Import/Update products
-    for (const shopifyProduct of shopifyProducts) {
-      try {
-        // Check if product already exists
-        const existingProduct = existingProducts.find((p: any) => 
-          p.channelMappings?.some((m: any) => 
-            m.channel === 'shopify' && m.channelProductId === shopifyProduct.id.toString()
-          )
-        );
-        
-        if (existingProduct) {
-          // Update existing product
-          const updatedProduct = await productService.updateFromShopify(existingProduct.id, shopifyProduct);
-          updatedProducts.push(updatedProduct);
-        } else {
-          // Import new product
-          const importedProduct = await productService.importFromShopify(shopifyProduct);
-          importedProducts.push(importedProduct);
-        }
-      } catch (error) {
-        console.error(`Failed to process ${shopifyProduct.title}:`, error);
-        failedProducts.push({
-          title: shopifyProduct.title,
-          error: (error as Error).message
-        });
-      }
-    }
-    
-    res.json({
-      success: true,
-      imported: importedProducts.length,
-      updated: updatedProducts.length,
-      deleted: deletedCount,
-      failed: failedProducts.length,
-      total: shopifyProducts.length,
-      importedProducts,
-      updatedProducts,
-      failedProducts
+    const { limit, syncDeletions = true, updatedAtMin, incremental, resume, maxPages } = req.body;
+    const result = await productService.importFromShopifyBulk({
+      limit,
+      syncDeletions,
+      updatedAtMin,
+      incremental,
+      resume,
+      maxPages,
+      shopId: req.shop!.id,
     });
-    
+
+    res.json(result);
   } catch (error) {
     console.error('Shopify import failed:', error);
-    res.status(500).json({ 
+    res.status(error instanceof Error && error.name === 'ValidationError' ? 400 : 500).json({
       error: 'Failed to import products from Shopify',
       details: (error as Error).message 
     });
   }
 });
 
+// Progress of the current or last Shopify import
+shopifyRouter.get('/import/status', async (req, res) => {
+  try {
+    const checkpoint = await productService.getShopifyImportCheckpoint(req.shop!.id);
+    res.json({ success: true, shop: req.shop!.domain, checkpoint });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Current Shopify API call budget
+shopifyRouter.get('/rate-limit', (req, res) => {
+  try {
+    const budget = shopService.getShopifyService(req.shop!).getRateLimitStatus();
+    res.json({ success: true, shop: req.shop!.domain, budget });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// List webhook subscriptions registered in Shopify
+shopifyRouter.get('/webhooks', async (req, res) => {
+  try {
+    const webhooks = await webhookSubscriptions.list(req.shop!.id);
+    res.json({ success: true, webhooks });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Subscribe to a topic (address defaults to this server's webhook endpoint)
+shopifyRouter.post('/webhooks', async (req, res, next) => {
+  try {
+    const { topic, address } = req.body;
+    if (!topic) {
+      throw new ValidationError('topic is required');
+    }
+
+    const webhook = await webhookSubscriptions.register(topic, address, req.shop!.id);
+    res.status(201).json({ success: true, webhook });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create missing subscriptions, fix wrong addresses and remove stale ones
+shopifyRouter.post('/webhooks/reconcile', async (req, res, next) => {
+  try {
+    const { topics, prune, dryRun } = req.body;
+    if (topics !== undefined && !Array.isArray(topics)) {
+      throw new ValidationError('topics must be an array');
+    }
+
+    const result = await webhookSubscriptions.reconcile({ topics, prune, dryRun, shopId: req.shop!.id });
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+shopifyRouter.put('/webhooks/:id', async (req, res, next) => {
+  try {
+    const { topic, address } = req.body;
+    if (!topic) {
+      throw new ValidationError('topic is required');
+    }
+
+    const webhook = await webhookSubscriptions.update(req.params.id, topic, address, req.shop!.id);
+    res.json({ success: true, webhook });
+  } catch (error) {
+    next(error);
+  }
+});
+
+shopifyRouter.delete('/webhooks/:id', async (req, res, next) => {
+  try {
+    await webhookSubscriptions.remove(req.params.id, req.shop!.id);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use('/shopify/shops/:shop', shopifyRouter);
+router.use('/shopify', shopifyRouter);
+
 // Sync inventory across all channels
-router.post('/inventory/sync', async (req, res) => {
+router.post('/inventory/sync', resolveShop, async (req, res) => {
   try {
-    const syncResult = await productService.syncInventoryAcrossChannels();
+    const syncResult = await productService.syncInventoryAcrossChannels(req.shop!.id);
     res.json(syncResult);
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
@@ -120,9 +187,9 @@ router.post('/inventory/sync', async (req, res) => {
 });
 
 // Bidirectional inventory sync (can overwrite Shopify data - use with caution)
-router.post('/inventory/bidirectional-sync', async (req, res) => {
+router.post('/inventory/bidirectional-sync', resolveShop, async (req, res) => {
   try {
-    const syncResult = await productService.syncInventoryAcrossChannels();
+    const syncResult = await productService.syncInventoryAcrossChannels(req.shop!.id);
     
     res.json({
       success: true,
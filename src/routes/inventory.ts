@@ -1,55 +1,113 @@
 import { Router } from 'express';
-import { db } from '../db/connection';
-import { inventory, productVariants, products } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { InventoryService } from '../services/inventory';
+import { LocationService } from '../services/location';
+import { resolveShop } from '../middleware/resolveShop';
+import { ValidationError } from '../utils/errors';
 
 const router = Router();
+const inventoryService = new InventoryService();
+const locationService = new LocationService();
 
-// Get inventory overview
+// Get inventory overview, broken down by channel and location
 router.get('/', async (req, res) => {
   try {
-    const inventoryItems = await db.select({
-      id: inventory.id,
-      variantId: inventory.variantId,
-      channel: inventory.channel,
-      quantity: inventory.quantity,
-      available: inventory.available,
-      lastSyncAt: inventory.lastSyncAt,
-      sku: productVariants.sku,
-      productName: products.name,
-    })
-    .from(inventory)
-    .leftJoin(productVariants, eq(inventory.variantId, productVariants.id))
-    .leftJoin(products, eq(productVariants.productId, products.id));
-
-    // Group by variant
-    const groupedInventory = inventoryItems.reduce((acc:any, item:any) => {
-      const key:any = item.variantId;
-      if (!acc[key]) {
-        acc[key] = {
-          id: item.variantId,
-          sku: item.sku,
-          productName: item.productName,
-          channels: {},
-        };
-      }
-      
-      acc[key].channels[item.channel] = {
-        quantity: item.quantity,
-        available: item.available,
-        lastSync: item.lastSyncAt?.toISOString() || '',
-      };
-      
-      return acc;
-    }, {});
+    const items = await inventoryService.getOverview();
 
     res.json({
       success: true,
-      items: Object.values(groupedInventory),
+      items,
     });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-export { router as inventoryRoutes };
\ No newline at end of file
+// List stock locations
+router.get('/locations', async (req, res) => {
+  try {
+    const locations = await locationService.getAll(req.query.includeInactive === 'true');
+    res.json({ success: true, locations });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Create an internal location (warehouse not managed by Shopify)
+router.post('/locations', async (req, res, next) => {
+  try {
+    const { name, address, isDefault } = req.body;
+    const location = await locationService.createInternalLocation({ name, address, isDefault });
+    res.status(201).json({ success: true, location });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Mirror locations from a Shopify shop (?shop= or "shop" in the body, default shop otherwise)
+router.post('/locations/sync', resolveShop, async (req, res) => {
+  try {
+    const result = await locationService.syncLocationsFromShopify(req.shop!.id);
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Record a manual stock adjustment (delta or counted quantity)
+router.post('/adjustments', async (req, res, next) => {
+  try {
+    const { variantId, channel, locationId, delta, quantity, reason, actor, note } = req.body;
+    const result = await inventoryService.adjust({
+      variantId,
+      channel,
+      locationId,
+      delta,
+      quantity,
+      reason,
+      actor: actor || req.get('X-Actor') || undefined,
+      note,
+    });
+
+    res.status(201).json({
+      success: true,
+      movement: result.movement,
+      inventory: result.level,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replay a variant's stock movements over time
+router.get('/:variantId/history', async (req, res, next) => {
+  try {
+    const variantId = parseInt(req.params.variantId);
+    if (isNaN(variantId)) {
+      throw new ValidationError(`Invalid variant id: ${req.params.variantId}`);
+    }
+
+    const parseDate = (value: any, label: string) => {
+      if (!value) {
+        return undefined;
+      }
+      const date = new Date(value as string);
+      if (isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid ${label} date: ${value}`);
+      }
+      return date;
+    };
+
+    const history = await inventoryService.getHistory(variantId, {
+      channel: req.query.channel as string | undefined,
+      locationId: req.query.locationId ? parseInt(req.query.locationId as string) : undefined,
+      from: parseDate(req.query.from, 'from'),
+      to: parseDate(req.query.to, 'to'),
+    });
+
+    res.json({ success: true, ...history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as inventoryRoutes };
@@ -1,8 +1,16 @@
 import { Router } from 'express';
 import { JobQueueService } from '../services/jobQueue';
+import { ShopService } from '../services/shop';
 
 const router = Router();
 const jobQueueService = new JobQueueService();
+const shopService = new ShopService();
+
+// Optional "shop" (ID, domain or name); sync jobs without one run for every active shop
+const resolveShopId = async (shop: unknown) =>
+  shop === undefined || shop === null || shop === ''
+    ? undefined
+    : (await shopService.resolve(shop as string | number)).id;
 
 // Get queue statistics
 router.get('/stats', async (req, res) => {
@@ -49,12 +57,13 @@ router.get('/status', (req, res) => {
 // Add inventory sync job
 router.post('/inventory-sync', async (req, res) => {
   try {
-    const { priority, delay, attempts } = req.body;
+    const { priority, delay, attempts, shop } = req.body;
     
     const job = await jobQueueService.addInventorySyncJob({
       priority,
       delay,
-      attempts
+      attempts,
+      shopId: await resolveShopId(shop)
     });
     const isImmediate = 'immediate' in job && job.immediate;
     
@@ -80,12 +89,13 @@ router.post('/inventory-sync', async (req, res) => {
 // Add Shopify inventory sync job
 router.post('/shopify-inventory-sync', async (req, res) => {
   try {
-    const { priority, delay, attempts } = req.body;
+    const { priority, delay, attempts, shop } = req.body;
     
     const job = await jobQueueService.addShopifyInventorySyncJob({
       priority,
       delay,
-      attempts
+      attempts,
+      shopId: await resolveShopId(shop)
     });
     const isImmediate = 'immediate' in job && job.immediate;
     
@@ -111,7 +121,7 @@ router.post('/shopify-inventory-sync', async (req, res) => {
 // Add product sync job
 router.post('/product-sync', async (req, res) => {
   try {
-    const { operation, data, priority, delay, attempts, productId } = req.body;
+    const { operation, data, priority, delay, attempts, productId, shop } = req.body;
     
     if (!operation || !data) {
       return res.status(400).json({ 
@@ -123,7 +133,8 @@ router.post('/product-sync', async (req, res) => {
       priority,
       delay,
       attempts,
-      productId
+      productId,
+      shopId: await resolveShopId(shop)
     });
     const isImmediate = 'immediate' in job && job.immediate;
     
@@ -260,6 +271,71 @@ router.post('/schedule-product-sync', async (req, res) => {
   }
 });
 
+// Add feed regeneration job
+router.post('/feed-regeneration', async (req, res) => {
+  try {
+    const { channel, delay } = req.body;
+
+    const job = await jobQueueService.addFeedRegenerationJob({ channel, delay });
+
+    res.json({
+      success: true,
+      message: job.immediate
+        ? 'Feeds regenerated immediately (Redis not available)'
+        : 'Feed regeneration job added to queue',
+      jobId: job.id,
+      immediate: job.immediate,
+      ...('result' in job && { result: job.result }),
+      redisAvailable: jobQueueService.isRedisAvailable()
+    });
+  } catch (error) {
+    console.error('Error adding feed regeneration job:', error);
+    res.status(500).json({
+      error: (error as Error).message,
+      message: 'Failed to add feed regeneration job',
+      redisAvailable: jobQueueService.isRedisAvailable()
+    });
+  }
+});
+
+// Schedule recurring regeneration of the cached product feeds
+router.post('/schedule-feed-regeneration', async (req, res) => {
+  try {
+    const { cronExpression } = req.body;
+
+    if (!jobQueueService.isRedisAvailable()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Redis not available',
+        message: 'Cannot schedule recurring jobs without Redis. Feeds are regenerated on request when their cached file is stale.',
+        redisAvailable: false,
+        recommendations: [
+          'Install Redis to enable scheduled background jobs',
+          'Set REDIS_HOST, REDIS_PORT environment variables',
+          'Use Docker: docker run -d --name redis -p 6379:6379 redis:alpine'
+        ]
+      });
+    }
+
+    const job = await jobQueueService.scheduleRecurringFeedRegeneration(cronExpression);
+
+    res.json({
+      success: true,
+      message: 'Recurring feed regeneration scheduled',
+      jobId: job.id,
+      cronExpression: cronExpression || '0 */2 * * *',
+      redisAvailable: true
+    });
+  } catch (error) {
+    console.error('Error scheduling recurring feed regeneration:', error);
+    res.status(500).json({
+      error: (error as Error).message,
+      message: 'Failed to schedule recurring feed regeneration',
+      redisAvailable: jobQueueService.isRedisAvailable()
+    });
+  }
+});
+
 // Get recurring jobs information
 router.get('/recurring', async (req, res) => {
   try {
@@ -347,6 +423,25 @@ router.delete('/recurring-product-sync', async (req, res) => {
   }
 });
 
+// Clear existing recurring feed regeneration jobs
+router.delete('/recurring-feed-regeneration', async (req, res) => {
+  try {
+    const result = await jobQueueService.clearRecurringFeedRegeneration();
+    res.json({
+      success: true,
+      message: 'Recurring feed regeneration jobs cleared',
+      details: result
+    });
+  } catch (error) {
+    console.error('Error clearing recurring feed regeneration jobs:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to clear recurring feed regeneration jobs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Clean up old jobs
 router.post('/cleanup', async (req, res) => {
   try {
@@ -382,7 +477,8 @@ router.post('/delayed-shopify-import', async (req, res) => {
       limit = 50, 
       syncDeletions = true, 
       delay = 360000, // Default 6 minutes (360000ms)
-      priority = 1 
+      priority = 1,
+      shop
     } = req.body;
 
     if (!jobQueueService.isRedisAvailable()) {
@@ -403,7 +499,8 @@ router.post('/delayed-shopify-import', async (req, res) => {
       limit,
       syncDeletions,
       delay,
-      priority
+      priority,
+      shopId: await resolveShopId(shop)
     });
 
     res.json({
@@ -430,7 +527,7 @@ router.post('/cleanup-missing-shopify', async (req, res) => {
   try {
     console.log('🧹 Manual cleanup of missing Shopify products requested');
     
-    const result = await jobQueueService.cleanupMissingShopifyProducts();
+    const result = await jobQueueService.cleanupMissingShopifyProducts(await resolveShopId(req.body?.shop));
     
     res.json({
       success: true,
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { OrderService } from '../services/order';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+const orderService = new OrderService();
+
+const parseOrderId = (value: string) => {
+  const orderId = parseInt(value);
+  if (isNaN(orderId)) {
+    throw new ValidationError(`Invalid order id: ${value}`);
+  }
+  return orderId;
+};
+
+// Get order with its line items
+router.get('/:id', async (req, res, next) => {
+  try {
+    const result = await orderService.getOrderWithItems(parseOrderId(req.params.id));
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the order's status transitions
+router.get('/:id/history', async (req, res, next) => {
+  try {
+    const orderId = parseOrderId(req.params.id);
+    await orderService.getOrderWithItems(orderId);
+    const history = await orderService.getStatusHistory(orderId);
+    res.json({ success: true, history });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as orderRoutes };
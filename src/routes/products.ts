@@ -1,39 +1,98 @@
-import { Router } from 'express';
-import { ProductService } from '../services/product';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { ProductService, ProductFilters } from '../services/product';
+import { ProductTagService } from '../services/productTag';
+import { ShopService } from '../services/shop';
+import { ProductImportService } from '../services/productImport';
+import { ProductExportService, ExportFormat, EXPORT_FORMATS, EXPORT_CONTENT_TYPES } from '../services/productExport';
+import { JobQueueService } from '../services/jobQueue';
+import { detectSpreadsheetFormat } from '../utils/spreadsheet';
+import { ValidationError } from '../utils/errors';
+import { parseIdFilter } from '../utils/params';
 
 const router = Router();
 const productService = new ProductService();
+const shopService = new ShopService();
+const productTagService = new ProductTagService();
+const productImportService = new ProductImportService();
+const productExportService = new ProductExportService();
+const jobQueueService = new JobQueueService();
 
-// Get all products with pagination, filtering, and search
-router.get('/', async (req, res) => {
+// Files with more rows than this are imported in the background
+const IMPORT_SYNC_MAX_ROWS = parseInt(process.env.PRODUCT_IMPORT_SYNC_MAX_ROWS || '') || 500;
+
+const parseId = (value: string, label: string) => {
+  const id = parseInt(value);
+  if (isNaN(id) || id <= 0) {
+    throw new ValidationError(`Invalid ${label}: ${value}`);
+  }
+  return id;
+};
+
+// Listing filters from the query string
+const parseProductFilters = (query: Request['query']): ProductFilters => {
+  const { search, category, categoryId, collectionId, brand, status, minPrice, maxPrice, options, color, size, tags, attributes } = query;
+  return {
+    search: search as string,
+    category: category as string,
+    categoryId: categoryId ? parseIdFilter(categoryId, 'categoryId') : undefined,
+    collectionId: collectionId ? parseIdFilter(collectionId, 'collectionId') : undefined,
+    brand: brand as string,
+    status: status as string,
+    minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
+    maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+    // options[Material]=Wool
+    options: options && typeof options === 'object' && !Array.isArray(options)
+      ? Object.fromEntries(Object.entries(options).filter(([, value]) => typeof value === 'string' && value)) as Record<string, string>
+      : undefined,
+    color: color as string,
+    size: size as string,
+    // tags=sale,new or tags=sale&tags=new
+    tags: tags
+      ? ([] as unknown[]).concat(tags).flatMap(value => (typeof value === 'string' ? value.split(',') : []))
+        .map(tag => tag.trim()).filter(Boolean)
+      : undefined,
+    // attributes[material]=wool
+    attributes: attributes && typeof attributes === 'object' && !Array.isArray(attributes)
+      ? Object.fromEntries(Object.entries(attributes).filter(([, value]) => typeof value === 'string' && value)) as Record<string, string>
+      : undefined
+  };
+};
+
+// Get all products with pagination, filtering, and search. Variant options filter as
+// ?options[Material]=Wool (color and size are shorthands), custom attributes as
+// ?attributes[material]=wool and tags as ?tags=sale,new (all must match). A search ranks the best matches
+// first; facet counts for the filters come back too unless ?facets=false. ?sort takes
+// name, price, createdAt and updatedAt (comma-separated, "-" for descending); pass
+// pagination.nextCursor back as ?cursor for the next page instead of an offset.
+router.get('/', async (req, res, next) => {
   try {
     const { 
       limit = 100, 
       offset = 0, 
       includeDeleted = false,
-      search,
-      category,
-      brand,
-      status,
-      minPrice,
-      maxPrice,
-      color,
-      size
+      facets,
+      sort,
+      cursor
     } = req.query;
+
+    const pageSize = parseInt(limit as string);
+    const pageOffset = parseInt(offset as string);
+    if (isNaN(pageSize) || pageSize < 1 || pageSize > 1000) {
+      throw new ValidationError('limit must be a number between 1 and 1000');
+    }
+    if (isNaN(pageOffset) || pageOffset < 0) {
+      throw new ValidationError('offset must be a non-negative number');
+    }
     
     const result = await productService.getAllProducts(
-      parseInt(limit as string),
-      parseInt(offset as string),
+      pageSize,
+      pageOffset,
       includeDeleted === 'true',
+      parseProductFilters(req.query),
       {
-        search: search as string,
-        category: category as string,
-        brand: brand as string,
-        status: status as string,
-        minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
-        maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
-        color: color as string,
-        size: size as string
+        facets: facets !== 'false',
+        sort: sort as string,
+        cursor: cursor as string
       }
     );
     
@@ -42,19 +101,226 @@ router.get('/', async (req, res) => {
       ...result
     });
   } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
+    next(error);
+  }
+});
+
+// Stream the catalog (products, variants, per-channel inventory and channel mapping IDs) as
+// csv (one row per variant), json or ndjson (one product per line). Takes the same filters as GET /.
+router.get('/export', async (req, res, next) => {
+  try {
+    const format = ((req.query.format as string) || 'csv') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const filters = parseProductFilters(req.query);
+    if ([filters.minPrice, filters.maxPrice].some(value => value !== undefined && isNaN(value))) {
+      throw new ValidationError('minPrice and maxPrice must be numbers');
+    }
+
+    res.status(200);
+    res.set('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.set('Content-Disposition', `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.${format}"`);
+
+    await productExportService.write(res, format, {
+      includeDeleted: req.query.includeDeleted === 'true',
+      filters,
+    });
+    res.end();
+  } catch (error) {
+    // Once rows have been sent the response can't become an error; cut it off instead
+    if (res.headersSent) {
+      console.error('Product export failed:', error);
+      return res.destroy();
+    }
+    next(error);
+  }
+});
+
+// Import products from a CSV or XLSX file sent as the raw request body, one row per variant,
+// upserting by SKU. ?dryRun=true only validates; ?background=true (or a large file) queues the
+// import and answers 202 with an import ID to poll.
+router.post('/import', express.raw({ type: () => true, limit: process.env.PRODUCT_IMPORT_MAX_SIZE || '50mb' }), async (req, res, next) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new ValidationError('Send the CSV or XLSX file as the request body (Content-Type text/csv or the XLSX type)');
+    }
+
+    const filename = typeof req.query.filename === 'string' ? req.query.filename : undefined;
+    const format = detectSpreadsheetFormat(req.body, (req.query.format as string) || filename || req.get('Content-Type'));
+    const dryRun = req.query.dryRun === 'true';
+    const rows = productImportService.parse(req.body, format);
+
+    if (req.query.background !== 'true' && rows.length <= IMPORT_SYNC_MAX_ROWS) {
+      const result = await productImportService.importRows(rows, format, { dryRun, filename });
+      return res.json({ format, ...result });
+    }
+
+    const productImport = await productImportService.createImport(rows, format, { dryRun, filename });
+    const job = await jobQueueService.addProductImportJob(productImport.id);
+
+    res.status(202).json({
+      success: true,
+      message: `Import of ${rows.length} rows queued`,
+      import: productImport,
+      jobId: job.id,
+      redisAvailable: jobQueueService.isRedisAvailable(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Recent spreadsheet imports
+router.get('/imports', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const imports = await productImportService.listImports(limit);
+    res.json({ success: true, imports });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Progress and error report of a spreadsheet import
+router.get('/imports/:importId', async (req, res, next) => {
+  try {
+    const productImport = await productImportService.getImport(parseId(req.params.importId, 'import id'));
+    res.json({ success: true, import: productImport });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Tags in use with their product counts
+router.get('/tags', async (req, res, next) => {
+  try {
+    res.json({ success: true, tags: await productTagService.getAllTags() });
+  } catch (error) {
+    next(error);
   }
 });
 
 // Get product by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', async (req, res, next) => {
+  try {
+    const product = await productService.getById(parseId(req.params.id, 'product id'));
+    res.json({ success: true, product });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create product (optionally with variants)
+router.post('/', async (req, res, next) => {
+  try {
+    const { deployToShopify = false, shop, ...data } = req.body;
+    const result = await productService.createProduct(data, {
+      deployToShopify: deployToShopify === true,
+      shopId: shop !== undefined ? (await shopService.resolve(shop)).id : undefined,
+    });
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update product fields. PUT requires sku and name, PATCH does not; both are merges, so
+// optional fields left out of the body keep their current values.
+const updateProduct = (partial: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { syncToShopify = true, ...data } = req.body;
+    const result = await productService.updateProduct(parseId(req.params.id, 'product id'), data, {
+      partial,
+      syncToShopify: syncToShopify !== false,
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.put('/:id', updateProduct(false));
+router.patch('/:id', updateProduct(true));
+
+// Delete product (soft delete)
+router.delete('/:id', async (req, res, next) => {
   try {
-    const product = await productService.getById(parseInt(req.params.id));
+    const product = await productService.deleteProduct(parseId(req.params.id, 'product id'));
     res.json({ success: true, product });
   } catch (error) {
-    res.status(404).json({ error: (error as Error).message });
+    next(error);
   }
 });
 
+// List variants of a product
+router.get('/:id/variants', async (req, res, next) => {
+  try {
+    const product = await productService.getById(parseId(req.params.id, 'product id'));
+    res.json({ success: true, variants: product.variants });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get a single variant
+router.get('/:id/variants/:variantId', async (req, res, next) => {
+  try {
+    const variant = await productService.getVariant(
+      parseId(req.params.id, 'product id'),
+      parseId(req.params.variantId, 'variant id')
+    );
+    res.json({ success: true, variant });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create variant
+router.post('/:id/variants', async (req, res, next) => {
+  try {
+    const { syncToShopify = true, ...data } = req.body;
+    const result = await productService.createVariant(parseId(req.params.id, 'product id'), data, {
+      syncToShopify: syncToShopify !== false,
+    });
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Replace (PUT) or partially update (PATCH) a variant
+const updateVariant = (partial: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { syncToShopify = true, ...data } = req.body;
+    const result = await productService.updateVariant(
+      parseId(req.params.id, 'product id'),
+      parseId(req.params.variantId, 'variant id'),
+      data,
+      { partial, syncToShopify: syncToShopify !== false }
+    );
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.put('/:id/variants/:variantId', updateVariant(false));
+router.patch('/:id/variants/:variantId', updateVariant(true));
+
+// Delete variant
+router.delete('/:id/variants/:variantId', async (req, res, next) => {
+  try {
+    const result = await productService.deleteVariant(
+      parseId(req.params.id, 'product id'),
+      parseId(req.params.variantId, 'variant id'),
+      { syncToShopify: req.query.syncToShopify !== 'false' }
+    );
+    res.json({ success: true, ...result });
+  } catch (error) {
+    next(error);
+  }
+});
 
 export { router as productRoutes };
\ No newline at end of file
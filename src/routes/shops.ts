@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { ShopService } from '../services/shop';
+import { ValidationError } from '../utils/errors';
+
+const router = Router();
+const shopService = new ShopService();
+
+const parseShopId = (value: string) => {
+  const shopId = parseInt(value);
+  if (isNaN(shopId)) {
+    throw new ValidationError(`Invalid shop id: ${value}`);
+  }
+  return shopId;
+};
+
+// List connected Shopify shops (credentials are never returned)
+router.get('/', async (req, res, next) => {
+  try {
+    const shops = await shopService.getAll(req.query.includeInactive === 'true');
+    res.json({ success: true, shops: shops.map(shop => shopService.toPublic(shop)) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Connect a shop with an Admin API access token
+router.post('/', async (req, res, next) => {
+  try {
+    const { domain, name, accessToken, webhookSecret, apiVersion, settings, isDefault } = req.body;
+    const shop = await shopService.createShop({ domain, name, accessToken, webhookSecret, apiVersion, settings, isDefault });
+    res.status(201).json({ success: true, shop: shopService.toPublic(shop) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req, res, next) => {
+  try {
+    const shop = await shopService.getById(parseShopId(req.params.id));
+    res.json({ success: true, shop: shopService.toPublic(shop) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update credentials or settings; the domain cannot change
+router.patch('/:id', async (req, res, next) => {
+  try {
+    const { domain, name, accessToken, webhookSecret, apiVersion, settings, isActive, isDefault } = req.body;
+    const shop = await shopService.updateShop(parseShopId(req.params.id), {
+      domain, name, accessToken, webhookSecret, apiVersion, settings, isActive, isDefault,
+    });
+    res.json({ success: true, shop: shopService.toPublic(shop) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Disconnect a shop; its products, mappings and history are kept
+router.delete('/:id', async (req, res, next) => {
+  try {
+    const shop = await shopService.deactivateShop(parseShopId(req.params.id));
+    res.json({ success: true, shop: shopService.toPublic(shop) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as shopRoutes };
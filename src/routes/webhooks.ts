@@ -1,63 +1,136 @@
-import { Router } from 'express';
-import crypto from 'crypto';
-import { db } from '../db/connection';
-import { orders, orderItems, syncLogs } from '../db/schema';
+import { Router, Request, Response } from 'express';
+import { WebhookService } from '../services/webhook';
+import { verifyShopifyWebhook } from '../middleware/verifyShopifyWebhook';
+import { verifyWooCommerceWebhook } from '../middleware/verifyWooCommerceWebhook';
+import { WOOCOMMERCE_CHANNEL } from '../channels/types';
+import { ValidationError } from '../utils/errors';
 
 const router = Router();
+const webhookService = new WebhookService();
 
-// Shopify webhook handler
-router.post('/shopify/orders', async (req, res) => {
-  try {
-    // Verify webhook signature
-    const hmac = req.get('X-Shopify-Hmac-Sha256');
-    const body = JSON.stringify(req.body);
-    const hash = crypto
-      .createHmac('sha256', process.env.SHOPIFY_WEBHOOK_SECRET!)
-      .update(body, 'utf8')
-      .digest('base64');
-
-    if (hash !== hmac) {
-      return res.status(401).send('Unauthorized');
-    }
+// Every Shopify webhook must carry a valid signature
+router.use('/shopify', verifyShopifyWebhook);
 
-    const order = req.body;
+// Record the delivery and run the handler for its topic
+const handleShopifyWebhook = (defaultTopic?: string) => async (req: Request, res: Response) => {
+  try {
+    const topic = req.get('X-Shopify-Topic') || defaultTopic || `${req.params.resource}/${req.params.event}`;
 
-    // Save order to database
-    const [savedOrder] = await db.insert(orders).values({
-      orderNumber: order.order_number.toString(),
-      channel: 'shopify',
-      channelOrderId: order.id.toString(),
-      customerEmail: order.email,
-      totalAmount: order.total_price.toString(),
-      status: order.fulfillment_status || 'pending',
-      orderData: order,
-    }).returning();
-
-    // Save order items
-    for (const lineItem of order.line_items) {
-      await db.insert(orderItems).values({
-        orderId: savedOrder.id,
-        variantId: null, // Would need to map from Shopify variant ID
-        quantity: lineItem.quantity,
-        price: lineItem.price.toString(),
-        totalPrice: (parseFloat(lineItem.price) * lineItem.quantity).toString(),
-      });
+    if (!webhookService.isSupportedTopic(topic)) {
+      return res.status(404).send(`Unsupported webhook topic ${topic}`);
     }
 
-    // Log the webhook
-    await db.insert(syncLogs).values({
+    const { delivery, duplicate } = await webhookService.ingest({
+      webhookId: req.get('X-Shopify-Webhook-Id'),
       channel: 'shopify',
-      operation: 'webhook',
-      status: 'success',
-      message: `Received order webhook for order ${order.order_number}`,
-      details: { orderId: savedOrder.id, shopifyOrderId: order.id },
+      topic,
+      shopDomain: req.get('X-Shopify-Shop-Domain'),
+      payload: req.body,
     });
 
+    // A failed delivery answers 500 so Shopify retries it
+    if (!duplicate && delivery.status === 'failed') {
+      return res.status(500).send('Error processing webhook');
+    }
+
     res.status(200).send('OK');
   } catch (error) {
     console.error('Shopify webhook error:', error);
     res.status(500).send('Error processing webhook');
   }
+};
+
+// Shopify order webhook (topic from X-Shopify-Topic, orders/create by default)
+router.post('/shopify/orders', handleShopifyWebhook('orders/create'));
+
+// Topic-specific Shopify webhooks, e.g. /shopify/orders/cancelled, /shopify/products/update,
+// /shopify/inventory_levels/update
+router.post('/shopify/:resource/:event', handleShopifyWebhook());
+
+// WooCommerce pings a new webhook's delivery URL with an unsigned webhook_id form post and
+// needs a 200 before it activates the webhook
+router.post('/woocommerce', (req, res, next) => {
+  if (!req.get('X-WC-Webhook-Topic') && req.body?.webhook_id) {
+    return res.status(200).send('OK');
+  }
+  next();
+}, verifyWooCommerceWebhook, async (req, res) => {
+  try {
+    const topic = req.get('X-WC-Webhook-Topic') as string;
+
+    if (!webhookService.isSupportedTopic(topic, WOOCOMMERCE_CHANNEL)) {
+      return res.status(404).send(`Unsupported webhook topic ${topic}`);
+    }
+
+    const deliveryId = req.get('X-WC-Webhook-Delivery-ID');
+    const { delivery, duplicate } = await webhookService.ingest({
+      webhookId: deliveryId ? `${WOOCOMMERCE_CHANNEL}:${deliveryId}` : undefined,
+      channel: WOOCOMMERCE_CHANNEL,
+      topic,
+      shopDomain: req.get('X-WC-Webhook-Source'),
+      payload: req.body,
+    });
+
+    // A failed delivery answers 500 so WooCommerce retries it
+    if (!duplicate && delivery.status === 'failed') {
+      return res.status(500).send('Error processing webhook');
+    }
+
+    res.status(200).send('OK');
+  } catch (error) {
+    console.error('WooCommerce webhook error:', error);
+    res.status(500).send('Error processing webhook');
+  }
+});
+
+// List received webhook deliveries
+router.get('/deliveries', async (req, res) => {
+  try {
+    const { status, topic, limit = 50, offset = 0 } = req.query;
+    const result = await webhookService.getDeliveries({
+      status: status as string | undefined,
+      topic: topic as string | undefined,
+      limit: Math.min(parseInt(limit as string) || 50, 500),
+      offset: parseInt(offset as string) || 0,
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get a single delivery including its payload
+router.get('/deliveries/:id', async (req, res, next) => {
+  try {
+    const deliveryId = parseInt(req.params.id);
+    if (isNaN(deliveryId)) {
+      throw new ValidationError(`Invalid delivery id: ${req.params.id}`);
+    }
+
+    const delivery = await webhookService.getDelivery(deliveryId);
+    res.json({ success: true, delivery });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Re-run a failed or stuck delivery; { "force": true } also re-runs processed and in-progress ones
+router.post('/deliveries/:id/replay', async (req, res, next) => {
+  try {
+    const deliveryId = parseInt(req.params.id);
+    if (isNaN(deliveryId)) {
+      throw new ValidationError(`Invalid delivery id: ${req.params.id}`);
+    }
+
+    const delivery = await webhookService.replay(deliveryId, req.body?.force === true);
+    res.json({
+      success: delivery.status === 'processed',
+      delivery,
+    });
+  } catch (error) {
+    next(error);
+  }
 });
 
-export { router as webhookRoutes };
\ No newline at end of file
+export { router as webhookRoutes };
@@ -0,0 +1,756 @@
+import { db } from '../db/connection';
+import { attributeDefinitions, attributeValues, products, productVariants, collections, channelMappings, collectionMappings } from '../db/schema';
+import { ShopifyService } from './shopify';
+import { SHOPIFY_CHANNEL } from '../channels/types';
+import { eq, and, or, exists, inArray, asc, sql, SQL } from 'drizzle-orm';
+import { ValidationError, NotFoundError, ConflictError, isUniqueViolation } from '../utils/errors';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+type AttributeDefinition = typeof attributeDefinitions.$inferSelect;
+
+export const ATTRIBUTE_OWNER_TYPES = ['product', 'variant'];
+export const ATTRIBUTE_TYPES = ['string', 'number', 'boolean', 'json', 'reference'];
+export const ATTRIBUTE_REFERENCE_TYPES = ['product', 'variant', 'collection'];
+
+export type AttributeOwnerType = 'product' | 'variant';
+
+// Constraints on values; choices, maxLength and pattern apply to strings, min and max to numbers
+export interface AttributeValidation {
+  choices?: string[];
+  maxLength?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface AttributeDefinitionInput {
+  ownerType?: string;
+  namespace?: string;
+  key?: string;
+  name?: string;
+  description?: string | null;
+  type?: string;
+  referenceType?: string | null;
+  required?: boolean;
+  validation?: AttributeValidation | null;
+}
+
+// A validated value to write; null removes the attribute
+export interface AttributeChange {
+  definition: AttributeDefinition;
+  value: unknown;
+}
+
+// Shopify's limits for metafield keys and namespaces (namespaces are capped lower here)
+const KEY_PATTERN = /^[a-z0-9_-]{2,64}$/i;
+const NAMESPACE_PATTERN = /^[a-z0-9_-]{3,64}$/i;
+const STRING_MAX_LENGTH = 5000;
+
+const VALIDATION_FIELDS: Record<string, string[]> = {
+  string: ['choices', 'maxLength', 'pattern'],
+  number: ['min', 'max'],
+};
+
+// Metafield type used when creating a metafield in Shopify
+const shopifyMetafieldType = (definition: AttributeDefinition) => {
+  if (definition.type === 'reference') {
+    return `${definition.referenceType}_reference`;
+  }
+  return ({ string: 'multi_line_text_field', number: 'number_decimal', boolean: 'boolean', json: 'json' } as Record<string, string>)[definition.type];
+};
+
+const SHOPIFY_GID_TYPES: Record<string, string> = { product: 'Product', variant: 'ProductVariant', collection: 'Collection' };
+
+const validateValidation = (errors: string[], type: string, validation: any) => {
+  if (validation === null) {
+    return null;
+  }
+  if (typeof validation !== 'object' || Array.isArray(validation)) {
+    errors.push('validation must be an object');
+    return undefined;
+  }
+
+  const allowed = VALIDATION_FIELDS[type] || [];
+  const unsupported = Object.keys(validation).filter(field => !allowed.includes(field));
+  if (unsupported.length > 0) {
+    errors.push(`validation of ${type} attributes does not support: ${unsupported.join(', ')}`);
+  }
+  if (validation.choices !== undefined && (
+    !Array.isArray(validation.choices) || validation.choices.length === 0
+    || validation.choices.some((choice: unknown) => typeof choice !== 'string')
+  )) {
+    errors.push('validation.choices must be a non-empty array of strings');
+  }
+  if (validation.maxLength !== undefined && (!Number.isInteger(validation.maxLength) || validation.maxLength < 1)) {
+    errors.push('validation.maxLength must be a positive integer');
+  }
+  if (validation.pattern !== undefined) {
+    try {
+      if (typeof validation.pattern !== 'string') {
+        throw new TypeError();
+      }
+      new RegExp(validation.pattern);
+    } catch {
+      errors.push('validation.pattern must be a valid regular expression');
+    }
+  }
+  for (const field of ['min', 'max']) {
+    if (validation[field] !== undefined && (typeof validation[field] !== 'number' || !Number.isFinite(validation[field]))) {
+      errors.push(`validation.${field} must be a number`);
+    }
+  }
+  if (typeof validation.min === 'number' && typeof validation.max === 'number' && validation.min > validation.max) {
+    errors.push('validation.min must not be greater than validation.max');
+  }
+
+  return validation as AttributeValidation;
+};
+
+const validateDefinitionInput = (data: AttributeDefinitionInput, existing: AttributeDefinition | null) => {
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('Attribute definition must be an object');
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {};
+
+  if (existing) {
+    // Stored values and Shopify metafields depend on these
+    for (const field of ['ownerType', 'namespace', 'key', 'type', 'referenceType'] as const) {
+      if (data[field] !== undefined && data[field] !== existing[field]) {
+        errors.push(`${field} cannot be changed`);
+      }
+    }
+  } else {
+    if (!ATTRIBUTE_OWNER_TYPES.includes(data.ownerType as string)) {
+      errors.push(`ownerType must be one of: ${ATTRIBUTE_OWNER_TYPES.join(', ')}`);
+    }
+    if (typeof data.key !== 'string' || !KEY_PATTERN.test(data.key)) {
+      errors.push('key must be 2 to 64 letters, digits, hyphens or underscores');
+    }
+    if (data.namespace !== undefined && (typeof data.namespace !== 'string' || !NAMESPACE_PATTERN.test(data.namespace))) {
+      errors.push('namespace must be 3 to 64 letters, digits, hyphens or underscores');
+    }
+    if (!ATTRIBUTE_TYPES.includes(data.type as string)) {
+      errors.push(`type must be one of: ${ATTRIBUTE_TYPES.join(', ')}`);
+    } else if (data.type === 'reference' && !ATTRIBUTE_REFERENCE_TYPES.includes(data.referenceType as string)) {
+      errors.push(`referenceType must be one of: ${ATTRIBUTE_REFERENCE_TYPES.join(', ')}`);
+    } else if (data.type !== 'reference' && data.referenceType != null) {
+      errors.push('referenceType only applies to reference attributes');
+    }
+    Object.assign(values, {
+      ownerType: data.ownerType,
+      namespace: data.namespace ?? 'custom',
+      key: data.key,
+      type: data.type,
+      referenceType: data.type === 'reference' ? data.referenceType : null,
+    });
+  }
+
+  if (data.name !== undefined || !existing) {
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('name is required');
+    } else if (data.name.trim().length > 255) {
+      errors.push('name must be at most 255 characters');
+    } else {
+      values.name = data.name.trim();
+    }
+  }
+  if (data.description !== undefined) {
+    if (data.description !== null && typeof data.description !== 'string') {
+      errors.push('description must be a string');
+    } else {
+      values.description = data.description;
+    }
+  }
+  if (data.required !== undefined) {
+    if (typeof data.required !== 'boolean') {
+      errors.push('required must be a boolean');
+    } else {
+      values.required = data.required;
+    }
+  }
+  if (data.validation !== undefined) {
+    values.validation = validateValidation(errors, existing ? existing.type : data.type as string, data.validation);
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+  return values;
+};
+
+// A value checked against the attribute's type and validation, in the form it is stored;
+// undefined (with an error added) when it doesn't fit. Reference targets are checked separately.
+const normalizeValue = (errors: string[], definition: AttributeDefinition, value: unknown) => {
+  const field = `attributes.${definition.key}`;
+  const validation = (definition.validation || {}) as AttributeValidation;
+
+  switch (definition.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        errors.push(`${field} must be a string`);
+        return undefined;
+      }
+      if (value.length > (validation.maxLength ?? STRING_MAX_LENGTH)) {
+        errors.push(`${field} must be at most ${validation.maxLength ?? STRING_MAX_LENGTH} characters`);
+        return undefined;
+      }
+      if (validation.choices && !validation.choices.includes(value)) {
+        errors.push(`${field} must be one of: ${validation.choices.join(', ')}`);
+        return undefined;
+      }
+      if (validation.pattern && !new RegExp(`^(?:${validation.pattern})$`).test(value)) {
+        errors.push(`${field} does not match the required format`);
+        return undefined;
+      }
+      return value;
+    }
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`${field} must be a number`);
+        return undefined;
+      }
+      if ((validation.min !== undefined && number < validation.min) || (validation.max !== undefined && number > validation.max)) {
+        errors.push(`${field} must be between ${validation.min ?? '-∞'} and ${validation.max ?? '∞'}`);
+        return undefined;
+      }
+      return number;
+    }
+    case 'boolean': {
+      if (value === true || value === 'true') {
+        return true;
+      }
+      if (value === false || value === 'false') {
+        return false;
+      }
+      errors.push(`${field} must be true or false`);
+      return undefined;
+    }
+    case 'reference': {
+      const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+      if (!Number.isInteger(id) || (id as number) <= 0) {
+        errors.push(`${field} must be a ${definition.referenceType} ID`);
+        return undefined;
+      }
+      return id;
+    }
+    default:
+      return value;
+  }
+};
+
+const referenceTables = {
+  product: { table: products, id: products.id },
+  variant: { table: productVariants, id: productVariants.id },
+  collection: { table: collections, id: collections.id },
+};
+
+// Comparison of a stored value with a filter value from a listing query
+const valueMatches = (errors: string[], definition: AttributeDefinition, raw: string): SQL => {
+  const normalized = normalizeValue(
+    errors,
+    { ...definition, validation: null },
+    definition.type === 'string' ? raw : raw.trim()
+  );
+  if (normalized === undefined) {
+    return sql`false`;
+  }
+  if (definition.type === 'string') {
+    return sql`lower(${attributeValues.value} #>> '{}') = ${raw.toLowerCase()}`;
+  }
+  if (definition.type === 'json') {
+    errors.push(`attributes.${definition.key} is a JSON attribute and cannot be filtered on`);
+    return sql`false`;
+  }
+  // jsonb compares numbers numerically, so 5 matches 5.0
+  return sql`${attributeValues.value} = ${JSON.stringify(normalized)}::jsonb`;
+};
+
+// Product conditions for attribute filters by key, e.g. { material: 'wool' }. Variant attributes
+// match products with a variant that has the value. String values compare case-insensitively.
+export const attributeFilterConditions = async (filters: Record<string, string>) => {
+  const entries = Object.entries(filters).filter(([key, value]) => key && typeof value === 'string' && value !== '');
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const definitions = await db.select()
+    .from(attributeDefinitions)
+    .where(inArray(attributeDefinitions.key, entries.map(([key]) => key)));
+
+  const errors: string[] = [];
+  const conditions = entries.map(([key, raw]) => {
+    const matching = definitions.filter(definition => definition.key === key);
+    if (matching.length === 0) {
+      errors.push(`Unknown attribute: ${key}`);
+    }
+
+    return or(...matching.map(definition => {
+      const hasValue = (ownerId: typeof products.id | typeof productVariants.id) => exists(
+        db.select({ id: attributeValues.id })
+          .from(attributeValues)
+          .where(and(
+            eq(attributeValues.definitionId, definition.id),
+            eq(attributeValues.ownerId, ownerId),
+            valueMatches(errors, definition, raw)
+          ))
+      );
+
+      return definition.ownerType === 'product'
+        ? hasValue(products.id)
+        : exists(
+          db.select({ id: productVariants.id })
+            .from(productVariants)
+            .where(and(eq(productVariants.productId, products.id), hasValue(productVariants.id)))
+        );
+    })) as SQL;
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+  return conditions;
+};
+
+export class AttributeService {
+  async listDefinitions(ownerType?: string) {
+    return await db.select()
+      .from(attributeDefinitions)
+      .where(ownerType ? eq(attributeDefinitions.ownerType, ownerType) : undefined)
+      .orderBy(asc(attributeDefinitions.ownerType), asc(attributeDefinitions.key));
+  }
+
+  async getDefinition(definitionId: number) {
+    const [definition] = await db.select()
+      .from(attributeDefinitions)
+      .where(eq(attributeDefinitions.id, definitionId));
+
+    if (!definition) {
+      throw new NotFoundError('Attribute definition not found');
+    }
+    return definition;
+  }
+
+  async createDefinition(data: AttributeDefinitionInput) {
+    const values = validateDefinitionInput(data, null);
+
+    try {
+      const [definition] = await db.insert(attributeDefinitions)
+        .values(values as typeof attributeDefinitions.$inferInsert)
+        .returning();
+      return definition;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A ${values.ownerType} attribute with key "${values.key}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  // Name, description, required and validation can change; values stored before a validation
+  // change are kept as they are
+  async updateDefinition(definitionId: number, data: AttributeDefinitionInput) {
+    const existing = await this.getDefinition(definitionId);
+    const values = validateDefinitionInput(data, existing);
+
+    const [definition] = await db.update(attributeDefinitions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(attributeDefinitions.id, definitionId))
+      .returning();
+    return definition;
+  }
+
+  // Delete a definition with all of its values; Shopify metafields are left in place
+  async deleteDefinition(definitionId: number) {
+    const definition = await this.getDefinition(definitionId);
+    await db.transaction(async (tx) => {
+      await tx.delete(attributeValues).where(eq(attributeValues.definitionId, definitionId));
+      await tx.delete(attributeDefinitions).where(eq(attributeDefinitions.id, definitionId));
+    });
+    return definition;
+  }
+
+  // Attribute values of each product or variant, by key
+  async getValues(ownerType: AttributeOwnerType, ownerIds: number[], executor: Executor = db) {
+    const result = new Map<number, Record<string, unknown>>();
+    if (ownerIds.length === 0) {
+      return result;
+    }
+
+    const rows = await executor.select({
+      ownerId: attributeValues.ownerId,
+      key: attributeDefinitions.key,
+      value: attributeValues.value,
+    })
+      .from(attributeValues)
+      .innerJoin(attributeDefinitions, eq(attributeDefinitions.id, attributeValues.definitionId))
+      .where(and(eq(attributeDefinitions.ownerType, ownerType), inArray(attributeValues.ownerId, ownerIds)))
+      .orderBy(asc(attributeDefinitions.key));
+
+    for (const row of rows) {
+      result.set(row.ownerId, { ...result.get(row.ownerId), [row.key]: row.value });
+    }
+    return result;
+  }
+
+  // Products with their attributes, and each of their variants with its attributes
+  async attach<P extends { id: number; variants: { id: number }[] }>(
+    list: P[]
+  ): Promise<(Omit<P, 'variants'> & {
+    attributes: Record<string, unknown>;
+    variants: (P['variants'][number] & { attributes: Record<string, unknown> })[];
+  })[]> {
+    const [productValues, variantValues] = await Promise.all([
+      this.getValues('product', list.map(product => product.id)),
+      this.getValues('variant', list.flatMap(product => product.variants.map(variant => variant.id))),
+    ]);
+
+    return list.map(product => ({
+      ...product,
+      attributes: productValues.get(product.id) || {},
+      variants: product.variants.map(variant => ({
+        ...variant,
+        attributes: variantValues.get(variant.id) || {},
+      })),
+    }));
+  }
+
+  // Check attribute input ({ key: value }, null or '' to remove) against the definitions. When
+  // creating, required attributes must be given; they can never be removed.
+  async validateValues(ownerType: AttributeOwnerType, input: unknown, options: { creating?: boolean } = {}) {
+    if (input === undefined && !options.creating) {
+      return [];
+    }
+    if (input !== undefined && (!input || typeof input !== 'object' || Array.isArray(input))) {
+      throw new ValidationError('attributes must map attribute keys to values');
+    }
+
+    const values = (input || {}) as Record<string, unknown>;
+    const definitions = await this.listDefinitions(ownerType);
+    const errors: string[] = [];
+    const changes: AttributeChange[] = [];
+
+    for (const [key, raw] of Object.entries(values)) {
+      const definition = definitions.find(candidate => candidate.key === key);
+      if (!definition) {
+        errors.push(`Unknown ${ownerType} attribute: ${key}`);
+        continue;
+      }
+      if (raw === null || raw === '') {
+        if (definition.required) {
+          errors.push(`attributes.${key} is required`);
+        } else {
+          changes.push({ definition, value: null });
+        }
+        continue;
+      }
+      const value = normalizeValue(errors, definition, raw);
+      if (value !== undefined) {
+        changes.push({ definition, value });
+      }
+    }
+
+    if (options.creating) {
+      for (const definition of definitions) {
+        if (definition.required && !(definition.key in values)) {
+          errors.push(`attributes.${definition.key} is required`);
+        }
+      }
+    }
+
+    for (const referenceType of ATTRIBUTE_REFERENCE_TYPES) {
+      const references = changes.filter(change =>
+        change.value !== null && change.definition.type === 'reference' && change.definition.referenceType === referenceType
+      );
+      if (references.length === 0) {
+        continue;
+      }
+      const { table, id } = referenceTables[referenceType as keyof typeof referenceTables];
+      const found = await db.select({ id })
+        .from(table)
+        .where(inArray(id, references.map(change => change.value as number)));
+      for (const change of references) {
+        if (!found.some(row => row.id === change.value)) {
+          errors.push(`attributes.${change.definition.key} refers to ${referenceType} ${change.value}, which does not exist`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors.join('; '), errors);
+    }
+    return changes;
+  }
+
+  async setValues(executor: Executor, ownerId: number, changes: AttributeChange[]) {
+    for (const { definition, value } of changes) {
+      if (value === null) {
+        await executor.delete(attributeValues)
+          .where(and(eq(attributeValues.definitionId, definition.id), eq(attributeValues.ownerId, ownerId)));
+        continue;
+      }
+
+      await executor.insert(attributeValues)
+        .values({ definitionId: definition.id, ownerId, value })
+        .onConflictDoUpdate({
+          target: [attributeValues.definitionId, attributeValues.ownerId],
+          set: { value, updatedAt: new Date() },
+        });
+    }
+  }
+
+  // Remove the attributes of products or variants, e.g. before the variants are deleted
+  async clearValues(executor: Executor, ownerType: AttributeOwnerType, ownerIds: number[]) {
+    if (ownerIds.length === 0) {
+      return;
+    }
+    await executor.delete(attributeValues).where(and(
+      inArray(attributeValues.ownerId, ownerIds),
+      inArray(
+        attributeValues.definitionId,
+        executor.select({ id: attributeDefinitions.id })
+          .from(attributeDefinitions)
+          .where(eq(attributeDefinitions.ownerType, ownerType))
+      )
+    ));
+  }
+
+  // Shopify GID of what a reference attribute points to, when it is listed in the shop
+  private async toShopifyReference(referenceType: string, id: number, shopId: number) {
+    let shopifyId: string | null = null;
+    if (referenceType === 'collection') {
+      const [mapping] = await db.select({ shopifyId: collectionMappings.channelCollectionId })
+        .from(collectionMappings)
+        .where(and(
+          eq(collectionMappings.collectionId, id),
+          eq(collectionMappings.channel, SHOPIFY_CHANNEL),
+          eq(collectionMappings.shopId, shopId)
+        ))
+        .limit(1);
+      shopifyId = mapping?.shopifyId ?? null;
+    } else {
+      const isVariant = referenceType === 'variant';
+      const [mapping] = await db.select({
+        shopifyId: isVariant ? channelMappings.channelVariantId : channelMappings.channelProductId,
+      })
+        .from(channelMappings)
+        .where(and(
+          isVariant ? eq(channelMappings.variantId, id) : eq(channelMappings.productId, id),
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId)
+        ))
+        .limit(1);
+      shopifyId = mapping?.shopifyId ?? null;
+    }
+    return shopifyId ? `gid://shopify/${SHOPIFY_GID_TYPES[referenceType]}/${shopifyId}` : null;
+  }
+
+  // Our ID for a Shopify reference GID; null when the item isn't mapped in this shop
+  private async fromShopifyReference(referenceType: string, gid: string, shopId: number) {
+    const shopifyId = gid.match(/\/(\d+)$/)?.[1];
+    if (!shopifyId) {
+      return null;
+    }
+    if (referenceType === 'collection') {
+      const [mapping] = await db.select({ id: collectionMappings.collectionId })
+        .from(collectionMappings)
+        .where(and(
+          eq(collectionMappings.channelCollectionId, shopifyId),
+          eq(collectionMappings.channel, SHOPIFY_CHANNEL),
+          eq(collectionMappings.shopId, shopId)
+        ))
+        .limit(1);
+      return mapping?.id ?? null;
+    }
+
+    const isVariant = referenceType === 'variant';
+    const [mapping] = await db.select({ id: isVariant ? channelMappings.variantId : channelMappings.productId })
+      .from(channelMappings)
+      .where(and(
+        isVariant ? eq(channelMappings.channelVariantId, shopifyId) : eq(channelMappings.channelProductId, shopifyId),
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId)
+      ))
+      .limit(1);
+    return mapping?.id ?? null;
+  }
+
+  private async toShopifyValue(definition: AttributeDefinition, value: unknown, shopId: number) {
+    switch (definition.type) {
+      case 'json':
+        return JSON.stringify(value);
+      case 'reference':
+        return await this.toShopifyReference(definition.referenceType as string, value as number, shopId);
+      default:
+        return String(value);
+    }
+  }
+
+  private async fromShopifyValue(definition: AttributeDefinition, value: unknown, shopId: number) {
+    switch (definition.type) {
+      case 'json':
+        if (typeof value !== 'string') {
+          return value;
+        }
+        try {
+          return JSON.parse(value);
+        } catch {
+          return undefined;
+        }
+      case 'reference':
+        return (await this.fromShopifyReference(definition.referenceType as string, String(value), shopId)) ?? undefined;
+      default:
+        return typeof value === 'number' || typeof value === 'boolean' ? value : String(value);
+    }
+  }
+
+  // The product and its mapped variants, for the owner types that have attribute definitions
+  private async syncOwners(productId: number, shopifyProductId: string, shopifyVariantIds: Map<number, string>) {
+    const definitions = await this.listDefinitions();
+    const owners: {
+      ownerType: AttributeOwnerType;
+      ownerId: number;
+      shopifyId: string;
+      definitions: AttributeDefinition[];
+    }[] = [];
+
+    const productDefinitions = definitions.filter(definition => definition.ownerType === 'product');
+    if (productDefinitions.length > 0) {
+      owners.push({ ownerType: 'product', ownerId: productId, shopifyId: shopifyProductId, definitions: productDefinitions });
+    }
+    const variantDefinitions = definitions.filter(definition => definition.ownerType === 'variant');
+    if (variantDefinitions.length > 0) {
+      for (const [variantId, shopifyVariantId] of shopifyVariantIds) {
+        owners.push({ ownerType: 'variant', ownerId: variantId, shopifyId: shopifyVariantId, definitions: variantDefinitions });
+      }
+    }
+    return owners;
+  }
+
+  // Write the attributes of a product and its variants to the Shopify metafields with the same
+  // namespace and key, removing metafields of attributes without a value. Other metafields are
+  // left alone. Failures are reported rather than thrown: the product itself is already synced.
+  async pushToShopify(
+    shopify: ShopifyService,
+    shopId: number,
+    productId: number,
+    shopifyProductId: string,
+    shopifyVariantIds: Map<number, string>
+  ) {
+    const result = { updated: 0, deleted: 0, failed: [] as { ownerType: string; ownerId: number; key: string | null; error: string }[] };
+    const owners = await this.syncOwners(productId, shopifyProductId, shopifyVariantIds);
+    if (owners.length === 0) {
+      return result;
+    }
+
+    const [productValues, variantValues] = await Promise.all([
+      this.getValues('product', [productId]),
+      this.getValues('variant', Array.from(shopifyVariantIds.keys())),
+    ]);
+
+    for (const owner of owners) {
+      const values = (owner.ownerType === 'product' ? productValues : variantValues).get(owner.ownerId) || {};
+
+      let metafields;
+      try {
+        metafields = await shopify.getMetafields(owner.ownerType, owner.shopifyId);
+      } catch (error) {
+        result.failed.push({ ownerType: owner.ownerType, ownerId: owner.ownerId, key: null, error: (error as Error).message });
+        continue;
+      }
+
+      for (const definition of owner.definitions) {
+        const metafield = metafields.find(candidate =>
+          candidate.namespace === definition.namespace && candidate.key === definition.key
+        );
+        try {
+          const value = definition.key in values
+            ? await this.toShopifyValue(definition, values[definition.key], shopId)
+            : null;
+
+          if (value === null) {
+            if (metafield) {
+              await shopify.deleteMetafield(metafield.id.toString());
+              result.deleted++;
+            }
+          } else if (!metafield) {
+            await shopify.createMetafield(owner.ownerType, owner.shopifyId, {
+              namespace: definition.namespace,
+              key: definition.key,
+              type: shopifyMetafieldType(definition),
+              value,
+            });
+            result.updated++;
+          } else if (String(metafield.value) !== value) {
+            // Keep the type of a metafield Shopify already has, which may be bound to a definition there
+            await shopify.updateMetafield(metafield.id.toString(), {
+              type: metafield.type || shopifyMetafieldType(definition),
+              value,
+            });
+            result.updated++;
+          }
+        } catch (error) {
+          result.failed.push({ ownerType: owner.ownerType, ownerId: owner.ownerId, key: definition.key, error: (error as Error).message });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Take attribute values from the Shopify metafields with the same namespace and key; attributes
+  // without a metafield are removed. Values that don't convert or fail validation are skipped.
+  async pullFromShopify(
+    shopify: ShopifyService,
+    shopId: number,
+    productId: number,
+    shopifyProductId: string,
+    shopifyVariantIds: Map<number, string>
+  ) {
+    const result = { updated: 0, skipped: [] as { ownerType: string; ownerId: number; key: string | null; error: string }[] };
+    const owners = await this.syncOwners(productId, shopifyProductId, shopifyVariantIds);
+
+    for (const owner of owners) {
+      let metafields;
+      try {
+        metafields = await shopify.getMetafields(owner.ownerType, owner.shopifyId);
+      } catch (error) {
+        result.skipped.push({ ownerType: owner.ownerType, ownerId: owner.ownerId, key: null, error: (error as Error).message });
+        continue;
+      }
+
+      const changes: AttributeChange[] = [];
+      for (const definition of owner.definitions) {
+        const metafield = metafields.find(candidate =>
+          candidate.namespace === definition.namespace && candidate.key === definition.key
+        );
+        if (!metafield) {
+          changes.push({ definition, value: null });
+          continue;
+        }
+
+        const errors: string[] = [];
+        const converted = await this.fromShopifyValue(definition, metafield.value, shopId);
+        const value = converted === undefined ? undefined : normalizeValue(errors, definition, converted);
+        if (value === undefined) {
+          result.skipped.push({
+            ownerType: owner.ownerType,
+            ownerId: owner.ownerId,
+            key: definition.key,
+            error: errors[0] || `Shopify ${metafield.type} value could not be converted`,
+          });
+          continue;
+        }
+        changes.push({ definition, value });
+      }
+
+      await this.setValues(db, owner.ownerId, changes);
+      result.updated += changes.filter(change => change.value !== null).length;
+    }
+
+    return result;
+  }
+}
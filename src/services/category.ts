@@ -0,0 +1,263 @@
+import { db } from '../db/connection';
+import { categories, products } from '../db/schema';
+import { eq, and, ne, asc, sql, SQL } from 'drizzle-orm';
+import { slugify, uniqueSlug } from '../utils/slug';
+import { ValidationError, NotFoundError, ConflictError, isUniqueViolation } from '../utils/errors';
+
+type Category = typeof categories.$inferSelect;
+
+export interface CategoryInput {
+  name?: string;
+  slug?: string;
+  description?: string | null;
+  parentId?: number | null;
+  position?: number;
+}
+
+export interface CategoryNode extends Category {
+  // Products assigned directly to this category
+  productCount: number;
+  children: CategoryNode[];
+}
+
+// IDs of a category and all of its descendants, as a subquery
+export const categorySubtreeIds = (categoryId: number): SQL => sql`(
+  with recursive subtree(id) as (
+    select ${categories.id} from ${categories} where ${categories.id} = ${categoryId}
+    union all
+    select child.id from ${categories} child inner join subtree on child.parent_id = subtree.id
+  )
+  select id from subtree
+)`;
+
+const validateCategoryInput = (data: CategoryInput, partial: boolean) => {
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('Category data must be an object');
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {};
+
+  if (data.name !== undefined || !partial) {
+    if (typeof data.name !== 'string' || data.name.trim() === '') {
+      errors.push('name is required');
+    } else if (data.name.trim().length > 100) {
+      errors.push('name must be at most 100 characters');
+    } else {
+      values.name = data.name.trim();
+    }
+  }
+  if (data.slug !== undefined) {
+    const slug = typeof data.slug === 'string' ? slugify(data.slug, 150) : '';
+    if (!slug) {
+      errors.push('slug must contain letters or digits');
+    } else {
+      values.slug = slug;
+    }
+  }
+  if (data.description !== undefined) {
+    if (data.description !== null && typeof data.description !== 'string') {
+      errors.push('description must be a string');
+    } else {
+      values.description = data.description;
+    }
+  }
+  if (data.parentId !== undefined) {
+    if (data.parentId !== null && !Number.isInteger(data.parentId)) {
+      errors.push('parentId must be a category ID or null');
+    } else {
+      values.parentId = data.parentId;
+    }
+  }
+  if (data.position !== undefined) {
+    if (!Number.isInteger(data.position)) {
+      errors.push('position must be an integer');
+    } else {
+      values.position = data.position;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+  return values;
+};
+
+export class CategoryService {
+  async getAll() {
+    return await db.select()
+      .from(categories)
+      .orderBy(asc(categories.position), asc(categories.name));
+  }
+
+  // The whole tree, siblings ordered by position then name
+  async getTree() {
+    const [rows, counts] = await Promise.all([
+      this.getAll(),
+      db.select({ categoryId: products.categoryId, count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(ne(products.status, 'deleted'))
+        .groupBy(products.categoryId),
+    ]);
+    const productCounts = new Map(counts.map(row => [row.categoryId, row.count]));
+
+    const nodes = new Map<number, CategoryNode>(rows.map(row => [
+      row.id,
+      { ...row, productCount: productCounts.get(row.id) ?? 0, children: [] },
+    ]));
+    const roots: CategoryNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+
+  async getById(categoryId: number) {
+    const [category] = await db.select()
+      .from(categories)
+      .where(eq(categories.id, categoryId));
+
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+    return category;
+  }
+
+  async getBySlug(slug: string) {
+    const [category] = await db.select()
+      .from(categories)
+      .where(eq(categories.slug, slug));
+
+    if (!category) {
+      throw new NotFoundError('Category not found');
+    }
+    return category;
+  }
+
+  // A category with its path from the root and its direct children
+  async getDetails(categoryId: number) {
+    const category = await this.getById(categoryId);
+    const [ancestors, children] = await Promise.all([
+      this.getAncestors(category),
+      db.select()
+        .from(categories)
+        .where(eq(categories.parentId, categoryId))
+        .orderBy(asc(categories.position), asc(categories.name)),
+    ]);
+    return { ...category, path: [...ancestors, category], children };
+  }
+
+  // Ancestors from the root down to the parent
+  private async getAncestors(category: Category) {
+    const ancestors: Category[] = [];
+    let parentId = category.parentId;
+    while (parentId) {
+      const parent = await this.getById(parentId);
+      ancestors.unshift(parent);
+      parentId = parent.parentId;
+    }
+    return ancestors;
+  }
+
+  private async slugTaken(slug: string, excludeId?: number) {
+    const [existing] = await db.select({ id: categories.id })
+      .from(categories)
+      .where(excludeId ? and(eq(categories.slug, slug), ne(categories.id, excludeId)) : eq(categories.slug, slug));
+    return !!existing;
+  }
+
+  // Throws unless the category exists; for assigning products
+  async assertExists(categoryId: number) {
+    const [category] = await db.select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.id, categoryId));
+    if (!category) {
+      throw new ValidationError(`Category ${categoryId} does not exist`);
+    }
+  }
+
+  async create(data: CategoryInput) {
+    const values = validateCategoryInput(data, false);
+
+    if (values.parentId) {
+      await this.assertExists(values.parentId);
+    }
+    if (values.slug && await this.slugTaken(values.slug)) {
+      throw new ConflictError(`A category with slug "${values.slug}" already exists`);
+    }
+
+    try {
+      const [category] = await db.insert(categories).values({
+        name: values.name,
+        slug: values.slug || await uniqueSlug(values.name, slug => this.slugTaken(slug), 150),
+        description: values.description ?? null,
+        parentId: values.parentId ?? null,
+        position: values.position ?? 0,
+      }).returning();
+      return category;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('A category with this slug already exists');
+      }
+      throw error;
+    }
+  }
+
+  async update(categoryId: number, data: CategoryInput) {
+    const values = validateCategoryInput(data, true);
+    const category = await this.getById(categoryId);
+
+    // A category can't move under itself or one of its descendants
+    if (values.parentId) {
+      await this.assertExists(values.parentId);
+      const [cycle] = await db.select({ id: categories.id })
+        .from(categories)
+        .where(and(
+          eq(categories.id, values.parentId),
+          sql`${categories.id} in ${categorySubtreeIds(categoryId)}`
+        ));
+      if (cycle) {
+        throw new ValidationError('A category cannot be moved under itself or one of its subcategories');
+      }
+    }
+    if (values.slug && await this.slugTaken(values.slug, categoryId)) {
+      throw new ConflictError(`A category with slug "${values.slug}" already exists`);
+    }
+
+    try {
+      const [updated] = await db.update(categories)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(categories.id, category.id))
+        .returning();
+      return updated;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('A category with this slug already exists');
+      }
+      throw error;
+    }
+  }
+
+  // Only leaf categories can be deleted; their products become uncategorized
+  async delete(categoryId: number) {
+    const category = await this.getById(categoryId);
+
+    const [child] = await db.select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.parentId, categoryId))
+      .limit(1);
+    if (child) {
+      throw new ConflictError(`Category ${category.name} has subcategories; move or delete them first`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(products)
+        .set({ categoryId: null, updatedAt: new Date() })
+        .where(eq(products.categoryId, categoryId));
+      await tx.delete(categories).where(eq(categories.id, categoryId));
+    });
+
+    return category;
+  }
+}
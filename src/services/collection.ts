@@ -0,0 +1,735 @@
+import { db } from '../db/connection';
+import { collections, collectionProducts, collectionMappings, channelMappings, products, productColumns, productVariants, productTags, syncLogs } from '../db/schema';
+import { ShopService } from './shop';
+import { SHOPIFY_CHANNEL } from '../channels/types';
+import { eq, and, ne, or, not, exists, inArray, asc, sql, SQL } from 'drizzle-orm';
+import { slugify, uniqueSlug } from '../utils/slug';
+import { ValidationError, NotFoundError, ConflictError, isUniqueViolation } from '../utils/errors';
+
+type Collection = typeof collections.$inferSelect;
+
+export const COLLECTION_TYPES = ['manual', 'smart'];
+
+// Smart collection rules, modelled on Shopify's: a product field, a relation and a value
+export type CollectionRuleField = 'name' | 'category' | 'brand' | 'tag' | 'price' | 'weight';
+
+export interface CollectionRule {
+  field: CollectionRuleField;
+  relation: string;
+  value: string;
+}
+
+export interface CollectionInput {
+  title?: string;
+  handle?: string;
+  description?: string | null;
+  type?: string;
+  rules?: CollectionRule[];
+  disjunctive?: boolean;
+  productIds?: number[];
+}
+
+const TEXT_RELATIONS = ['equals', 'not_equals', 'starts_with', 'ends_with', 'contains', 'not_contains'];
+const NUMBER_RELATIONS = ['equals', 'not_equals', 'greater_than', 'less_than'];
+
+// Rule fields, the Shopify smart collection column each one syncs with, and its relations
+const RULE_FIELDS: Record<CollectionRuleField, { shopifyColumn: string; relations: string[] }> = {
+  name: { shopifyColumn: 'title', relations: TEXT_RELATIONS },
+  category: { shopifyColumn: 'type', relations: TEXT_RELATIONS },
+  brand: { shopifyColumn: 'vendor', relations: TEXT_RELATIONS },
+  tag: { shopifyColumn: 'tag', relations: ['equals'] },
+  price: { shopifyColumn: 'variant_price', relations: NUMBER_RELATIONS },
+  weight: { shopifyColumn: 'variant_weight', relations: NUMBER_RELATIONS },
+};
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Text rules compare case-insensitively, as Shopify does
+const textRuleCondition = (column: SQL, relation: string, value: string): SQL => {
+  const field = sql`lower(coalesce(${column}, ''))`;
+  const target = value.toLowerCase();
+  switch (relation) {
+    case 'equals': return sql`${field} = ${target}`;
+    case 'not_equals': return sql`${field} <> ${target}`;
+    case 'starts_with': return sql`${field} like ${`${escapeLike(target)}%`}`;
+    case 'ends_with': return sql`${field} like ${`%${escapeLike(target)}`}`;
+    case 'contains': return sql`${field} like ${`%${escapeLike(target)}%`}`;
+    default: return sql`${field} not like ${`%${escapeLike(target)}%`}`;
+  }
+};
+
+// Variant rules match when any of the product's variants does
+const variantRuleCondition = (column: SQL, relation: string, value: string): SQL => {
+  const operator = { equals: '=', not_equals: '<>', greater_than: '>', less_than: '<' }[relation] || '=';
+  return exists(
+    db.select({ id: productVariants.id })
+      .from(productVariants)
+      .where(and(
+        eq(productVariants.productId, products.id),
+        sql`${column} ${sql.raw(operator)} ${Number(value)}`
+      ))
+  );
+};
+
+const ruleCondition = (rule: CollectionRule): SQL => {
+  switch (rule.field) {
+    case 'name': return textRuleCondition(sql`${products.name}`, rule.relation, rule.value);
+    case 'category': return textRuleCondition(sql`${products.category}`, rule.relation, rule.value);
+    case 'brand': return textRuleCondition(sql`${products.brand}`, rule.relation, rule.value);
+    case 'tag': return exists(
+      db.select({ id: productTags.id })
+        .from(productTags)
+        .where(and(eq(productTags.productId, products.id), sql`lower(${productTags.tag}) = ${rule.value.toLowerCase()}`))
+    );
+    case 'price': return variantRuleCondition(sql`coalesce(${productVariants.price}, ${products.basePrice})`, rule.relation, rule.value);
+    default: return variantRuleCondition(sql`coalesce(${productVariants.weight}, 0)`, rule.relation, rule.value);
+  }
+};
+
+// Condition on products for membership of a collection
+export const collectionMembershipCondition = (collection: Collection): SQL => {
+  if (collection.type === 'smart') {
+    const rules = (collection.rules as CollectionRule[] | null) || [];
+    if (rules.length === 0) {
+      return sql`false`;
+    }
+    const conditions = rules.map(ruleCondition);
+    return (collection.disjunctive ? or(...conditions) : and(...conditions)) as SQL;
+  }
+
+  return exists(
+    db.select({ id: collectionProducts.id })
+      .from(collectionProducts)
+      .where(and(
+        eq(collectionProducts.collectionId, collection.id),
+        eq(collectionProducts.productId, products.id)
+      ))
+  );
+};
+
+// Membership condition for a collection ID; matches nothing when the collection doesn't exist
+export const collectionCondition = async (collectionId: number): Promise<SQL> => {
+  const [collection] = await db.select().from(collections).where(eq(collections.id, collectionId));
+  return collection ? collectionMembershipCondition(collection) : sql`false`;
+};
+
+const validateRules = (errors: string[], rules: any) => {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    errors.push('rules must be a non-empty array for smart collections');
+    return [];
+  }
+
+  return rules.map((rule: any, index: number) => {
+    const field = RULE_FIELDS[rule?.field as CollectionRuleField];
+    if (!field) {
+      errors.push(`rules[${index}].field must be one of: ${Object.keys(RULE_FIELDS).join(', ')}`);
+    } else if (!field.relations.includes(rule.relation)) {
+      errors.push(`rules[${index}].relation must be one of: ${field.relations.join(', ')}`);
+    }
+    const value = typeof rule?.value === 'number' ? rule.value.toString() : rule?.value;
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`rules[${index}].value is required`);
+    } else if (field?.relations === NUMBER_RELATIONS && !Number.isFinite(Number(value))) {
+      errors.push(`rules[${index}].value must be a number`);
+    }
+    return { field: rule?.field, relation: rule?.relation, value: typeof value === 'string' ? value.trim() : value };
+  });
+};
+
+const validateCollectionInput = (data: CollectionInput, existing: Collection | null) => {
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('Collection data must be an object');
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {};
+  const type = existing ? existing.type : (data.type ?? 'manual');
+
+  if (data.title !== undefined || !existing) {
+    if (typeof data.title !== 'string' || data.title.trim() === '') {
+      errors.push('title is required');
+    } else if (data.title.trim().length > 255) {
+      errors.push('title must be at most 255 characters');
+    } else {
+      values.title = data.title.trim();
+    }
+  }
+  if (data.handle !== undefined) {
+    const handle = typeof data.handle === 'string' ? slugify(data.handle, 255) : '';
+    if (!handle) {
+      errors.push('handle must contain letters or digits');
+    } else {
+      values.handle = handle;
+    }
+  }
+  if (data.description !== undefined) {
+    if (data.description !== null && typeof data.description !== 'string') {
+      errors.push('description must be a string');
+    } else {
+      values.description = data.description;
+    }
+  }
+  if (!COLLECTION_TYPES.includes(type)) {
+    errors.push(`type must be one of: ${COLLECTION_TYPES.join(', ')}`);
+  } else if (existing && data.type !== undefined && data.type !== existing.type) {
+    errors.push('type cannot be changed; create a new collection instead');
+  }
+  if (type === 'smart') {
+    if (data.rules !== undefined || !existing) {
+      values.rules = validateRules(errors, data.rules);
+    }
+    if (data.disjunctive !== undefined) {
+      if (typeof data.disjunctive !== 'boolean') {
+        errors.push('disjunctive must be a boolean');
+      } else {
+        values.disjunctive = data.disjunctive;
+      }
+    }
+    if (data.productIds !== undefined) {
+      errors.push('Smart collections take rules, not productIds');
+    }
+  } else {
+    if (data.rules !== undefined || data.disjunctive !== undefined) {
+      errors.push('rules and disjunctive only apply to smart collections');
+    }
+    if (data.productIds !== undefined
+      && (!Array.isArray(data.productIds) || data.productIds.some(id => !Number.isInteger(id)))) {
+      errors.push('productIds must be an array of product IDs');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+  values.type = type;
+  return values;
+};
+
+export class CollectionService {
+  private shopService: ShopService;
+
+  constructor() {
+    this.shopService = new ShopService();
+  }
+
+  async getAll() {
+    const rows = await db.select().from(collections).orderBy(asc(collections.title));
+    return await Promise.all(rows.map(async collection => ({
+      ...collection,
+      productCount: await this.countProducts(collection),
+    })));
+  }
+
+  async getById(collectionId: number) {
+    const [collection] = await db.select()
+      .from(collections)
+      .where(eq(collections.id, collectionId));
+
+    if (!collection) {
+      throw new NotFoundError('Collection not found');
+    }
+    return collection;
+  }
+
+  // A collection with its product count and channel mappings
+  async getDetails(collectionId: number) {
+    const collection = await this.getById(collectionId);
+    const mappings = await db.select({
+      channel: collectionMappings.channel,
+      shopId: collectionMappings.shopId,
+      channelCollectionId: collectionMappings.channelCollectionId,
+      syncStatus: collectionMappings.syncStatus,
+      lastSyncAt: collectionMappings.lastSyncAt,
+    })
+      .from(collectionMappings)
+      .where(eq(collectionMappings.collectionId, collectionId));
+
+    return { ...collection, productCount: await this.countProducts(collection), mappings };
+  }
+
+  private async countProducts(collection: Collection) {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .where(and(ne(products.status, 'deleted'), collectionMembershipCondition(collection)));
+    return count;
+  }
+
+  // Products of a collection; manual ones in their collection order, smart ones by name
+  async getProducts(collectionId: number, limit = 100, offset = 0) {
+    const collection = await this.getById(collectionId);
+    const condition = and(ne(products.status, 'deleted'), collectionMembershipCondition(collection));
+
+    const page = collection.type === 'manual'
+      ? await db.select({ product: productColumns })
+        .from(products)
+        .innerJoin(collectionProducts, and(
+          eq(collectionProducts.productId, products.id),
+          eq(collectionProducts.collectionId, collection.id)
+        ))
+        .where(condition)
+        .orderBy(asc(collectionProducts.position), asc(products.id))
+        .limit(limit)
+        .offset(offset)
+      : await db.select({ product: productColumns })
+        .from(products)
+        .where(condition)
+        .orderBy(asc(products.name), asc(products.id))
+        .limit(limit)
+        .offset(offset);
+
+    const total = await this.countProducts(collection);
+    return {
+      products: page.map(row => row.product),
+      pagination: { total, limit, offset, hasNextPage: offset + limit < total },
+    };
+  }
+
+  private async handleTaken(handle: string, excludeId?: number) {
+    const [existing] = await db.select({ id: collections.id })
+      .from(collections)
+      .where(excludeId ? and(eq(collections.handle, handle), ne(collections.id, excludeId)) : eq(collections.handle, handle));
+    return !!existing;
+  }
+
+  private async assertProductsExist(productIds: number[]) {
+    if (productIds.length === 0) {
+      return;
+    }
+    const found = await db.select({ id: products.id })
+      .from(products)
+      .where(inArray(products.id, productIds));
+    const missing = productIds.filter(id => !found.some(product => product.id === id));
+    if (missing.length > 0) {
+      throw new ValidationError(`Products not found: ${missing.join(', ')}`);
+    }
+  }
+
+  async create(data: CollectionInput) {
+    const values = validateCollectionInput(data, null);
+    if (values.handle && await this.handleTaken(values.handle)) {
+      throw new ConflictError(`A collection with handle "${values.handle}" already exists`);
+    }
+    const productIds = Array.from(new Set(data.productIds || []));
+    await this.assertProductsExist(productIds);
+
+    try {
+      return await db.transaction(async (tx) => {
+        const [collection] = await tx.insert(collections).values({
+          title: values.title,
+          handle: values.handle || await uniqueSlug(values.title, handle => this.handleTaken(handle), 255),
+          description: values.description ?? null,
+          type: values.type,
+          rules: values.type === 'smart' ? values.rules : null,
+          disjunctive: values.disjunctive ?? false,
+        }).returning();
+
+        if (productIds.length > 0) {
+          await tx.insert(collectionProducts).values(productIds.map((productId, index) => ({
+            collectionId: collection.id,
+            productId,
+            position: index + 1,
+          })));
+        }
+        return collection;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('A collection with this handle already exists');
+      }
+      throw error;
+    }
+  }
+
+  // Update fields; for manual collections, productIds replaces the membership in the given order
+  async update(collectionId: number, data: CollectionInput) {
+    const existing = await this.getById(collectionId);
+    const { type, ...values } = validateCollectionInput(data, existing);
+    if (values.handle && await this.handleTaken(values.handle, collectionId)) {
+      throw new ConflictError(`A collection with handle "${values.handle}" already exists`);
+    }
+    const productIds = data.productIds ? Array.from(new Set(data.productIds)) : null;
+    if (productIds) {
+      await this.assertProductsExist(productIds);
+    }
+
+    try {
+      return await db.transaction(async (tx) => {
+        const [collection] = await tx.update(collections)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(collections.id, collectionId))
+          .returning();
+
+        if (productIds) {
+          await tx.delete(collectionProducts).where(eq(collectionProducts.collectionId, collectionId));
+          if (productIds.length > 0) {
+            await tx.insert(collectionProducts).values(productIds.map((productId, index) => ({
+              collectionId,
+              productId,
+              position: index + 1,
+            })));
+          }
+        }
+        return collection;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('A collection with this handle already exists');
+      }
+      throw error;
+    }
+  }
+
+  // Delete locally; the channel's copies are left in place
+  async delete(collectionId: number) {
+    const collection = await this.getById(collectionId);
+    await db.transaction(async (tx) => {
+      await tx.delete(collectionProducts).where(eq(collectionProducts.collectionId, collectionId));
+      await tx.delete(collectionMappings).where(eq(collectionMappings.collectionId, collectionId));
+      await tx.delete(collections).where(eq(collections.id, collectionId));
+    });
+    return collection;
+  }
+
+  private async getManualCollection(collectionId: number) {
+    const collection = await this.getById(collectionId);
+    if (collection.type !== 'manual') {
+      throw new ValidationError('Products of a smart collection follow its rules and cannot be added or removed');
+    }
+    return collection;
+  }
+
+  // Append products to a manual collection; ones already in it keep their place
+  async addProducts(collectionId: number, productIds: number[]) {
+    await this.getManualCollection(collectionId);
+    if (!Array.isArray(productIds) || productIds.length === 0 || productIds.some(id => !Number.isInteger(id))) {
+      throw new ValidationError('productIds must be a non-empty array of product IDs');
+    }
+    await this.assertProductsExist(productIds);
+
+    const [{ maxPosition }] = await db.select({ maxPosition: sql<number>`coalesce(max(${collectionProducts.position}), 0)::int` })
+      .from(collectionProducts)
+      .where(eq(collectionProducts.collectionId, collectionId));
+
+    const added = await db.insert(collectionProducts)
+      .values(Array.from(new Set(productIds)).map((productId, index) => ({
+        collectionId,
+        productId,
+        position: maxPosition + index + 1,
+      })))
+      .onConflictDoNothing()
+      .returning({ productId: collectionProducts.productId });
+
+    return { added: added.map(row => row.productId) };
+  }
+
+  async removeProduct(collectionId: number, productId: number) {
+    await this.getManualCollection(collectionId);
+    const removed = await db.delete(collectionProducts)
+      .where(and(eq(collectionProducts.collectionId, collectionId), eq(collectionProducts.productId, productId)))
+      .returning({ id: collectionProducts.id });
+    if (removed.length === 0) {
+      throw new NotFoundError('Product is not in this collection');
+    }
+  }
+
+  // Our rules as Shopify smart collection rules
+  private toShopifyRules(rules: CollectionRule[]) {
+    return rules.map(rule => ({
+      column: RULE_FIELDS[rule.field].shopifyColumn,
+      relation: rule.relation,
+      condition: rule.value,
+    }));
+  }
+
+  // Shopify rules as ours; null when a rule uses a column we can't evaluate (inventory, ...)
+  private fromShopifyRules(rules: any[]): CollectionRule[] | null {
+    const converted: CollectionRule[] = [];
+    for (const rule of rules || []) {
+      const field = (Object.keys(RULE_FIELDS) as CollectionRuleField[])
+        .find(candidate => RULE_FIELDS[candidate].shopifyColumn === rule.column);
+      if (!field || !RULE_FIELDS[field].relations.includes(rule.relation)) {
+        return null;
+      }
+      converted.push({ field, relation: rule.relation, value: String(rule.condition) });
+    }
+    return converted;
+  }
+
+  // Catalog product IDs for a shop's Shopify product IDs
+  private async productIdsForShopifyProducts(shopId: number, shopifyProductIds: string[]) {
+    if (shopifyProductIds.length === 0) {
+      return new Map<string, number>();
+    }
+    const rows = await db.selectDistinct({
+      productId: channelMappings.productId,
+      channelProductId: channelMappings.channelProductId,
+    })
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId),
+        inArray(channelMappings.channelProductId, shopifyProductIds)
+      ));
+    return new Map(rows.map(row => [row.channelProductId as string, row.productId as number]));
+  }
+
+  // Import a shop's custom and smart collections, updating ones imported before. Custom
+  // collections keep Shopify's membership (for products we have); smart collections keep
+  // their rules, or become manual snapshots when a rule can't be evaluated here.
+  async importFromShopify(shopIdentifier?: string | number) {
+    const shop = await this.shopService.resolve(shopIdentifier);
+    const shopify = this.shopService.getShopifyService(shop);
+
+    const [customCollections, smartCollections] = await Promise.all([
+      shopify.getCustomCollections(),
+      shopify.getSmartCollections(),
+    ]);
+
+    let imported = 0;
+    let updated = 0;
+    const snapshots: string[] = [];
+    const failed: { id: number; title: string; error: string }[] = [];
+
+    const shopifyCollections = [
+      ...customCollections.map(collection => ({ collection: collection as any, smart: false })),
+      ...smartCollections.map(collection => ({ collection: collection as any, smart: true })),
+    ];
+
+    for (const { collection: shopifyCollection, smart } of shopifyCollections) {
+      try {
+        const rules = smart ? this.fromShopifyRules(shopifyCollection.rules) : null;
+        if (smart && !rules) {
+          snapshots.push(shopifyCollection.title);
+        }
+        const type = rules ? 'smart' : 'manual';
+
+        // Manual membership: the collection's products that are listed in our catalog
+        let productIds: number[] = [];
+        if (type === 'manual') {
+          const shopifyProductIds = smart
+            ? await shopify.getCollectionProductIds(shopifyCollection.id.toString())
+            : (await shopify.getCollects(shopifyCollection.id.toString()))
+              .sort((a, b) => a.position - b.position)
+              .map(collect => collect.product_id.toString());
+          const catalogIds = await this.productIdsForShopifyProducts(shop.id, shopifyProductIds);
+          productIds = Array.from(new Set(shopifyProductIds
+            .map(id => catalogIds.get(id))
+            .filter((id): id is number => id !== undefined)));
+        }
+
+        const { created } = await this.upsertFromShopify(shop.id, shopifyCollection, type, rules, productIds);
+        created ? imported++ : updated++;
+      } catch (error) {
+        failed.push({ id: shopifyCollection.id, title: shopifyCollection.title, error: (error as Error).message });
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: SHOPIFY_CHANNEL,
+      shopId: shop.id,
+      operation: 'collection_import',
+      status: failed.length > 0 ? 'partial' : 'success',
+      message: `Collection import from ${shop.domain}: ${imported} imported, ${updated} updated, ${failed.length} failed`,
+      details: { imported, updated, snapshots, failed },
+    });
+
+    return { success: failed.length === 0, imported, updated, failed, snapshots };
+  }
+
+  private async upsertFromShopify(
+    shopId: number,
+    shopifyCollection: any,
+    type: string,
+    rules: CollectionRule[] | null,
+    productIds: number[]
+  ) {
+    const channelCollectionId = shopifyCollection.id.toString();
+    const [mapping] = await db.select()
+      .from(collectionMappings)
+      .where(and(
+        eq(collectionMappings.channel, SHOPIFY_CHANNEL),
+        eq(collectionMappings.shopId, shopId),
+        eq(collectionMappings.channelCollectionId, channelCollectionId)
+      ));
+
+    // Not imported from this shop yet: link to a collection with the same handle, or create one
+    let existing: Collection | undefined;
+    if (mapping) {
+      existing = await this.getById(mapping.collectionId);
+    } else {
+      [existing] = await db.select().from(collections).where(eq(collections.handle, shopifyCollection.handle));
+    }
+
+    return await db.transaction(async (tx) => {
+      const values = {
+        title: shopifyCollection.title,
+        description: shopifyCollection.body_html || null,
+        type,
+        rules,
+        disjunctive: shopifyCollection.disjunctive === true,
+      };
+
+      let collection: Collection;
+      if (existing) {
+        [collection] = await tx.update(collections)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(collections.id, existing.id))
+          .returning();
+      } else {
+        [collection] = await tx.insert(collections).values({
+          ...values,
+          handle: shopifyCollection.handle || await uniqueSlug(shopifyCollection.title, handle => this.handleTaken(handle), 255),
+        }).returning();
+      }
+
+      await tx.delete(collectionProducts).where(eq(collectionProducts.collectionId, collection.id));
+      if (type === 'manual' && productIds.length > 0) {
+        await tx.insert(collectionProducts).values(productIds.map((productId, index) => ({
+          collectionId: collection.id,
+          productId,
+          position: index + 1,
+        })));
+      }
+
+      if (mapping) {
+        await tx.update(collectionMappings)
+          .set({ channelData: shopifyCollection, syncStatus: 'synced', lastSyncAt: new Date(), updatedAt: new Date() })
+          .where(eq(collectionMappings.id, mapping.id));
+      } else {
+        await tx.insert(collectionMappings).values({
+          collectionId: collection.id,
+          channel: SHOPIFY_CHANNEL,
+          shopId,
+          channelCollectionId,
+          channelData: shopifyCollection,
+          syncStatus: 'synced',
+          lastSyncAt: new Date(),
+        });
+      }
+
+      return { collection, created: !existing };
+    });
+  }
+
+  // Create or update the collection in a shop. Manual collections get their products that are
+  // listed in that shop; the others are reported as skipped.
+  async pushToShopify(collectionId: number, shopIdentifier?: string | number) {
+    const collection = await this.getById(collectionId);
+    const shop = await this.shopService.resolve(shopIdentifier);
+    const shopify = this.shopService.getShopifyService(shop);
+
+    const [mapping] = await db.select()
+      .from(collectionMappings)
+      .where(and(
+        eq(collectionMappings.collectionId, collectionId),
+        eq(collectionMappings.channel, SHOPIFY_CHANNEL),
+        eq(collectionMappings.shopId, shop.id)
+      ));
+
+    try {
+      const base = { title: collection.title, body_html: collection.description };
+      let shopifyCollection: any;
+      if (collection.type === 'smart') {
+        const smart = {
+          ...base,
+          rules: this.toShopifyRules((collection.rules as CollectionRule[]) || []),
+          disjunctive: collection.disjunctive,
+        };
+        shopifyCollection = mapping
+          ? await shopify.updateSmartCollection(mapping.channelCollectionId, smart)
+          : await shopify.createSmartCollection({ ...smart, handle: collection.handle });
+      } else {
+        shopifyCollection = mapping
+          ? await shopify.updateCustomCollection(mapping.channelCollectionId, base)
+          : await shopify.createCustomCollection({ ...base, handle: collection.handle });
+      }
+      const channelCollectionId = shopifyCollection.id.toString();
+
+      const membership = collection.type === 'manual'
+        ? await this.pushMembership(collection.id, shop.id, channelCollectionId, shopify, !mapping)
+        : null;
+
+      if (mapping) {
+        await db.update(collectionMappings)
+          .set({ channelData: shopifyCollection, syncStatus: 'synced', lastSyncAt: new Date(), updatedAt: new Date() })
+          .where(eq(collectionMappings.id, mapping.id));
+      } else {
+        await db.insert(collectionMappings).values({
+          collectionId,
+          channel: SHOPIFY_CHANNEL,
+          shopId: shop.id,
+          channelCollectionId,
+          channelData: shopifyCollection,
+          syncStatus: 'synced',
+          lastSyncAt: new Date(),
+        });
+      }
+
+      await db.insert(syncLogs).values({
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
+        operation: mapping ? 'collection_update' : 'collection_export',
+        status: 'success',
+        message: `${mapping ? 'Updated' : 'Created'} collection ${collection.title} in ${shop.domain}`,
+        details: { shopifyCollectionId: channelCollectionId, membership },
+      });
+
+      return { created: !mapping, shopifyCollectionId: channelCollectionId, membership };
+    } catch (error) {
+      if (mapping) {
+        await db.update(collectionMappings)
+          .set({ syncStatus: 'failed', updatedAt: new Date() })
+          .where(eq(collectionMappings.id, mapping.id));
+      }
+      await db.insert(syncLogs).values({
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
+        operation: mapping ? 'collection_update' : 'collection_export',
+        status: 'failed',
+        message: `Failed to push collection ${collection.title}: ${(error as Error).message}`,
+        details: { collectionId, error: (error as Error).message },
+      });
+      throw error;
+    }
+  }
+
+  // Make a custom collection's collects match our membership
+  private async pushMembership(
+    collectionId: number,
+    shopId: number,
+    channelCollectionId: string,
+    shopify: ReturnType<ShopService['getShopifyService']>,
+    isNew: boolean
+  ) {
+    const members = await db.select({ productId: collectionProducts.productId, channelProductId: channelMappings.channelProductId })
+      .from(collectionProducts)
+      .leftJoin(channelMappings, and(
+        eq(channelMappings.productId, collectionProducts.productId),
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId)
+      ))
+      .where(eq(collectionProducts.collectionId, collectionId))
+      .orderBy(asc(collectionProducts.position));
+
+    const wanted = Array.from(new Set(members.map(member => member.channelProductId).filter((id): id is string => !!id)));
+    const skipped = Array.from(new Set(members.filter(member => !member.channelProductId).map(member => member.productId)));
+    const collects = isNew ? [] : await shopify.getCollects(channelCollectionId);
+
+    let added = 0;
+    let removed = 0;
+    for (const productId of wanted) {
+      if (!collects.some(collect => collect.product_id.toString() === productId)) {
+        await shopify.createCollect(channelCollectionId, productId);
+        added++;
+      }
+    }
+    for (const collect of collects) {
+      if (!wanted.includes(collect.product_id.toString())) {
+        await shopify.deleteCollect(collect.id.toString());
+        removed++;
+      }
+    }
+
+    return { added, removed, skippedProductIds: skipped };
+  }
+}
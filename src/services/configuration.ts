@@ -0,0 +1,32 @@
+import { db } from '../db/connection';
+import { configurations } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Key/value settings and sync state stored in the configurations table
+export class ConfigurationService {
+  async get<T = any>(key: string): Promise<T | null> {
+    const [row] = await db.select()
+      .from(configurations)
+      .where(eq(configurations.key, key));
+    return (row?.value as T) ?? null;
+  }
+
+  async set(key: string, value: any, description?: string) {
+    const [row] = await db.insert(configurations)
+      .values({ key, value, description, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: configurations.key,
+        set: {
+          value,
+          ...(description !== undefined && { description }),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async delete(key: string) {
+    await db.delete(configurations).where(eq(configurations.key, key));
+  }
+}
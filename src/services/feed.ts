@@ -0,0 +1,656 @@
+import fs from 'fs';
+import path from 'path';
+import { Writable } from 'stream';
+import { db } from '../db/connection';
+import { products, productColumns, productVariants, inventory, syncLogs } from '../db/schema';
+import { ConfigurationService } from './configuration';
+import { ProductOptionService, VariantOptionValue } from './productOption';
+import { ProductFilters, productFilterConditions, variantFilterConditions, PRODUCT_STATUSES } from './product';
+import { INTERNAL_CHANNEL } from '../channels/types';
+import { escapeCsvValue } from '../utils/spreadsheet';
+import { eq, and, gt, inArray, asc, sql, SQL } from 'drizzle-orm';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+// Product feeds for shopping/ads platforms. Each feed channel renders the active catalog in its
+// own formats; files are generated into FEED_CACHE_DIR and served from there.
+
+export const GOOGLE_FEED = 'google';
+export const META_FEED = 'meta';
+
+export type FeedFormat = 'xml' | 'tsv' | 'csv';
+
+export interface FeedConfig {
+  enabled: boolean;
+  title: string;
+  // Storefront home page, used as the feed's link
+  siteUrl: string;
+  // Product page URL; {productSku}, {sku}, {productId} and {variantId} are substituted
+  productUrlTemplate: string;
+  currency: string;
+  condition: 'new' | 'refurbished' | 'used';
+  includeOutOfStock: boolean;
+  weightUnit: 'kg' | 'g' | 'lb' | 'oz';
+  // Our category -> platform taxonomy category (e.g. Google product category ID)
+  categoryMapping: Record<string, string>;
+  // Same filters as the product listing; status defaults to active
+  filters: ProductFilters;
+}
+
+// One line of a feed: a variant with its product's details
+export interface FeedItem {
+  id: string;
+  itemGroupId: string;
+  productId: number;
+  variantId: number;
+  title: string;
+  description: string;
+  link: string;
+  imageLink: string | null;
+  additionalImageLinks: string[];
+  price: string;
+  availability: 'in_stock' | 'out_of_stock';
+  quantity: number;
+  brand: string | null;
+  gtin: string | null;
+  mpn: string;
+  condition: string;
+  size: string | null;
+  color: string | null;
+  productType: string | null;
+  platformCategory: string | null;
+  shippingWeight: string | null;
+}
+
+interface FeedRenderer {
+  contentType: string;
+  header(config: FeedConfig): string;
+  item(item: FeedItem, config: FeedConfig): string;
+  footer(config: FeedConfig): string;
+}
+
+const BATCH_SIZE = 500;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const feedConfigKey = (channel: string) => `feed_config:${channel}`;
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;')
+  // Characters XML 1.0 does not allow
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Tabs and newlines would break the row
+const escapeTsv = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+
+const stripHtml = (value: string) => value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const xmlElement = (name: string, value: string | null | undefined) =>
+  value ? `      <${name}>${escapeXml(value)}</${name}>\n` : '';
+
+const GOOGLE_TSV_COLUMNS: [string, (item: FeedItem) => string | null][] = [
+  ['id', item => item.id],
+  ['item_group_id', item => item.itemGroupId],
+  ['title', item => item.title],
+  ['description', item => item.description],
+  ['link', item => item.link],
+  ['image_link', item => item.imageLink],
+  ['additional_image_link', item => item.additionalImageLinks.join(',')],
+  ['price', item => item.price],
+  ['availability', item => item.availability],
+  ['brand', item => item.brand],
+  ['gtin', item => item.gtin],
+  ['mpn', item => item.mpn],
+  ['identifier_exists', item => (item.gtin || item.brand ? 'yes' : 'no')],
+  ['condition', item => item.condition],
+  ['size', item => item.size],
+  ['color', item => item.color],
+  ['product_type', item => item.productType],
+  ['google_product_category', item => item.platformCategory],
+  ['shipping_weight', item => item.shippingWeight],
+];
+
+// Google Merchant Center: RSS 2.0 with the g: namespace, or tab-separated with a header row
+const googleRenderers: Record<'xml' | 'tsv', FeedRenderer> = {
+  xml: {
+    contentType: 'application/xml; charset=utf-8',
+    header: config => '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n'
+      + '  <channel>\n'
+      + `    <title>${escapeXml(config.title)}</title>\n`
+      + `    <link>${escapeXml(config.siteUrl)}</link>\n`
+      + `    <description>${escapeXml(config.title)}</description>\n`,
+    item: item => '    <item>\n'
+      + xmlElement('g:id', item.id)
+      + xmlElement('g:item_group_id', item.itemGroupId)
+      + xmlElement('g:title', item.title)
+      + xmlElement('g:description', item.description)
+      + xmlElement('g:link', item.link)
+      + xmlElement('g:image_link', item.imageLink)
+      + item.additionalImageLinks.map(link => xmlElement('g:additional_image_link', link)).join('')
+      + xmlElement('g:price', item.price)
+      + xmlElement('g:availability', item.availability)
+      + xmlElement('g:brand', item.brand)
+      + xmlElement('g:gtin', item.gtin)
+      + xmlElement('g:mpn', item.mpn)
+      + xmlElement('g:identifier_exists', item.gtin || item.brand ? 'yes' : 'no')
+      + xmlElement('g:condition', item.condition)
+      + xmlElement('g:size', item.size)
+      + xmlElement('g:color', item.color)
+      + xmlElement('g:product_type', item.productType)
+      + xmlElement('g:google_product_category', item.platformCategory)
+      + xmlElement('g:shipping_weight', item.shippingWeight)
+      + '    </item>\n',
+    footer: () => '  </channel>\n</rss>\n',
+  },
+  tsv: {
+    contentType: 'text/tab-separated-values; charset=utf-8',
+    header: () => GOOGLE_TSV_COLUMNS.map(([column]) => column).join('\t') + '\n',
+    item: item => GOOGLE_TSV_COLUMNS.map(([, value]) => escapeTsv(value(item) || '')).join('\t') + '\n',
+    footer: () => '',
+  },
+};
+
+// Meta spells availability with a space
+const metaAvailability = (item: FeedItem) => (item.availability === 'in_stock' ? 'in stock' : 'out of stock');
+
+const META_COLUMNS: [string, (item: FeedItem) => string | null][] = [
+  ['id', item => item.id],
+  ['item_group_id', item => item.itemGroupId],
+  ['title', item => item.title],
+  ['description', item => item.description],
+  ['availability', metaAvailability],
+  ['quantity_to_sell_on_facebook', item => item.quantity.toString()],
+  ['condition', item => item.condition],
+  ['price', item => item.price],
+  ['link', item => item.link],
+  ['image_link', item => item.imageLink],
+  ['additional_image_link', item => item.additionalImageLinks.join(',')],
+  ['brand', item => item.brand],
+  ['gtin', item => item.gtin],
+  ['mpn', item => item.mpn],
+  ['google_product_category', item => item.platformCategory],
+  ['product_type', item => item.productType],
+  ['size', item => item.size],
+  ['color', item => item.color],
+  ['shipping_weight', item => item.shippingWeight],
+];
+
+// Meta (Facebook/Instagram) catalog: CSV with a header row, or RSS 2.0 XML with the g: namespace
+const metaRenderers: Partial<Record<FeedFormat, FeedRenderer>> = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    header: () => META_COLUMNS.map(([column]) => column).join(',') + '\n',
+    item: item => META_COLUMNS.map(([, value]) => escapeCsvValue(value(item) || '')).join(',') + '\n',
+    footer: () => '',
+  },
+  xml: {
+    contentType: 'application/xml; charset=utf-8',
+    header: googleRenderers.xml.header,
+    item: item => '    <item>\n'
+      + META_COLUMNS
+        .filter(([column]) => column !== 'additional_image_link')
+        .map(([column, value]) => xmlElement(`g:${column}`, value(item)))
+        .join('')
+      + item.additionalImageLinks.map(link => xmlElement('g:additional_image_link', link)).join('')
+      + '    </item>\n',
+    footer: googleRenderers.xml.footer,
+  },
+};
+
+// Feed channels and the formats each one can render
+const FEED_CHANNELS: Record<string, { label: string; renderers: Partial<Record<FeedFormat, FeedRenderer>> }> = {
+  [GOOGLE_FEED]: { label: 'Google Merchant Center', renderers: googleRenderers },
+  [META_FEED]: { label: 'Meta catalog', renderers: metaRenderers },
+};
+
+// Generations in progress, so concurrent requests for a stale feed share one run
+const inFlight = new Map<string, Promise<FeedFileInfo>>();
+
+export interface FeedFileInfo {
+  channel: string;
+  format: FeedFormat;
+  path: string;
+  contentType: string;
+  generatedAt: Date;
+  size: number;
+}
+
+const defaultConfig = (channel: string): FeedConfig => ({
+  enabled: true,
+  title: `${FEED_CHANNELS[channel]?.label || channel} product feed`,
+  siteUrl: process.env.FEED_SITE_URL || 'https://example.com',
+  productUrlTemplate: process.env.FEED_PRODUCT_URL_TEMPLATE
+    || `${process.env.FEED_SITE_URL || 'https://example.com'}/products/{productSku}?variant={sku}`,
+  currency: process.env.FEED_CURRENCY || 'USD',
+  condition: 'new',
+  includeOutOfStock: true,
+  weightUnit: 'kg',
+  categoryMapping: {},
+  filters: {},
+});
+
+const FILTER_FIELDS = ['search', 'category', 'categoryId', 'collectionId', 'brand', 'status', 'minPrice', 'maxPrice', 'options', 'color', 'size', 'tags', 'attributes'];
+
+const validateFilters = (filters: ProductFilters) => {
+  const errors: string[] = [];
+
+  for (const field of Object.keys(filters)) {
+    if (!FILTER_FIELDS.includes(field)) {
+      errors.push(`${field} is not a product filter`);
+    }
+  }
+  for (const field of ['search', 'category', 'brand', 'color', 'size'] as const) {
+    if (filters[field] !== undefined && typeof filters[field] !== 'string') {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (filters.options !== undefined && (
+    !filters.options || typeof filters.options !== 'object' || Array.isArray(filters.options)
+    || Object.values(filters.options).some(value => typeof value !== 'string')
+  )) {
+    errors.push('options must map option names to values');
+  }
+  if (filters.attributes !== undefined && (
+    !filters.attributes || typeof filters.attributes !== 'object' || Array.isArray(filters.attributes)
+    || Object.values(filters.attributes).some(value => typeof value !== 'string')
+  )) {
+    errors.push('attributes must map attribute keys to values');
+  }
+  if (filters.tags !== undefined && (!Array.isArray(filters.tags) || filters.tags.some(tag => typeof tag !== 'string'))) {
+    errors.push('tags must be an array of strings');
+  }
+  if (filters.status !== undefined && !PRODUCT_STATUSES.includes(filters.status)) {
+    errors.push(`status must be one of: ${PRODUCT_STATUSES.join(', ')}`);
+  }
+  for (const field of ['categoryId', 'collectionId'] as const) {
+    if (filters[field] !== undefined && !Number.isInteger(filters[field])) {
+      errors.push(`${field} must be an integer`);
+    }
+  }
+  for (const field of ['minPrice', 'maxPrice'] as const) {
+    const value = filters[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      errors.push(`${field} must be a non-negative number`);
+    }
+  }
+
+  return errors;
+};
+
+const validateConfig = (config: FeedConfig) => {
+  const errors: string[] = [];
+
+  if (typeof config.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  if (typeof config.title !== 'string' || !config.title.trim()) {
+    errors.push('title is required');
+  }
+  for (const field of ['siteUrl', 'productUrlTemplate'] as const) {
+    if (typeof config[field] !== 'string' || !/^https?:\/\//.test(config[field])) {
+      errors.push(`${field} must be an http(s) URL`);
+    }
+  }
+  if (typeof config.currency !== 'string' || !/^[A-Z]{3}$/.test(config.currency)) {
+    errors.push('currency must be an ISO 4217 code (e.g. USD)');
+  }
+  if (!['new', 'refurbished', 'used'].includes(config.condition)) {
+    errors.push('condition must be one of new, refurbished, used');
+  }
+  if (typeof config.includeOutOfStock !== 'boolean') {
+    errors.push('includeOutOfStock must be a boolean');
+  }
+  if (!['kg', 'g', 'lb', 'oz'].includes(config.weightUnit)) {
+    errors.push('weightUnit must be one of kg, g, lb, oz');
+  }
+  if (!config.categoryMapping || typeof config.categoryMapping !== 'object' || Array.isArray(config.categoryMapping)) {
+    errors.push('categoryMapping must be an object of category -> platform category');
+  }
+  if (!config.filters || typeof config.filters !== 'object' || Array.isArray(config.filters)) {
+    errors.push('filters must be an object');
+  } else {
+    errors.push(...validateFilters(config.filters).map(error => `filters.${error}`));
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+};
+
+// Option values a feed has its own attributes for
+const optionValue = (options: VariantOptionValue[], pattern: RegExp) =>
+  options.find(option => pattern.test(option.name))?.value ?? null;
+
+export class FeedService {
+  private configurationService: ConfigurationService;
+  private productOptionService: ProductOptionService;
+
+  constructor() {
+    this.configurationService = new ConfigurationService();
+    this.productOptionService = new ProductOptionService();
+  }
+
+  getCacheDir() {
+    return path.resolve(process.env.FEED_CACHE_DIR || path.join(process.cwd(), 'feeds'));
+  }
+
+  listChannels() {
+    return Object.entries(FEED_CHANNELS).map(([name, channel]) => ({
+      name,
+      label: channel.label,
+      formats: Object.keys(channel.renderers) as FeedFormat[],
+    }));
+  }
+
+  private getRenderer(channel: string, format: string) {
+    const feedChannel = FEED_CHANNELS[channel];
+    if (!feedChannel) {
+      throw new NotFoundError(`Unknown feed channel: ${channel}. Available feeds: ${Object.keys(FEED_CHANNELS).join(', ')}`);
+    }
+
+    const renderer = feedChannel.renderers[format as FeedFormat];
+    if (!renderer) {
+      throw new NotFoundError(`The ${channel} feed is not available as ${format}. Available formats: ${Object.keys(feedChannel.renderers).join(', ')}`);
+    }
+    return renderer;
+  }
+
+  getContentType(channel: string, format: FeedFormat) {
+    return this.getRenderer(channel, format).contentType;
+  }
+
+  async getConfig(channel: string): Promise<FeedConfig> {
+    if (!FEED_CHANNELS[channel]) {
+      throw new NotFoundError(`Unknown feed channel: ${channel}`);
+    }
+
+    const stored = await this.configurationService.get<Partial<FeedConfig>>(feedConfigKey(channel));
+    return { ...defaultConfig(channel), ...(stored || {}) };
+  }
+
+  // Merge a partial update into the stored config for a feed channel
+  async updateConfig(channel: string, changes: Partial<FeedConfig>) {
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw new ValidationError('Feed config must be an object');
+    }
+
+    const current = await this.getConfig(channel);
+    const known = Object.keys(defaultConfig(channel));
+    const unknown = Object.keys(changes).filter(key => !known.includes(key));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown feed config fields: ${unknown.join(', ')}`);
+    }
+
+    const config = { ...current, ...changes };
+    validateConfig(config);
+
+    await this.configurationService.set(feedConfigKey(channel), config, `${FEED_CHANNELS[channel].label} feed settings`);
+    return config;
+  }
+
+  // Feed rows for the active catalog, a batch of products at a time
+  async *getItems(config: FeedConfig): AsyncGenerator<FeedItem[]> {
+    const filters: ProductFilters = { status: 'active', ...config.filters };
+    const filterConditions = await productFilterConditions(filters);
+    let lastId = 0;
+
+    while (true) {
+      const conditions: SQL[] = [gt(products.id, lastId), ...filterConditions];
+
+      const batch = await db.select(productColumns)
+        .from(products)
+        .where(and(...conditions))
+        .orderBy(asc(products.id))
+        .limit(BATCH_SIZE);
+
+      if (batch.length === 0) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+
+      const variantConditions: SQL[] = [
+        inArray(productVariants.productId, batch.map(product => product.id)),
+        ...variantFilterConditions(filters),
+      ];
+
+      const variants = await db.select()
+        .from(productVariants)
+        .where(and(...variantConditions))
+        .orderBy(asc(productVariants.id));
+
+      const stock = variants.length === 0 ? [] : await db.select({
+        variantId: inventory.variantId,
+        available: sql<number>`coalesce(sum(${inventory.available}), 0)::int`,
+      })
+        .from(inventory)
+        .where(and(
+          eq(inventory.channel, INTERNAL_CHANNEL),
+          inArray(inventory.variantId, variants.map(variant => variant.id))
+        ))
+        .groupBy(inventory.variantId);
+      const available = new Map(stock.map(row => [row.variantId as number, Math.max(0, Number(row.available))]));
+      const optionsByVariant = await this.productOptionService.getVariantOptions(variants.map(variant => variant.id));
+
+      const items: FeedItem[] = [];
+      for (const product of batch) {
+        const productVariantRows = variants.filter(variant => variant.productId === product.id);
+        for (const variant of productVariantRows) {
+          const item = this.toFeedItem(
+            product,
+            variant,
+            optionsByVariant.get(variant.id) || [],
+            productVariantRows.length,
+            available.get(variant.id) ?? 0,
+            config
+          );
+          if (item.availability === 'in_stock' || config.includeOutOfStock) {
+            items.push(item);
+          }
+        }
+      }
+
+      yield items;
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private toFeedItem(
+    product: Omit<typeof products.$inferSelect, 'searchVector'>,
+    variant: typeof productVariants.$inferSelect,
+    options: VariantOptionValue[],
+    variantCount: number,
+    quantity: number,
+    config: FeedConfig
+  ): FeedItem {
+    const images = Array.isArray(variant.images) ? (variant.images as string[]).filter(Boolean) : [];
+    const price = parseFloat(variant.price?.toString() || product.basePrice?.toString() || '0');
+    const weight = parseFloat(variant.weight?.toString() || '0');
+
+    const link = config.productUrlTemplate
+      .replace(/{productSku}/g, encodeURIComponent(product.sku))
+      .replace(/{sku}/g, encodeURIComponent(variant.sku))
+      .replace(/{productId}/g, product.id.toString())
+      .replace(/{variantId}/g, variant.id.toString());
+
+    // Variant names only distinguish siblings, so single-variant products use the product name
+    const title = variantCount > 1 && variant.name && variant.name !== product.name
+      ? `${product.name} - ${variant.name}`
+      : product.name;
+
+    return {
+      id: variant.sku,
+      itemGroupId: product.sku,
+      productId: product.id,
+      variantId: variant.id,
+      title: title.slice(0, 150),
+      description: stripHtml(product.description || product.name).slice(0, 5000),
+      link,
+      imageLink: images[0] || null,
+      additionalImageLinks: images.slice(1, 11),
+      price: `${price.toFixed(2)} ${config.currency}`,
+      availability: quantity > 0 ? 'in_stock' : 'out_of_stock',
+      quantity,
+      brand: product.brand && product.brand !== 'Unknown' ? product.brand : null,
+      gtin: variant.gtin || null,
+      mpn: variant.sku,
+      condition: config.condition,
+      size: optionValue(options, /^sizes?$/i),
+      color: optionValue(options, /^colou?rs?$/i),
+      productType: product.category || null,
+      platformCategory: (product.category && config.categoryMapping[product.category]) || null,
+      shippingWeight: weight > 0 ? `${weight} ${config.weightUnit}` : null,
+    };
+  }
+
+  private filePath(channel: string, format: FeedFormat) {
+    return path.join(this.getCacheDir(), `${channel}.${format}`);
+  }
+
+  // Render the feed into its cache file; written to a temp file first so readers never see a partial feed
+  async generate(channel: string, format: FeedFormat): Promise<FeedFileInfo> {
+    const key = `${channel}:${format}`;
+    const running = inFlight.get(key);
+    if (running) {
+      return await running;
+    }
+
+    const generation = this.writeFeed(channel, format).finally(() => inFlight.delete(key));
+    inFlight.set(key, generation);
+    return await generation;
+  }
+
+  // Write a feed to a stream a batch at a time, waiting for each write so memory stays flat
+  private async render(renderer: FeedRenderer, config: FeedConfig, stream: Writable) {
+    const write = (chunk: string) => new Promise<void>((resolve, reject) => {
+      if (!chunk) {
+        return resolve();
+      }
+      stream.write(chunk, error => (error ? reject(error) : resolve()));
+    });
+
+    let items = 0;
+    await write(renderer.header(config));
+    for await (const batch of this.getItems(config)) {
+      await write(batch.map(item => renderer.item(item, config)).join(''));
+      items += batch.length;
+    }
+    await write(renderer.footer(config));
+    return items;
+  }
+
+  // Render a feed straight to a response with filters applied over the configured ones; not cached
+  async streamFeed(channel: string, format: FeedFormat, filters: ProductFilters, out: Writable) {
+    const renderer = this.getRenderer(channel, format);
+    const config = await this.getConfig(channel);
+    if (!config.enabled) {
+      throw new NotFoundError(`The ${channel} feed is disabled`);
+    }
+
+    const errors = validateFilters(filters);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.join('; '), errors);
+    }
+
+    return await this.render(renderer, { ...config, filters: { ...config.filters, ...filters } }, out);
+  }
+
+  private async writeFeed(channel: string, format: FeedFormat): Promise<FeedFileInfo> {
+    const renderer = this.getRenderer(channel, format);
+    const config = await this.getConfig(channel);
+    const startedAt = Date.now();
+
+    await fs.promises.mkdir(this.getCacheDir(), { recursive: true });
+    const target = this.filePath(channel, format);
+    const temp = `${target}.${process.pid}.tmp`;
+
+    const stream = fs.createWriteStream(temp, { encoding: 'utf8' });
+
+    let items = 0;
+    try {
+      items = await this.render(renderer, config, stream);
+      await new Promise<void>((resolve, reject) => stream.end((error?: Error | null) => (error ? reject(error) : resolve())));
+      await fs.promises.rename(temp, target);
+    } catch (error) {
+      stream.destroy();
+      await fs.promises.rm(temp, { force: true });
+
+      await db.insert(syncLogs).values({
+        channel,
+        operation: 'feed-generate',
+        status: 'failed',
+        message: `Failed to generate ${channel} ${format} feed: ${(error as Error).message}`,
+        details: { format },
+      });
+      throw error;
+    }
+
+    const stats = await fs.promises.stat(target);
+    await db.insert(syncLogs).values({
+      channel,
+      operation: 'feed-generate',
+      status: 'success',
+      message: `Generated ${channel} ${format} feed with ${items} items`,
+      details: { format, items, bytes: stats.size, durationMs: Date.now() - startedAt },
+    });
+
+    return { channel, format, path: target, contentType: renderer.contentType, generatedAt: stats.mtime, size: stats.size };
+  }
+
+  // The cached file, regenerated first when missing or older than FEED_MAX_AGE_MS
+  async getFeedFile(channel: string, format: FeedFormat, options: { refresh?: boolean } = {}): Promise<FeedFileInfo> {
+    const renderer = this.getRenderer(channel, format);
+    const config = await this.getConfig(channel);
+    if (!config.enabled) {
+      throw new NotFoundError(`The ${channel} feed is disabled`);
+    }
+
+    if (!options.refresh) {
+      const maxAge = parseInt(process.env.FEED_MAX_AGE_MS || '') || DEFAULT_MAX_AGE_MS;
+      const stats = await fs.promises.stat(this.filePath(channel, format)).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs < maxAge) {
+        return {
+          channel,
+          format,
+          path: this.filePath(channel, format),
+          contentType: renderer.contentType,
+          generatedAt: stats.mtime,
+          size: stats.size,
+        };
+      }
+    }
+
+    return await this.generate(channel, format);
+  }
+
+  // Regenerate every format of every enabled feed (or of one channel); used by the scheduled job
+  async regenerateAll(channel?: string) {
+    const channels = channel ? [channel] : Object.keys(FEED_CHANNELS);
+    const results = [];
+
+    for (const name of channels) {
+      const config = await this.getConfig(name);
+      if (!config.enabled) {
+        continue;
+      }
+
+      for (const format of Object.keys(FEED_CHANNELS[name].renderers) as FeedFormat[]) {
+        try {
+          const file = await this.generate(name, format);
+          results.push({ channel: name, format, success: true, generatedAt: file.generatedAt, size: file.size });
+        } catch (error) {
+          console.error(`Failed to regenerate ${name} ${format} feed:`, error);
+          results.push({ channel: name, format, success: false, error: (error as Error).message });
+        }
+      }
+    }
+
+    const failed = results.filter(result => !result.success);
+    return { success: failed.length === 0, feeds: results, failed: failed.length };
+  }
+}
@@ -0,0 +1,418 @@
+import { db } from '../db/connection';
+import { inventory, inventoryMovements, locations, productVariants, products } from '../db/schema';
+import { LocationService } from './location';
+import { eq, and, isNull, asc, lte } from 'drizzle-orm';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+export const MOVEMENT_REASONS = ['sale', 'restock', 'damage', 'sync-correction', 'manual'] as const;
+export type MovementReason = typeof MOVEMENT_REASONS[number];
+
+export interface MovementContext {
+  reason: MovementReason;
+  source: string;
+  actor?: string | null;
+  note?: string | null;
+  details?: any;
+}
+
+export interface InventoryLevelInput {
+  variantId: number;
+  channel: string;
+  locationId: number;
+  quantity: number;
+  reserved?: number;
+  channelProductId?: string | null;
+}
+
+export interface AdjustmentInput {
+  variantId: number;
+  channel?: string;
+  locationId?: number;
+  delta?: number;
+  quantity?: number;
+  reason: string;
+  source?: string;
+  actor?: string;
+  note?: string;
+}
+
+const SYNC_CORRECTION: MovementContext = { reason: 'sync-correction', source: 'sync' };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export class InventoryService {
+  private locationService: LocationService;
+
+  constructor() {
+    this.locationService = new LocationService();
+  }
+
+  async getLevel(variantId: number, channel: string, locationId: number) {
+    const [level] = await db.select()
+      .from(inventory)
+      .where(and(
+        eq(inventory.variantId, variantId),
+        eq(inventory.channel, channel),
+        eq(inventory.locationId, locationId)
+      ));
+    return level || null;
+  }
+
+  async getLevelsForVariant(variantId: number, channel?: string) {
+    return await db.select()
+      .from(inventory)
+      .where(channel
+        ? and(eq(inventory.variantId, variantId), eq(inventory.channel, channel))
+        : eq(inventory.variantId, variantId))
+      .orderBy(asc(inventory.locationId));
+  }
+
+  // Lock the stock row of a variant on a channel at a location, creating it if needed. The row is
+  // inserted first (a no-op when it exists) so concurrent first writers don't both try to create it.
+  private async lockLevel(tx: Transaction, variantId: number, channel: string, locationId: number) {
+    await tx.insert(inventory).values({
+      variantId,
+      channel,
+      locationId,
+      quantity: 0,
+      reserved: 0,
+      available: 0,
+      lastSyncAt: new Date(),
+    }).onConflictDoNothing({ target: [inventory.variantId, inventory.channel, inventory.locationId] });
+
+    const [level] = await tx.select()
+      .from(inventory)
+      .where(and(
+        eq(inventory.variantId, variantId),
+        eq(inventory.channel, channel),
+        eq(inventory.locationId, locationId)
+      ))
+      .for('update');
+    return level;
+  }
+
+  // Append a movement to the ledger and move the row's balance by delta.
+  // Rows that predate the ledger get an opening-balance entry first so history adds up.
+  private async applyMovement(
+    tx: Transaction,
+    level: typeof inventory.$inferSelect,
+    delta: number,
+    context: MovementContext,
+    extraValues: Partial<typeof inventory.$inferInsert> = {}
+  ) {
+    const currentQuantity = level.quantity || 0;
+
+    if (currentQuantity !== 0) {
+      const [previousMovement] = await tx.select({ id: inventoryMovements.id })
+        .from(inventoryMovements)
+        .where(and(
+          eq(inventoryMovements.variantId, level.variantId as number),
+          eq(inventoryMovements.channel, level.channel),
+          level.locationId === null
+            ? isNull(inventoryMovements.locationId)
+            : eq(inventoryMovements.locationId, level.locationId)
+        ))
+        .limit(1);
+
+      if (!previousMovement) {
+        await tx.insert(inventoryMovements).values({
+          variantId: level.variantId as number,
+          channel: level.channel,
+          locationId: level.locationId,
+          delta: currentQuantity,
+          balanceAfter: currentQuantity,
+          reason: 'sync-correction',
+          source: 'opening-balance',
+          note: 'Balance recorded before the inventory ledger existed',
+        });
+      }
+    }
+
+    const quantity = currentQuantity + delta;
+    const reserved = extraValues.reserved ?? level.reserved ?? 0;
+
+    const [movement] = delta === 0 ? [null] : await tx.insert(inventoryMovements).values({
+      variantId: level.variantId as number,
+      channel: level.channel,
+      locationId: level.locationId,
+      delta,
+      balanceAfter: quantity,
+      reason: context.reason,
+      source: context.source,
+      actor: context.actor || null,
+      note: context.note || null,
+      details: context.details || null,
+    }).returning();
+
+    const [updated] = await tx.update(inventory)
+      .set({
+        ...extraValues,
+        quantity,
+        reserved,
+        available: quantity - reserved,
+        lastSyncAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(inventory.id, level.id))
+      .returning();
+
+    return { level: updated, movement };
+  }
+
+  // Set the stock of a variant on a channel at one location, recording the difference in the ledger.
+  // Reserved stock is kept unless given, and available is always quantity - reserved.
+  async setLevel(level: InventoryLevelInput, context: MovementContext = SYNC_CORRECTION) {
+    return await db.transaction(async (tx) => {
+      const current = await this.lockLevel(tx, level.variantId, level.channel, level.locationId);
+      const extraValues: Partial<typeof inventory.$inferInsert> = {};
+      if (level.reserved !== undefined) {
+        extraValues.reserved = level.reserved;
+      }
+      if (level.channelProductId !== undefined) {
+        extraValues.channelProductId = level.channelProductId;
+      }
+
+      const { level: updated } = await this.applyMovement(
+        tx,
+        current,
+        level.quantity - (current.quantity || 0),
+        context,
+        extraValues
+      );
+      return updated;
+    });
+  }
+
+  // Set the stock from a channel's available figure. The channel has already taken out the units
+  // its orders hold here, so those reservations are added back to get the on-hand quantity.
+  async setAvailable(
+    level: { variantId: number; channel: string; locationId: number },
+    available: number,
+    context: MovementContext = SYNC_CORRECTION
+  ) {
+    return await db.transaction(async (tx) => {
+      const current = await this.lockLevel(tx, level.variantId, level.channel, level.locationId);
+      const quantity = available + (current.reserved || 0);
+
+      const { level: updated } = await this.applyMovement(tx, current, quantity - (current.quantity || 0), context);
+      return updated;
+    });
+  }
+
+  // Move the stock of a variant on a channel at one location by delta
+  async recordMovement(
+    movement: { variantId: number; channel: string; locationId: number; delta: number },
+    context: MovementContext,
+    executor: Executor = db
+  ) {
+    return await executor.transaction(async (tx) => {
+      const current = await this.lockLevel(tx, movement.variantId, movement.channel, movement.locationId);
+      return await this.applyMovement(tx, current, movement.delta, context);
+    });
+  }
+
+  // Hold (positive delta) or release (negative delta) stock for orders; quantity is unchanged
+  async changeReserved(variantId: number, channel: string, locationId: number, delta: number, executor: Executor = db) {
+    return await executor.transaction(async (tx) => {
+      const current = await this.lockLevel(tx, variantId, channel, locationId);
+      const reserved = Math.max(0, (current.reserved || 0) + delta);
+
+      const [updated] = await tx.update(inventory)
+        .set({
+          reserved,
+          available: (current.quantity || 0) - reserved,
+          updatedAt: new Date(),
+        })
+        .where(eq(inventory.id, current.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Manual correction from the API, given either a delta or the counted quantity
+  async adjust(input: AdjustmentInput) {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(input.variantId) || input.variantId <= 0) {
+      errors.push('variantId must be a positive integer');
+    }
+    if (!MOVEMENT_REASONS.includes(input.reason as MovementReason)) {
+      errors.push(`reason must be one of: ${MOVEMENT_REASONS.join(', ')}`);
+    }
+    if ((input.delta === undefined) === (input.quantity === undefined)) {
+      errors.push('Provide exactly one of delta or quantity');
+    }
+    if (input.delta !== undefined && (!Number.isInteger(input.delta) || input.delta === 0)) {
+      errors.push('delta must be a non-zero integer');
+    }
+    if (input.quantity !== undefined && (!Number.isInteger(input.quantity) || input.quantity < 0)) {
+      errors.push('quantity must be a non-negative integer');
+    }
+    if (input.locationId !== undefined && (!Number.isInteger(input.locationId) || input.locationId <= 0)) {
+      errors.push('locationId must be a positive integer');
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors.join('; '), errors);
+    }
+
+    const [variant] = await db.select({ id: productVariants.id })
+      .from(productVariants)
+      .where(eq(productVariants.id, input.variantId));
+    if (!variant) {
+      throw new NotFoundError(`Variant ${input.variantId} not found`);
+    }
+
+    const locationId = input.locationId ?? await this.locationService.getDefaultLocationId();
+    if (input.locationId !== undefined && !(await this.locationService.getById(locationId))) {
+      throw new NotFoundError(`Location ${locationId} not found`);
+    }
+
+    const context: MovementContext = {
+      reason: input.reason as MovementReason,
+      source: input.source || 'api',
+      actor: input.actor,
+      note: input.note,
+    };
+
+    return await db.transaction(async (tx) => {
+      const current = await this.lockLevel(tx, input.variantId, input.channel || 'internal', locationId);
+      const delta = input.delta ?? (input.quantity as number) - (current.quantity || 0);
+
+      if ((current.quantity || 0) + delta < 0) {
+        throw new ValidationError(`Adjustment would leave negative stock (current quantity ${current.quantity || 0})`);
+      }
+
+      return await this.applyMovement(tx, current, delta, context);
+    });
+  }
+
+  // Ledger entries for a variant in order, with the running balance per channel
+  async getHistory(
+    variantId: number,
+    filters: { channel?: string; locationId?: number; from?: Date; to?: Date } = {}
+  ) {
+    const [variant] = await db.select({ id: productVariants.id, sku: productVariants.sku })
+      .from(productVariants)
+      .where(eq(productVariants.id, variantId));
+    if (!variant) {
+      throw new NotFoundError(`Variant ${variantId} not found`);
+    }
+
+    const conditions = [eq(inventoryMovements.variantId, variantId)];
+    if (filters.channel) {
+      conditions.push(eq(inventoryMovements.channel, filters.channel));
+    }
+    if (filters.locationId) {
+      conditions.push(eq(inventoryMovements.locationId, filters.locationId));
+    }
+    if (filters.to) {
+      conditions.push(lte(inventoryMovements.createdAt, filters.to));
+    }
+
+    const movements = await db.select({
+      movement: inventoryMovements,
+      locationName: locations.name,
+    })
+      .from(inventoryMovements)
+      .leftJoin(locations, eq(inventoryMovements.locationId, locations.id))
+      .where(and(...conditions))
+      .orderBy(asc(inventoryMovements.createdAt), asc(inventoryMovements.id));
+
+    // Replay from the start so balances are correct even when only a window is returned
+    const channelBalances: Record<string, number> = {};
+    const history = movements.map(({ movement, locationName }) => {
+      channelBalances[movement.channel] = (channelBalances[movement.channel] || 0) + movement.delta;
+      return {
+        ...movement,
+        locationName,
+        channelBalanceAfter: channelBalances[movement.channel],
+      };
+    });
+
+    return {
+      variantId,
+      sku: variant.sku,
+      movements: filters.from
+        ? history.filter(entry => entry.createdAt && entry.createdAt >= filters.from!)
+        : history,
+      balances: channelBalances,
+    };
+  }
+
+  // Rows written before inventory was tracked per location
+  async removeUnlocatedLevels(variantId: number, channel: string) {
+    await db.delete(inventory)
+      .where(and(
+        eq(inventory.variantId, variantId),
+        eq(inventory.channel, channel),
+        isNull(inventory.locationId)
+      ));
+  }
+
+  // Inventory overview grouped by variant, then channel, then location
+  async getOverview() {
+    const inventoryItems = await db.select({
+      id: inventory.id,
+      variantId: inventory.variantId,
+      channel: inventory.channel,
+      quantity: inventory.quantity,
+      reserved: inventory.reserved,
+      available: inventory.available,
+      lastSyncAt: inventory.lastSyncAt,
+      locationId: inventory.locationId,
+      locationName: locations.name,
+      sku: productVariants.sku,
+      productName: products.name,
+    })
+    .from(inventory)
+    .leftJoin(locations, eq(inventory.locationId, locations.id))
+    .leftJoin(productVariants, eq(inventory.variantId, productVariants.id))
+    .leftJoin(products, eq(productVariants.productId, products.id))
+    .orderBy(asc(inventory.variantId), asc(inventory.locationId));
+
+    const groupedInventory = inventoryItems.reduce((acc: any, item) => {
+      const key: any = item.variantId;
+      if (!acc[key]) {
+        acc[key] = {
+          id: item.variantId,
+          sku: item.sku,
+          productName: item.productName,
+          channels: {},
+        };
+      }
+
+      if (!acc[key].channels[item.channel]) {
+        acc[key].channels[item.channel] = {
+          quantity: 0,
+          reserved: 0,
+          available: 0,
+          lastSync: '',
+          locations: [],
+        };
+      }
+
+      const channel = acc[key].channels[item.channel];
+      const lastSync = item.lastSyncAt?.toISOString() || '';
+      channel.quantity += item.quantity || 0;
+      channel.reserved += item.reserved || 0;
+      channel.available += item.available || 0;
+      if (lastSync > channel.lastSync) {
+        channel.lastSync = lastSync;
+      }
+      channel.locations.push({
+        locationId: item.locationId,
+        locationName: item.locationName,
+        quantity: item.quantity,
+        reserved: item.reserved,
+        available: item.available,
+        lastSync,
+      });
+
+      return acc;
+    }, {});
+
+    return Object.values(groupedInventory);
+  }
+}
@@ -1,14 +1,24 @@
 import Queue from 'bull';
 import { ProductService } from './product';
+import { ShopService } from './shop';
+import { FeedService } from './feed';
+import { ProductImportService } from './productImport';
 
 export class JobQueueService {
   private inventorySyncQueue: Queue.Queue | null = null;
   private productSyncQueue: Queue.Queue | null = null;
+  private feedQueue: Queue.Queue | null = null;
   private productService: ProductService;
+  private shopService: ShopService;
+  private feedService: FeedService;
+  private productImportService: ProductImportService;
   private redisAvailable: boolean = false;
 
   constructor() {
     this.productService = new ProductService();
+    this.shopService = new ShopService();
+    this.feedService = new FeedService();
+    this.productImportService = new ProductImportService();
     
     // Check if Redis environment variables are set
     if (process.env.REDIS_HOST || process.env.REDIS_PORT || process.env.REDIS_PASSWORD) {
@@ -38,6 +48,7 @@ export class JobQueueService {
       // Create actual queues
       this.inventorySyncQueue = new Queue('inventory-sync', redisConfig);
       this.productSyncQueue = new Queue('product-sync', redisConfig);
+      this.feedQueue = new Queue('feed-generation', redisConfig);
       
       this.redisAvailable = true;
       this.setupQueueHandlers();
@@ -47,9 +58,38 @@ export class JobQueueService {
       this.redisAvailable = false;
       this.inventorySyncQueue = null;
       this.productSyncQueue = null;
+      this.feedQueue = null;
     }
   }
 
+  // Run a Shopify sync for one shop, or for every active shop when none is given.
+  // Each shop runs even if another fails; the job fails afterwards so Bull retries it.
+  private async runForShops<T>(shopId: number | undefined, run: (shopId: number) => Promise<T>) {
+    if (shopId) {
+      return await run(shopId);
+    }
+
+    const activeShops = await this.shopService.getAll();
+    const targets = activeShops.length > 0 ? activeShops : [await this.shopService.getDefaultShop()];
+
+    const results = [];
+    for (const shop of targets) {
+      try {
+        results.push({ shopId: shop.id, shop: shop.domain, success: true, result: await run(shop.id) });
+      } catch (error) {
+        console.error(`Shopify job for ${shop.domain} failed:`, error);
+        results.push({ shopId: shop.id, shop: shop.domain, success: false, error: (error as Error).message });
+      }
+    }
+
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      throw new Error(`Failed for ${failed.length} of ${results.length} shops: ${failed.map(result => `${result.shop} (${result.error})`).join('; ')}`);
+    }
+
+    return { shops: results };
+  }
+
   private setupQueueHandlers() {
     // Inventory sync queue handler
     this.inventorySyncQueue!.on('completed', (job) => {
@@ -68,7 +108,7 @@ export class JobQueueService {
     this.inventorySyncQueue!.process('sync-inventory', async (job) => {
       try {
         console.log(`Processing inventory sync job ${job.id} (read-only)`);
-        const result = await this.productService.syncInventoryFromShopifyReadOnly();
+        const result = await this.runForShops(job.data.shopId, shopId => this.productService.syncInventoryFromShopifyReadOnly(shopId));
         console.log(`Inventory sync job ${job.id} completed successfully`);
         return result;
       } catch (error) {
@@ -80,7 +120,7 @@ export class JobQueueService {
     // Process Shopify inventory sync jobs (read-only by default)
     this.inventorySyncQueue!.process('shopify-inventory-sync', async (job) => {
       try {
-        const result = await this.productService.syncInventoryFromShopifyReadOnly();
+        const result = await this.runForShops(job.data.shopId, shopId => this.productService.syncInventoryFromShopifyReadOnly(shopId));
         return result;
       } catch (error) {
         console.error(`Shopify inventory sync job ${job.id} failed:`, error);
@@ -91,7 +131,7 @@ export class JobQueueService {
     // Process recurring inventory sync jobs (read-only by default)
     this.inventorySyncQueue!.process('recurring-inventory-sync', async (job) => {
       try {
-        const result = await this.productService.syncInventoryFromShopifyReadOnly();
+        const result = await this.runForShops(job.data.shopId, shopId => this.productService.syncInventoryFromShopifyReadOnly(shopId));
         return result;
       } catch (error) {
         console.error(`Recurring inventory sync job ${job.id} failed:`, error);
@@ -110,9 +150,9 @@ export class JobQueueService {
 
     // Process product create jobs
     this.productSyncQueue!.process('product-create', async (job) => {
-      const { data } = job.data;
+      const { data, shopId } = job.data;
       try {
-        const result = await this.productService.deployToShopify(data);
+        const result = await this.productService.deployToShopify(data, shopId);
         return result;
       } catch (error) {
         console.error(`Product create job ${job.id} failed:`, error);
@@ -122,9 +162,9 @@ export class JobQueueService {
 
     // Process product update jobs
     this.productSyncQueue!.process('product-update', async (job) => {
-      const { data, productId } = job.data;
+      const { data, productId, shopId } = job.data;
       try {
-        const result = await this.productService.updateProductInShopify(productId, data);
+        const result = await this.productService.updateProductInShopify(productId, data, shopId);
         return result;
       } catch (error) {
         console.error(`Product update job ${job.id} failed:`, error);
@@ -134,9 +174,9 @@ export class JobQueueService {
 
     // Process product import jobs
     this.productSyncQueue!.process('product-import', async (job) => {
-      const { data } = job.data;
+      const { data, shopId } = job.data;
       try {
-        const result = await this.productService.importFromShopify(data);
+        const result = await this.productService.importFromShopify(data, shopId);
         return result;
       } catch (error) {
         console.error(`Product import job ${job.id} failed:`, error);
@@ -167,19 +207,43 @@ export class JobQueueService {
       }
     });
 
+    // Process spreadsheet product imports, reporting progress as rows are written
+    this.productSyncQueue!.process('product-file-import', async (job) => {
+      try {
+        return await this.productImportService.run(job.data.importId, percent => job.progress(percent));
+      } catch (error) {
+        console.error(`Product file import job ${job.id} failed:`, error);
+        throw error;
+      }
+    });
+
     // Process recurring product sync jobs
     this.productSyncQueue!.process('recurring-product-sync', async (job) => {
       try {
-        const result = await this.productService.importFromShopifyBulk({
-          limit: 50,
-          syncDeletions: true
-        });
+        // Resumes an unfinished pass; deletions are synced once a full pass completes
+        const result = await this.runForShops(job.data.shopId, shopId => this.productService.importFromShopifyBulk({
+          syncDeletions: true,
+          shopId,
+        }));
         return result;
       } catch (error) {
         console.error(`Recurring product sync job ${job.id} failed:`, error);
         throw error;
       }
     });
+
+    this.feedQueue!.on('failed', (job, error) => {
+      console.error(`Feed generation job ${job.id} failed:`, error);
+    });
+
+    // Rebuild cached feed files (one feed channel, or all enabled ones)
+    this.feedQueue!.process('regenerate-feeds', async (job) => {
+      const result = await this.feedService.regenerateAll(job.data.channel);
+      if (!result.success) {
+        throw new Error(`Failed to regenerate ${result.failed} feed files`);
+      }
+      return result;
+    });
   }
 
   // Check if Redis is available
@@ -192,10 +256,11 @@ export class JobQueueService {
     priority?: number;
     delay?: number;
     attempts?: number;
+    shopId?: number;
   } = {}) {
     if (!this.redisAvailable) {
       try {
-        const result = await this.productService.syncInventoryFromShopifyReadOnly();
+        const result = await this.runForShops(options.shopId, shopId => this.productService.syncInventoryFromShopifyReadOnly(shopId));
         return { id: 'immediate', result, immediate: true };
       } catch (error) {
         console.error('Immediate inventory sync failed:', error);
@@ -205,7 +270,7 @@ export class JobQueueService {
 
     const job = await this.inventorySyncQueue!.add(
       'sync-inventory',
-      {},
+      { shopId: options.shopId },
       {
         priority: options.priority || 0,
         delay: options.delay || 0,
@@ -226,10 +291,11 @@ export class JobQueueService {
     priority?: number;
     delay?: number;
     attempts?: number;
+    shopId?: number;
   } = {}) {
     if (!this.redisAvailable) {
       try {
-        const result = await this.productService.syncInventoryFromShopifyReadOnly();
+        const result = await this.runForShops(options.shopId, shopId => this.productService.syncInventoryFromShopifyReadOnly(shopId));
         return { id: 'immediate', result, immediate: true };
       } catch (error) {
         console.error('Immediate Shopify inventory sync failed:', error);
@@ -239,7 +305,7 @@ export class JobQueueService {
 
     const job = await this.inventorySyncQueue!.add(
       'shopify-inventory-sync',
-      {},
+      { shopId: options.shopId },
       {
         priority: options.priority || 0,
         delay: options.delay || 0,
@@ -264,15 +330,16 @@ export class JobQueueService {
       delay?: number;
       attempts?: number;
       productId?: number;
+      shopId?: number;
     } = {}
   ) {
     if (!this.redisAvailable) {
       try {
         let result;
         if (operation === 'import') {
-          result = await this.productService.importFromShopify(data);
+          result = await this.productService.importFromShopify(data, options.shopId);
         } else {
-          result = await this.productService.updateProductInShopify(options.productId!, data);
+          result = await this.productService.updateProductInShopify(options.productId!, data, options.shopId);
         }
         return { id: 'immediate', result, immediate: true };
       } catch (error) {
@@ -283,7 +350,7 @@ export class JobQueueService {
 
     const job = await this.productSyncQueue!.add(
       `product-${operation}`,
-      { operation, data, productId: options.productId },
+      { operation, data, productId: options.productId, shopId: options.shopId },
       {
         priority: options.priority || 1,
         delay: options.delay || 0,
@@ -303,12 +370,14 @@ export class JobQueueService {
     syncDeletions?: boolean;
     delay?: number;
     priority?: number;
+    shopId?: number;
   } = {}) {
     if (!this.redisAvailable) {
       try {
         const result = await this.productService.importFromShopifyBulk({
-          limit: options.limit || 50,
-          syncDeletions: options.syncDeletions !== false
+          limit: options.limit,
+          syncDeletions: options.syncDeletions !== false,
+          shopId: options.shopId,
         });
         return { id: 'immediate', result, immediate: true };
       } catch (error) {
@@ -319,7 +388,7 @@ export class JobQueueService {
 
     // Validate options
     const validatedOptions = {
-      limit: Math.max(1, Math.min(options.limit || 50, 1000)), // Ensure limit is between 1 and 1000
+      limit: Math.max(1, Math.min(options.limit || 250, 250)), // Page size, Shopify allows at most 250
       syncDeletions: options.syncDeletions !== false,
       delay: Math.max(0, options.delay || 360000), // Ensure delay is non-negative
       priority: Math.max(1, Math.min(options.priority || 1, 10)) // Ensure priority is between 1 and 10
@@ -330,7 +399,8 @@ export class JobQueueService {
         operation: 'import',
         data: {
           limit: validatedOptions.limit,
-          syncDeletions: validatedOptions.syncDeletions
+          syncDeletions: validatedOptions.syncDeletions,
+          shopId: options.shopId,
         }
       },
       {
@@ -346,6 +416,97 @@ export class JobQueueService {
     return job;
   }
 
+  // Add a stored spreadsheet import to the queue. Without Redis it runs in the background of
+  // this process; progress is tracked on the import record either way.
+  async addProductImportJob(importId: number) {
+    if (!this.redisAvailable) {
+      this.productImportService.run(importId).catch(error => {
+        console.error(`Product import ${importId} failed:`, error);
+      });
+      return { id: 'immediate', immediate: true };
+    }
+
+    // Not retried: a partial run has already written rows, and a rerun would start over
+    const job = await this.productSyncQueue!.add(
+      'product-file-import',
+      { importId },
+      {
+        attempts: 1,
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      }
+    );
+    return { id: job.id, immediate: false };
+  }
+
+  // Add feed regeneration job to queue
+  async addFeedRegenerationJob(options: { channel?: string; delay?: number } = {}) {
+    if (!this.redisAvailable) {
+      const result = await this.feedService.regenerateAll(options.channel);
+      return { id: 'immediate', result, immediate: true };
+    }
+
+    const job = await this.feedQueue!.add(
+      'regenerate-feeds',
+      { channel: options.channel },
+      {
+        delay: options.delay || 0,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+      }
+    );
+    return { id: job.id, immediate: false };
+  }
+
+  // Schedule recurring regeneration of the cached product feeds
+  async scheduleRecurringFeedRegeneration(cronExpression: string = '0 */2 * * *') { // Every 2 hours
+    if (!this.redisAvailable) {
+      return { id: 'no-redis', message: 'Redis not available for scheduling' };
+    }
+
+    await this.clearRecurringFeedRegeneration();
+
+    const job = await this.feedQueue!.add(
+      'regenerate-feeds',
+      {},
+      {
+        repeat: {
+          cron: cronExpression,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 50,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      }
+    );
+    return job;
+  }
+
+  // Clear existing recurring feed regeneration jobs
+  async clearRecurringFeedRegeneration() {
+    if (!this.redisAvailable) {
+      return { message: 'Redis not available' };
+    }
+
+    const repeatableJobs = await this.feedQueue!.getRepeatableJobs();
+    for (const job of repeatableJobs) {
+      await this.feedQueue!.removeRepeatableByKey(job.key);
+    }
+
+    return {
+      message: `Cleared ${repeatableJobs.length} existing recurring feed regeneration jobs`,
+      clearedCount: repeatableJobs.length
+    };
+  }
+
   // Schedule recurring inventory sync
   async scheduleRecurringInventorySync(cronExpression: string = '*/6 * * * *') { // Every 6 minutes
     if (!this.redisAvailable) {
@@ -528,13 +689,22 @@ export class JobQueueService {
           delayed: 0,
           status: 'Redis not available'
         },
+        feed: {
+          waiting: 0,
+          active: 0,
+          completed: 0,
+          failed: 0,
+          delayed: 0,
+          status: 'Redis not available'
+        },
         redisStatus: 'disabled'
       };
     }
 
-    const [inventoryStats, productStats] = await Promise.all([
+    const [inventoryStats, productStats, feedStats] = await Promise.all([
       this.inventorySyncQueue!.getJobCounts(),
       this.productSyncQueue!.getJobCounts(),
+      this.feedQueue!.getJobCounts(),
     ]);
 
     // Get recurring job information
@@ -572,6 +742,14 @@ export class JobQueueService {
         status: 'active',
         recurringJobs: recurringProductJobInfo
       },
+      feed: {
+        waiting: feedStats.waiting,
+        active: feedStats.active,
+        completed: feedStats.completed,
+        failed: feedStats.failed,
+        delayed: feedStats.delayed,
+        status: 'active'
+      },
       redisStatus: 'enabled'
     };
   }
@@ -587,19 +765,22 @@ export class JobQueueService {
       this.inventorySyncQueue!.clean(24 * 60 * 60 * 1000, 'failed'), // 24 hours
       this.productSyncQueue!.clean(24 * 60 * 60 * 1000, 'completed'), // 24 hours
       this.productSyncQueue!.clean(24 * 60 * 60 * 1000, 'failed'), // 24 hours
+      this.feedQueue!.clean(24 * 60 * 60 * 1000, 'completed'), // 24 hours
+      this.feedQueue!.clean(24 * 60 * 60 * 1000, 'failed'), // 24 hours
     ]);
   }
 
   // Get recurring jobs information
   async getRecurringJobs() {
-    if (!this.redisAvailable || !this.inventorySyncQueue || !this.productSyncQueue) {
+    if (!this.redisAvailable || !this.inventorySyncQueue || !this.productSyncQueue || !this.feedQueue) {
       return [];
     }
 
     try {
-      const [inventoryRecurringJobs, productRecurringJobs] = await Promise.all([
+      const [inventoryRecurringJobs, productRecurringJobs, feedRecurringJobs] = await Promise.all([
         this.inventorySyncQueue.getRepeatableJobs(),
         this.productSyncQueue.getRepeatableJobs(),
+        this.feedQueue.getRepeatableJobs(),
       ]);
       
       const allJobs = [
@@ -618,6 +799,14 @@ export class JobQueueService {
           next: job.next,
           key: job.key,
           queue: 'product'
+        })),
+        ...feedRecurringJobs.map(job => ({
+          id: job.id,
+          name: job.name,
+          cron: job.cron,
+          next: job.next,
+          key: job.key,
+          queue: 'feed'
         }))
       ];
       
@@ -629,9 +818,9 @@ export class JobQueueService {
   }
 
   // Clean up missing Shopify products
-  async cleanupMissingShopifyProducts() {
+  async cleanupMissingShopifyProducts(shopId?: number) {
     try {
-      const result = await this.productService.cleanupMissingShopifyProducts();
+      const result = await this.runForShops(shopId, id => this.productService.cleanupMissingShopifyProducts(id));
       return result;
     } catch (error) {
       console.error('Cleanup failed via JobQueueService:', error);
@@ -642,10 +831,11 @@ export class JobQueueService {
   // Graceful shutdown
   async shutdown() {
     
-    if (this.redisAvailable && this.inventorySyncQueue && this.productSyncQueue) {
+    if (this.redisAvailable && this.inventorySyncQueue && this.productSyncQueue && this.feedQueue) {
       await Promise.all([
         this.inventorySyncQueue.close(),
         this.productSyncQueue.close(),
+        this.feedQueue.close(),
       ]);
     } else {
       console.log('No job queues to shut down (Redis not available)');
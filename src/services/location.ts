@@ -0,0 +1,207 @@
+import { db } from '../db/connection';
+import { locations, syncLogs } from '../db/schema';
+import { ShopService } from './shop';
+import { eq, and, asc } from 'drizzle-orm';
+import { ValidationError } from '../utils/errors';
+import { INTERNAL_CHANNEL, SHOPIFY_CHANNEL, WOOCOMMERCE_CHANNEL } from '../channels/types';
+
+export class LocationService {
+  private shopService: ShopService;
+
+  constructor() {
+    this.shopService = new ShopService();
+  }
+
+  async getAll(includeInactive = false) {
+    const query = db.select().from(locations);
+    const rows = includeInactive
+      ? await query.orderBy(asc(locations.id))
+      : await query.where(eq(locations.isActive, true)).orderBy(asc(locations.id));
+    return rows;
+  }
+
+  async getById(locationId: number) {
+    const [location] = await db.select()
+      .from(locations)
+      .where(eq(locations.id, locationId));
+    return location || null;
+  }
+
+  async createInternalLocation(data: { name?: string; address?: any; isDefault?: boolean }) {
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name) {
+      throw new ValidationError('name is required');
+    }
+    if (name.length > 255) {
+      throw new ValidationError('name must be at most 255 characters');
+    }
+
+    return await db.transaction(async (tx) => {
+      // Only one location can be the default for internal stock
+      if (data.isDefault) {
+        await tx.update(locations)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(eq(locations.isDefault, true));
+      }
+
+      const [location] = await tx.insert(locations).values({
+        name,
+        channel: INTERNAL_CHANNEL,
+        address: data.address || null,
+        isActive: true,
+        isDefault: data.isDefault === true,
+      }).returning();
+
+      return location;
+    });
+  }
+
+  // Location that internal stock is booked against when no location is given
+  async getDefaultLocationId(): Promise<number> {
+    const [defaultLocation] = await db.select({ id: locations.id })
+      .from(locations)
+      .where(and(eq(locations.channel, INTERNAL_CHANNEL), eq(locations.isDefault, true)));
+
+    if (defaultLocation) {
+      return defaultLocation.id;
+    }
+
+    // Only internal warehouses qualify; Shopify locations mirror the shop's own stock
+    const [firstLocation] = await db.select({ id: locations.id })
+      .from(locations)
+      .where(and(eq(locations.channel, INTERNAL_CHANNEL), eq(locations.isActive, true)))
+      .orderBy(asc(locations.id))
+      .limit(1);
+
+    if (firstLocation) {
+      await db.update(locations)
+        .set({ isDefault: true, updatedAt: new Date() })
+        .where(eq(locations.id, firstLocation.id));
+      return firstLocation.id;
+    }
+
+    const location = await this.createInternalLocation({ name: 'Main warehouse', isDefault: true });
+    return location.id;
+  }
+
+  // WooCommerce keeps one stock number per product, booked against a single store location
+  async getWooCommerceLocationId(): Promise<number> {
+    const [existing] = await db.select({ id: locations.id })
+      .from(locations)
+      .where(and(
+        eq(locations.channel, WOOCOMMERCE_CHANNEL),
+        eq(locations.channelLocationId, 'store')
+      ));
+    if (existing) {
+      return existing.id;
+    }
+
+    const [location] = await db.insert(locations).values({
+      name: 'WooCommerce store',
+      channel: WOOCOMMERCE_CHANNEL,
+      channelLocationId: 'store',
+      isActive: true,
+    }).returning();
+
+    return location.id;
+  }
+
+  private async findShopifyLocation(shopId: number, shopifyLocationId: string) {
+    const [existing] = await db.select({ id: locations.id })
+      .from(locations)
+      .where(and(
+        eq(locations.channel, SHOPIFY_CHANNEL),
+        eq(locations.shopId, shopId),
+        eq(locations.channelLocationId, shopifyLocationId)
+      ));
+    return existing || null;
+  }
+
+  // Resolve a shop's Shopify location ID to our location row, mirroring it if we haven't seen it yet
+  async resolveShopifyLocation(shopId: number, shopifyLocationId: string): Promise<number> {
+    const existing = await this.findShopifyLocation(shopId, shopifyLocationId);
+    if (existing) {
+      return existing.id;
+    }
+
+    await this.syncLocationsFromShopify(shopId);
+
+    const synced = await this.findShopifyLocation(shopId, shopifyLocationId);
+    if (synced) {
+      return synced.id;
+    }
+
+    // Location not returned by the API (e.g. app lacks read_locations) - keep a placeholder
+    const [placeholder] = await db.insert(locations).values({
+      name: `Shopify location ${shopifyLocationId}`,
+      channel: SHOPIFY_CHANNEL,
+      shopId,
+      channelLocationId: shopifyLocationId,
+      isActive: true,
+      lastSyncAt: new Date(),
+    }).returning();
+
+    return placeholder.id;
+  }
+
+  // Our location row for the shop's primary Shopify location
+  async getPrimaryShopifyLocationId(shopId: number): Promise<number> {
+    const shop = await this.shopService.getById(shopId);
+    const shopifyLocationId = await this.shopService.getShopifyService(shop).getPrimaryLocationId();
+    return this.resolveShopifyLocation(shopId, shopifyLocationId);
+  }
+
+  // Mirror a shop's Shopify locations into the locations table
+  async syncLocationsFromShopify(shopId: number) {
+    const shop = await this.shopService.getById(shopId);
+    const shopifyLocations = await this.shopService.getShopifyService(shop).getLocations();
+
+    let created = 0;
+    let updated = 0;
+
+    for (const shopifyLocation of shopifyLocations) {
+      const values = {
+        name: shopifyLocation.name,
+        address: {
+          address1: shopifyLocation.address1,
+          address2: shopifyLocation.address2,
+          city: shopifyLocation.city,
+          province: shopifyLocation.province,
+          country: shopifyLocation.country,
+          zip: shopifyLocation.zip,
+        },
+        isActive: shopifyLocation.active,
+        lastSyncAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const existing = await this.findShopifyLocation(shopId, shopifyLocation.id.toString());
+
+      if (existing) {
+        await db.update(locations)
+          .set(values)
+          .where(eq(locations.id, existing.id));
+        updated++;
+      } else {
+        await db.insert(locations).values({
+          ...values,
+          channel: SHOPIFY_CHANNEL,
+          shopId,
+          channelLocationId: shopifyLocation.id.toString(),
+        });
+        created++;
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: SHOPIFY_CHANNEL,
+      shopId,
+      operation: 'location-sync',
+      status: 'success',
+      message: `Synced ${shopifyLocations.length} locations from ${shop.domain}`,
+      details: { created, updated },
+    });
+
+    return { success: true, shopId, created, updated, total: shopifyLocations.length };
+  }
+}
@@ -0,0 +1,799 @@
+import { db } from '../db/connection';
+import { orders, orderItems, orderStatusHistory, syncLogs, channelMappings, productVariants, locations, inventory } from '../db/schema';
+import { InventoryService } from './inventory';
+import { LocationService } from './location';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { NotFoundError, isUniqueViolation } from '../utils/errors';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type OrderStatus =
+  | 'pending'
+  | 'partially_fulfilled'
+  | 'fulfilled'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'cancelled';
+
+// Allowed status transitions; anything else (e.g. a stale webhook) leaves the status unchanged
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['partially_fulfilled', 'fulfilled', 'partially_refunded', 'refunded', 'cancelled'],
+  partially_fulfilled: ['fulfilled', 'partially_refunded', 'refunded', 'cancelled'],
+  fulfilled: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_fulfilled', 'fulfilled', 'refunded', 'cancelled'],
+  refunded: [],
+  cancelled: ['refunded'],
+};
+
+// WooCommerce order status -> local status; pending, processing and on-hold stay pending
+const WOOCOMMERCE_STATUSES: Record<string, OrderStatus> = {
+  completed: 'fulfilled',
+  cancelled: 'cancelled',
+  failed: 'cancelled',
+  refunded: 'refunded',
+};
+
+type OrderItem = typeof orderItems.$inferSelect;
+
+export class OrderService {
+  private inventoryService: InventoryService;
+  private locationService: LocationService;
+
+  constructor() {
+    this.inventoryService = new InventoryService();
+    this.locationService = new LocationService();
+  }
+
+  // Resolve a channel line item to a local variant: channel mapping first, then SKU
+  private async resolveLineItem(
+    channel: string,
+    shopId: number | null,
+    channelVariantId: string | null,
+    sku: string | null | undefined,
+    executor: Executor = db
+  ): Promise<{ variantId: number; matchedBy: 'mapping' | 'sku' } | null> {
+    if (channelVariantId) {
+      const [mapping] = await executor.select({ variantId: channelMappings.variantId })
+        .from(channelMappings)
+        .where(and(
+          eq(channelMappings.channel, channel),
+          shopId !== null ? eq(channelMappings.shopId, shopId) : undefined,
+          eq(channelMappings.channelVariantId, channelVariantId)
+        ));
+
+      if (mapping?.variantId) {
+        return { variantId: mapping.variantId, matchedBy: 'mapping' };
+      }
+    }
+
+    if (sku && sku.trim() !== '') {
+      const [variant] = await db.select({ id: productVariants.id })
+        .from(productVariants)
+        .where(eq(productVariants.sku, sku.trim()));
+
+      if (variant) {
+        return { variantId: variant.id, matchedBy: 'sku' };
+      }
+    }
+
+    return null;
+  }
+
+  async resolveShopifyLineItem(shopId: number, lineItem: any, executor: Executor = db) {
+    return this.resolveLineItem('shopify', shopId, lineItem.variant_id?.toString() ?? null, lineItem.sku, executor);
+  }
+
+  // Simple WooCommerce products are mapped by product ID, variable ones by variation ID
+  async resolveWooCommerceLineItem(lineItem: any, executor: Executor = db) {
+    const channelVariantId = lineItem.variation_id || lineItem.product_id;
+    return this.resolveLineItem('woocommerce', null, channelVariantId ? channelVariantId.toString() : null, lineItem.sku, executor);
+  }
+
+  // Internal location to hold a line item's stock at. Orders placed at a location (POS) hold it
+  // there; online orders use the default location when it has enough available, otherwise the
+  // location with the most. sufficient is false when no location can cover the quantity.
+  private async resolveReservationLocation(
+    shopId: number | null,
+    order: any,
+    variantId: number,
+    quantity: number,
+    executor: Executor = db
+  ): Promise<{ locationId: number; available: number; sufficient: boolean }> {
+    if (order.location_id && shopId !== null) {
+      const [location] = await executor.select({ id: locations.id })
+        .from(locations)
+        .where(and(
+          eq(locations.channel, 'shopify'),
+          eq(locations.shopId, shopId),
+          eq(locations.channelLocationId, order.location_id.toString())
+        ));
+
+      if (location) {
+        return { locationId: location.id, available: quantity, sufficient: true };
+      }
+    }
+
+    const levels = await executor.select({ locationId: inventory.locationId, available: inventory.available })
+      .from(inventory)
+      .innerJoin(locations, eq(locations.id, inventory.locationId))
+      .where(and(
+        eq(inventory.variantId, variantId),
+        eq(inventory.channel, 'internal'),
+        eq(locations.isActive, true)
+      ))
+      .orderBy(desc(inventory.available), asc(inventory.locationId));
+
+    const defaultLocationId = await this.locationService.getDefaultLocationId();
+    const defaultLevel = levels.find(level => level.locationId === defaultLocationId);
+    const best = defaultLevel && (defaultLevel.available || 0) >= quantity ? defaultLevel : levels[0];
+
+    if (!best) {
+      return { locationId: defaultLocationId, available: 0, sufficient: false };
+    }
+    return {
+      locationId: best.locationId as number,
+      available: best.available || 0,
+      sufficient: (best.available || 0) >= quantity,
+    };
+  }
+
+  // Flag a line item held at a location without enough stock, so it can be moved or backordered
+  private async logInsufficientStock(
+    executor: Executor,
+    order: typeof orders.$inferSelect,
+    lineItem: { sku?: string | null; quantity: number },
+    variantId: number,
+    reservation: { locationId: number; available: number }
+  ) {
+    await executor.insert(syncLogs).values({
+      channel: order.channel,
+      shopId: order.shopId,
+      operation: 'order-reservation',
+      status: 'failed',
+      message: `Not enough stock for SKU ${lineItem.sku || 'none'} on order ${order.orderNumber}: ` +
+        `${lineItem.quantity} held at location ${reservation.locationId} with ${reservation.available} available`,
+      details: {
+        orderId: order.id,
+        variantId,
+        locationId: reservation.locationId,
+        available: reservation.available,
+        quantity: lineItem.quantity,
+      },
+    });
+  }
+
+  // Order already saved for a channel order ID; shopId is null for single-store channels
+  private async findChannelOrder(channel: string, shopId: number | null, channelOrderId: string) {
+    const [existingOrder] = await db.select()
+      .from(orders)
+      .where(and(
+        eq(orders.channel, channel),
+        shopId !== null ? eq(orders.shopId, shopId) : undefined,
+        eq(orders.channelOrderId, channelOrderId)
+      ));
+    return existingOrder;
+  }
+
+  // Save a Shopify order, map its line items to variants and reserve internal stock
+  async createFromShopify(order: any, shopId: number) {
+    // Replays and re-sent payloads must not duplicate the order or its reservations
+    const existingOrder = await this.findChannelOrder('shopify', shopId, order.id.toString());
+
+    if (existingOrder) {
+      return { order: existingOrder, unmatchedLineItems: 0, duplicate: true };
+    }
+
+    try {
+      // All or nothing: a half-saved order would make the retry look like a duplicate
+      return await db.transaction(async (tx) => {
+        const [savedOrder] = await tx.insert(orders).values({
+          orderNumber: order.order_number.toString(),
+          channel: 'shopify',
+          shopId,
+          channelOrderId: order.id.toString(),
+          customerEmail: order.email,
+          totalAmount: order.total_price.toString(),
+          status: 'pending',
+          financialStatus: order.financial_status || null,
+          fulfillmentStatus: order.fulfillment_status || null,
+          statusChangedAt: new Date(),
+          orderData: order,
+        }).returning();
+
+        await tx.insert(orderStatusHistory).values({
+          orderId: savedOrder.id,
+          fromStatus: null,
+          toStatus: 'pending',
+          event: 'orders/create',
+          occurredAt: this.eventTime(order.created_at),
+        });
+
+        const unmatched = [];
+
+        for (const lineItem of order.line_items || []) {
+          const match = await this.resolveShopifyLineItem(shopId, lineItem, tx);
+          const reservation = match
+            ? await this.resolveReservationLocation(shopId, order, match.variantId, lineItem.quantity, tx)
+            : null;
+
+          await tx.insert(orderItems).values({
+            orderId: savedOrder.id,
+            variantId: match?.variantId ?? null,
+            locationId: reservation?.locationId ?? null,
+            channelLineItemId: lineItem.id?.toString() ?? null,
+            channelVariantId: lineItem.variant_id?.toString() ?? null,
+            sku: lineItem.sku || null,
+            title: lineItem.title || null,
+            quantity: lineItem.quantity,
+            reservedQuantity: match ? lineItem.quantity : 0,
+            price: lineItem.price.toString(),
+            totalPrice: (parseFloat(lineItem.price) * lineItem.quantity).toString(),
+          });
+
+          if (match && reservation) {
+            await this.inventoryService.changeReserved(match.variantId, 'internal', reservation.locationId, lineItem.quantity, tx);
+            if (!reservation.sufficient) {
+              await this.logInsufficientStock(tx, savedOrder, lineItem, match.variantId, reservation);
+            }
+          } else {
+            unmatched.push(lineItem);
+
+            // Flag for manual mapping
+            await tx.insert(syncLogs).values({
+              channel: 'shopify',
+              shopId,
+              operation: 'order-line-mapping',
+              status: 'failed',
+              message: `No variant found for line item "${lineItem.title}" (SKU ${lineItem.sku || 'none'}) on order ${order.order_number}`,
+              details: {
+                orderId: savedOrder.id,
+                shopifyOrderId: order.id,
+                lineItemId: lineItem.id,
+                shopifyVariantId: lineItem.variant_id,
+                sku: lineItem.sku,
+                quantity: lineItem.quantity,
+              },
+            });
+          }
+        }
+
+        // Log the webhook
+        await tx.insert(syncLogs).values({
+          channel: 'shopify',
+          shopId,
+          operation: 'webhook',
+          status: unmatched.length === 0 ? 'success' : 'partial',
+          message: `Received order webhook for order ${order.order_number}`,
+          details: {
+            orderId: savedOrder.id,
+            shopifyOrderId: order.id,
+            unmatchedLineItems: unmatched.length,
+          },
+        });
+
+        // Orders can arrive already fulfilled or cancelled (e.g. POS or imported orders)
+        const { order: currentOrder } = await this.applyShopifyOrderState(savedOrder.id, order, 'orders/create', tx);
+
+        return { order: currentOrder, unmatchedLineItems: unmatched.length, duplicate: false };
+      });
+    } catch (error) {
+      // A concurrent delivery of the same order saved it first
+      const concurrentOrder = isUniqueViolation(error)
+        ? await this.findChannelOrder('shopify', shopId, order.id.toString())
+        : undefined;
+      if (concurrentOrder) {
+        return { order: concurrentOrder, unmatchedLineItems: 0, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  private eventTime(value: any) {
+    const date = value ? new Date(value) : new Date();
+    return isNaN(date.getTime()) ? new Date() : date;
+  }
+
+  async getOrderWithItems(orderId: number, executor: Executor = db) {
+    const [order] = await executor.select()
+      .from(orders)
+      .where(eq(orders.id, orderId));
+
+    if (!order) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+
+    const items = await executor.select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.id));
+
+    return { order, items };
+  }
+
+  async getStatusHistory(orderId: number) {
+    return await db.select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.occurredAt), asc(orderStatusHistory.id));
+  }
+
+  // Events with an ID (e.g. refunds) may already have a placeholder row claimed before they were
+  // applied; the row then takes the transition's outcome
+  private async recordHistory(executor: Executor, values: typeof orderStatusHistory.$inferInsert) {
+    const insert = executor.insert(orderStatusHistory).values(values);
+    await (values.eventId
+      ? insert.onConflictDoUpdate({
+        target: [orderStatusHistory.orderId, orderStatusHistory.event, orderStatusHistory.eventId],
+        set: { fromStatus: values.fromStatus, toStatus: values.toStatus, details: values.details },
+      })
+      : insert);
+  }
+
+  // Move an order to a new status if the state machine allows it, recording the transition
+  private async transition(
+    orderId: number,
+    toStatus: OrderStatus,
+    event: string,
+    occurredAt: Date,
+    details: any = null,
+    eventId: string | null = null,
+    executor: Executor = db
+  ) {
+    const [order] = await executor.select().from(orders).where(eq(orders.id, orderId));
+    const fromStatus = (order.status || 'pending') as OrderStatus;
+
+    if (fromStatus === toStatus) {
+      // Still record events such as a second partial refund
+      if (eventId) {
+        await this.recordHistory(executor, {
+          orderId, fromStatus, toStatus, event, eventId, details, occurredAt,
+        });
+      }
+      return { order, changed: false };
+    }
+
+    if (!ORDER_TRANSITIONS[fromStatus]?.includes(toStatus)) {
+      // Keep the event itself so it isn't applied twice
+      if (eventId) {
+        await this.recordHistory(executor, {
+          orderId, fromStatus, toStatus: fromStatus, event, eventId, details, occurredAt,
+        });
+      }
+      await executor.insert(syncLogs).values({
+        channel: order.channel,
+        shopId: order.shopId,
+        operation: 'order-status',
+        status: 'failed',
+        message: `Ignored ${event}: order ${order.orderNumber} cannot move from ${fromStatus} to ${toStatus}`,
+        details: { orderId, fromStatus, toStatus, event, eventId },
+      });
+      return { order, changed: false };
+    }
+
+    const [updated] = await executor.update(orders)
+      .set({
+        status: toStatus,
+        statusChangedAt: occurredAt,
+        cancelledAt: toStatus === 'cancelled' ? occurredAt : order.cancelledAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    await this.recordHistory(executor, {
+      orderId, fromStatus, toStatus, event, eventId, details, occurredAt,
+    });
+
+    return { order: updated, changed: true };
+  }
+
+  // Quantities fulfilled per Shopify line item ID, from successful fulfillments
+  private getFulfilledQuantities(order: any) {
+    const fulfilled = new Map<string, number>();
+
+    for (const fulfillment of order.fulfillments || []) {
+      if (fulfillment.status && fulfillment.status !== 'success') {
+        continue;
+      }
+      for (const lineItem of fulfillment.line_items || []) {
+        const key = lineItem.id.toString();
+        fulfilled.set(key, (fulfilled.get(key) || 0) + lineItem.quantity);
+      }
+    }
+
+    for (const lineItem of order.line_items || []) {
+      const key = lineItem.id?.toString();
+      if (key && lineItem.fulfillment_status === 'fulfilled') {
+        fulfilled.set(key, Math.max(fulfilled.get(key) || 0, lineItem.quantity));
+      }
+    }
+
+    return fulfilled;
+  }
+
+  // Shipped stock leaves the warehouse: release the hold and book the sale in the ledger
+  private async consumeFulfilled(order: typeof orders.$inferSelect, item: OrderItem, quantity: number, executor: Executor = db) {
+    const fromReserved = Math.min(quantity, item.reservedQuantity || 0);
+
+    if (item.variantId) {
+      const locationId = item.locationId ?? await this.locationService.getDefaultLocationId();
+      if (fromReserved > 0) {
+        await this.inventoryService.changeReserved(item.variantId, 'internal', locationId, -fromReserved, executor);
+      }
+      await this.inventoryService.recordMovement(
+        { variantId: item.variantId, channel: 'internal', locationId, delta: -quantity },
+        {
+          reason: 'sale',
+          source: `${order.channel}-order`,
+          details: { orderId: order.id, orderNumber: order.orderNumber, orderItemId: item.id },
+        },
+        executor
+      );
+    }
+
+    await executor.update(orderItems)
+      .set({
+        fulfilledQuantity: (item.fulfilledQuantity || 0) + quantity,
+        reservedQuantity: (item.reservedQuantity || 0) - fromReserved,
+      })
+      .where(eq(orderItems.id, item.id));
+  }
+
+  private async releaseReserved(item: OrderItem, quantity: number, executor: Executor = db) {
+    const release = Math.min(quantity, item.reservedQuantity || 0);
+    if (release <= 0) {
+      return 0;
+    }
+
+    if (item.variantId && item.locationId) {
+      await this.inventoryService.changeReserved(item.variantId, 'internal', item.locationId, -release, executor);
+    }
+
+    await executor.update(orderItems)
+      .set({ reservedQuantity: (item.reservedQuantity || 0) - release })
+      .where(eq(orderItems.id, item.id));
+
+    return release;
+  }
+
+  // Status implied by the items and the channel's own order state
+  private deriveStatus(order: any, items: OrderItem[]): OrderStatus {
+    if (order.cancelled_at) {
+      return order.financial_status === 'refunded' ? 'refunded' : 'cancelled';
+    }
+    if (order.financial_status === 'refunded') {
+      return 'refunded';
+    }
+    if (order.financial_status === 'partially_refunded') {
+      return 'partially_refunded';
+    }
+
+    const fulfillable = items.filter(item => item.quantity - (item.refundedQuantity || 0) > 0);
+    const fulfilledItems = fulfillable.filter(item => (item.fulfilledQuantity || 0) > 0);
+    if (fulfillable.length > 0 && fulfillable.every(item => (item.fulfilledQuantity || 0) >= item.quantity - (item.refundedQuantity || 0))) {
+      return 'fulfilled';
+    }
+    if (fulfilledItems.length > 0) {
+      return 'partially_fulfilled';
+    }
+    return 'pending';
+  }
+
+  // Apply a full Shopify order payload: fulfillments, cancellation and resulting status
+  async applyShopifyOrderState(orderId: number, order: any, topic: string, executor: Executor = db) {
+    let { order: localOrder, items } = await this.getOrderWithItems(orderId, executor);
+    const occurredAt = this.eventTime(order.cancelled_at || order.updated_at);
+
+    // Consume stock for newly fulfilled quantities
+    const fulfilled = this.getFulfilledQuantities(order);
+    for (const item of items) {
+      const target = item.channelLineItemId ? fulfilled.get(item.channelLineItemId) || 0 : 0;
+      const newlyFulfilled = target - (item.fulfilledQuantity || 0);
+      if (newlyFulfilled > 0) {
+        await this.consumeFulfilled(localOrder, item, newlyFulfilled, executor);
+      }
+    }
+
+    // Cancelled orders release whatever is still held
+    if (order.cancelled_at) {
+      ({ items } = await this.getOrderWithItems(orderId, executor));
+      for (const item of items) {
+        await this.releaseReserved(item, item.reservedQuantity || 0, executor);
+      }
+    }
+
+    await executor.update(orders)
+      .set({
+        financialStatus: order.financial_status || localOrder.financialStatus,
+        fulfillmentStatus: order.fulfillment_status ?? localOrder.fulfillmentStatus,
+        orderData: order,
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId));
+
+    ({ items } = await this.getOrderWithItems(orderId, executor));
+    const result = await this.transition(orderId, this.deriveStatus(order, items), topic, occurredAt, {
+      financialStatus: order.financial_status,
+      fulfillmentStatus: order.fulfillment_status,
+      cancelReason: order.cancel_reason || undefined,
+    }, null, executor);
+
+    return result;
+  }
+
+  // orders/updated, orders/cancelled, orders/fulfilled, orders/partially_fulfilled
+  async updateFromShopify(order: any, topic: string, shopId: number) {
+    const [existingOrder] = await db.select({ id: orders.id })
+      .from(orders)
+      .where(and(
+        eq(orders.channel, 'shopify'),
+        eq(orders.shopId, shopId),
+        eq(orders.channelOrderId, order.id.toString())
+      ));
+
+    // We missed orders/create; creating the order applies its current state as well
+    if (!existingOrder) {
+      return { ...(await this.createFromShopify(order, shopId)), created: true };
+    }
+
+    const { order: updatedOrder } = await this.applyShopifyOrderState(existingOrder.id, order, topic);
+    return { order: updatedOrder, unmatchedLineItems: 0, duplicate: false, created: false };
+  }
+
+  // refunds/create: restock returned items, release holds on cancelled ones
+  async applyShopifyRefund(refund: any, shopId: number) {
+    const [order] = await db.select()
+      .from(orders)
+      .where(and(
+        eq(orders.channel, 'shopify'),
+        eq(orders.shopId, shopId),
+        eq(orders.channelOrderId, refund.order_id.toString())
+      ));
+
+    if (!order) {
+      throw new Error(`Order ${refund.order_id} not found for refund ${refund.id}`);
+    }
+
+    const refundId = refund.id.toString();
+    const occurredAt = this.eventTime(refund.processed_at || refund.created_at);
+    const details = { refundLineItems: (refund.refund_line_items || []).length, note: refund.note || undefined };
+
+    return await db.transaction(async (tx) => {
+      // Claim the refund before touching stock; a retry finds the claim and stops here
+      const [claimed] = await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: order.status || 'pending',
+        event: 'refunds/create',
+        eventId: refundId,
+        details,
+        occurredAt,
+      })
+        .onConflictDoNothing()
+        .returning({ id: orderStatusHistory.id });
+
+      if (!claimed) {
+        return { order, changed: false, duplicate: true };
+      }
+
+      const { items } = await this.getOrderWithItems(order.id, tx);
+
+      for (const refundLine of refund.refund_line_items || []) {
+        const item = items.find(candidate => candidate.channelLineItemId === refundLine.line_item_id?.toString());
+        if (!item) {
+          continue;
+        }
+
+        const quantity = refundLine.quantity || 0;
+        let remaining = quantity;
+
+        // Refunded units that were never shipped are cancelled, restocked or not: drop their hold.
+        // Returns are of shipped units, whose hold was already used up at fulfillment.
+        if (refundLine.restock_type !== 'return') {
+          remaining -= await this.releaseReserved(item, quantity, tx);
+        }
+
+        // Returned (already shipped) units come back into stock
+        const restock = refundLine.restock_type === 'return' ? quantity : (refundLine.restock_type === 'legacy_restock' ? remaining : 0);
+        if (restock > 0 && item.variantId) {
+          const locationId = item.locationId ?? await this.locationService.getDefaultLocationId();
+          await this.inventoryService.recordMovement(
+            { variantId: item.variantId, channel: 'internal', locationId, delta: restock },
+            {
+              reason: 'restock',
+              source: 'shopify-refund',
+              details: { orderId: order.id, orderNumber: order.orderNumber, refundId, orderItemId: item.id },
+            },
+            tx
+          );
+        }
+
+        await tx.update(orderItems)
+          .set({ refundedQuantity: (item.refundedQuantity || 0) + quantity })
+          .where(eq(orderItems.id, item.id));
+      }
+
+      const refreshed = await this.getOrderWithItems(order.id, tx);
+      const fullyRefunded = refreshed.items.length > 0
+        && refreshed.items.every(item => (item.refundedQuantity || 0) >= item.quantity);
+
+      const result = await this.transition(
+        order.id,
+        fullyRefunded ? 'refunded' : 'partially_refunded',
+        'refunds/create',
+        occurredAt,
+        details,
+        refundId,
+        tx
+      );
+      return { ...result, duplicate: false };
+    });
+  }
+
+  // Save a WooCommerce order, map its line items to variants and reserve internal stock
+  async createFromWooCommerce(order: any) {
+    const existingOrder = await this.findChannelOrder('woocommerce', null, order.id.toString());
+
+    if (existingOrder) {
+      return { order: existingOrder, unmatchedLineItems: 0, duplicate: true };
+    }
+
+    try {
+      // As with Shopify orders, nothing is kept unless the whole order saves
+      return await db.transaction(async (tx) => {
+        const [savedOrder] = await tx.insert(orders).values({
+          orderNumber: (order.number || order.id).toString(),
+          channel: 'woocommerce',
+          channelOrderId: order.id.toString(),
+          customerEmail: order.billing?.email || null,
+          totalAmount: (order.total || '0').toString(),
+          status: 'pending',
+          financialStatus: order.date_paid_gmt ? 'paid' : null,
+          fulfillmentStatus: null,
+          statusChangedAt: new Date(),
+          orderData: order,
+        }).returning();
+
+        await tx.insert(orderStatusHistory).values({
+          orderId: savedOrder.id,
+          fromStatus: null,
+          toStatus: 'pending',
+          event: 'order.created',
+          occurredAt: this.wooEventTime(order.date_created_gmt),
+        });
+
+        const unmatched = [];
+
+        for (const lineItem of order.line_items || []) {
+          const match = await this.resolveWooCommerceLineItem(lineItem, tx);
+          const reservation = match
+            ? await this.resolveReservationLocation(null, order, match.variantId, lineItem.quantity, tx)
+            : null;
+          const price = parseFloat(lineItem.price ?? '0') || 0;
+
+          await tx.insert(orderItems).values({
+            orderId: savedOrder.id,
+            variantId: match?.variantId ?? null,
+            locationId: reservation?.locationId ?? null,
+            channelLineItemId: lineItem.id?.toString() ?? null,
+            channelVariantId: (lineItem.variation_id || lineItem.product_id)?.toString() ?? null,
+            sku: lineItem.sku || null,
+            title: lineItem.name || null,
+            quantity: lineItem.quantity,
+            reservedQuantity: match ? lineItem.quantity : 0,
+            price: price.toString(),
+            totalPrice: (lineItem.total ?? price * lineItem.quantity).toString(),
+          });
+
+          if (match && reservation) {
+            await this.inventoryService.changeReserved(match.variantId, 'internal', reservation.locationId, lineItem.quantity, tx);
+            if (!reservation.sufficient) {
+              await this.logInsufficientStock(tx, savedOrder, lineItem, match.variantId, reservation);
+            }
+          } else {
+            unmatched.push(lineItem);
+
+            // Flag for manual mapping
+            await tx.insert(syncLogs).values({
+              channel: 'woocommerce',
+              operation: 'order-line-mapping',
+              status: 'failed',
+              message: `No variant found for line item "${lineItem.name}" (SKU ${lineItem.sku || 'none'}) on order ${savedOrder.orderNumber}`,
+              details: {
+                orderId: savedOrder.id,
+                wooCommerceOrderId: order.id,
+                lineItemId: lineItem.id,
+                productId: lineItem.product_id,
+                variationId: lineItem.variation_id,
+                sku: lineItem.sku,
+                quantity: lineItem.quantity,
+              },
+            });
+          }
+        }
+
+        await tx.insert(syncLogs).values({
+          channel: 'woocommerce',
+          operation: 'webhook',
+          status: unmatched.length === 0 ? 'success' : 'partial',
+          message: `Received WooCommerce order ${savedOrder.orderNumber}`,
+          details: {
+            orderId: savedOrder.id,
+            wooCommerceOrderId: order.id,
+            unmatchedLineItems: unmatched.length,
+          },
+        });
+
+        // Orders can arrive already completed or cancelled
+        const { order: currentOrder } = await this.applyWooCommerceOrderState(savedOrder.id, order, 'order.created', tx);
+
+        return { order: currentOrder, unmatchedLineItems: unmatched.length, duplicate: false };
+      });
+    } catch (error) {
+      const concurrentOrder = isUniqueViolation(error)
+        ? await this.findChannelOrder('woocommerce', null, order.id.toString())
+        : undefined;
+      if (concurrentOrder) {
+        return { order: concurrentOrder, unmatchedLineItems: 0, duplicate: true };
+      }
+      throw error;
+    }
+  }
+
+  // order.updated
+  async updateFromWooCommerce(order: any, topic: string) {
+    const [existingOrder] = await db.select({ id: orders.id })
+      .from(orders)
+      .where(and(
+        eq(orders.channel, 'woocommerce'),
+        eq(orders.channelOrderId, order.id.toString())
+      ));
+
+    if (!existingOrder) {
+      return { ...(await this.createFromWooCommerce(order)), created: true };
+    }
+
+    const { order: updatedOrder } = await this.applyWooCommerceOrderState(existingOrder.id, order, topic);
+    return { order: updatedOrder, unmatchedLineItems: 0, duplicate: false, created: false };
+  }
+
+  // WooCommerce timestamps ending in _gmt carry no zone designator
+  private wooEventTime(value: any) {
+    return this.eventTime(typeof value === 'string' && !/Z|[+-]\d\d:?\d\d$/.test(value) ? `${value}Z` : value);
+  }
+
+  // WooCommerce has no partial fulfillments: completed ships everything that is left
+  private async applyWooCommerceOrderState(orderId: number, order: any, topic: string, executor: Executor = db) {
+    let { order: localOrder, items } = await this.getOrderWithItems(orderId, executor);
+    const toStatus = WOOCOMMERCE_STATUSES[order.status] ?? 'pending';
+
+    if (toStatus === 'fulfilled') {
+      for (const item of items) {
+        const remaining = item.quantity - (item.refundedQuantity || 0) - (item.fulfilledQuantity || 0);
+        if (remaining > 0) {
+          await this.consumeFulfilled(localOrder, item, remaining, executor);
+        }
+      }
+    }
+
+    if (toStatus === 'cancelled' || toStatus === 'refunded') {
+      for (const item of items) {
+        await this.releaseReserved(item, item.reservedQuantity || 0, executor);
+      }
+    }
+
+    await executor.update(orders)
+      .set({
+        financialStatus: order.date_paid_gmt ? 'paid' : localOrder.financialStatus,
+        fulfillmentStatus: toStatus === 'fulfilled' ? 'fulfilled' : localOrder.fulfillmentStatus,
+        orderData: order,
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId));
+
+    return await this.transition(orderId, toStatus, topic, this.wooEventTime(order.date_modified_gmt), {
+      wooCommerceStatus: order.status,
+    }, null, executor);
+  }
+}
@@ -1,30 +1,579 @@
 import { db } from '../db/connection';
-import { products, productVariants, inventory, channelMappings, syncLogs } from '../db/schema';
+import { products, productColumns, productVariants, productOptions, variantOptionValues, productTags, inventory, channelMappings, syncLogs, orderItems, locations, shops } from '../db/schema';
 import { ShopifyService } from './shopify';
-import { eq, and, or, like, gte, lte, notExists } from 'drizzle-orm';
+import { LocationService } from './location';
+import { ShopService } from './shop';
+import { InventoryService } from './inventory';
+import { ConfigurationService } from './configuration';
+import { ProductOptionService, VariantOptionValue } from './productOption';
+import { ProductTagService, parseTags, uniqueTags } from './productTag';
+import { AttributeService, AttributeChange, attributeFilterConditions } from './attribute';
+import { CategoryService, categorySubtreeIds } from './category';
+import { collectionCondition } from './collection';
+import { VariantInventorySnapshot } from './shopifyGraphql';
+import { SHOPIFY_CHANNEL, INTERNAL_CHANNEL } from '../channels/types';
+import { eq, and, or, like, gte, lte, exists, notExists, ne, isNull, isNotNull, inArray, notInArray, asc, desc, sql, SQL } from 'drizzle-orm';
+import { ValidationError, NotFoundError, ConflictError, isUniqueViolation } from '../utils/errors';
+
+export const PRODUCT_STATUSES = ['active', 'inactive', 'discontinued', 'deleted'];
+
+// Shopify products have at most three options (option1..option3 on variants)
+const SHOPIFY_MAX_OPTIONS = 3;
+
+// One checkpoint per shop: shopify_import_checkpoint:<shopId>
+const shopifyImportCheckpointKey = (shopId: number) => `shopify_import_checkpoint:${shopId}`;
+
+export interface ShopifyImportCheckpoint {
+  status: 'running' | 'completed';
+  updatedAtMin: string | null;
+  startedAt: string;
+  nextPageInfo: string | null;
+  pages: number;
+  imported: number;
+  updated: number;
+  failed: number;
+  lastCompletedAt: string | null;
+  lastCompletedStartedAt: string | null;
+}
+
+// Catalog filters accepted by product listings and feeds
+export interface ProductFilters {
+  search?: string;
+  category?: string;
+  // A category tree node; matches products in it or any of its subcategories
+  categoryId?: number;
+  collectionId?: number;
+  brand?: string;
+  status?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Variant option values by option name (matched case-insensitively), e.g. { Material: 'Wool' }
+  options?: Record<string, string>;
+  // Shorthands for options named Color and Size
+  color?: string;
+  size?: string;
+  // Products with all of these tags (matched case-insensitively)
+  tags?: string[];
+  // Custom attribute values by key, e.g. { material: 'Wool' }; variant attributes match
+  // products with a variant that has the value
+  attributes?: Record<string, string>;
+}
+
+// Option filters as [name, value] pairs, with the color and size shorthands folded in
+export const optionFilters = (filters: ProductFilters) => {
+  const pairs = Object.entries(filters.options || {}).filter(([name, value]) => name && value);
+  const shorthands: [string, string | undefined][] = [['Color', filters.color], ['Size', filters.size]];
+  for (const [name, value] of shorthands) {
+    if (value && !pairs.some(([existing]) => existing.toLowerCase() === name.toLowerCase())) {
+      pairs.push([name, value]);
+    }
+  }
+  return pairs;
+};
+
+// Filters without the option filter on one option name
+const withoutOptionFilter = (filters: ProductFilters, name: string): ProductFilters => ({
+  ...filters,
+  color: undefined,
+  size: undefined,
+  options: Object.fromEntries(optionFilters(filters).filter(([existing]) => existing.toLowerCase() !== name.toLowerCase())),
+});
+
+// Price buckets counted in listing facets; the last one has no upper bound
+export const PRICE_FACET_RANGES: { min: number; max: number | null }[] = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: null },
+];
+
+// Full-text query for a search string against products.search_vector. Every word must match,
+// each as a prefix so partial words and SKUs find results while typing. Null when the string
+// has no searchable words.
+export const productSearchQuery = (search: string): SQL | null => {
+  const words = search.match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return null;
+  }
+  return sql`to_tsquery('english', ${words.map(word => `${word}:*`).join(' & ')})`;
+};
+
+interface ProductSortKey {
+  expression: SQL;
+  // Postgres type the cursor value is cast back to
+  type: string;
+  descending: boolean;
+}
+
+// Sortable listing fields. Nullable columns are coalesced so keyset comparisons never meet NULL.
+const PRODUCT_SORT_FIELDS: Record<string, Omit<ProductSortKey, 'descending'>> = {
+  name: { expression: sql`${products.name}`, type: 'varchar' },
+  price: { expression: sql`coalesce(${products.basePrice}, 0)`, type: 'numeric' },
+  createdAt: { expression: sql`coalesce(${products.createdAt}, 'epoch'::timestamp)`, type: 'timestamp' },
+  updatedAt: { expression: sql`coalesce(${products.updatedAt}, 'epoch'::timestamp)`, type: 'timestamp' },
+};
+
+export const PRODUCT_SORT_OPTIONS = Object.keys(PRODUCT_SORT_FIELDS);
+
+// Parse a sort parameter such as "name" or "-updatedAt,price" (comma-separated, "-" for descending)
+export const parseProductSort = (sort: string) => {
+  return sort.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const descending = part.startsWith('-');
+    const field = descending ? part.slice(1) : part;
+    if (!PRODUCT_SORT_FIELDS[field]) {
+      throw new ValidationError(`sort must be a comma-separated list of: ${PRODUCT_SORT_OPTIONS.join(', ')} (prefix with - for descending)`);
+    }
+    return { field, descending };
+  });
+};
+
+// Listing cursors are opaque to clients: the sort they were issued for and the sort values of
+// the last product on the page, base64url-encoded
+const encodeProductCursor = (sort: string, values: string[]) =>
+  Buffer.from(JSON.stringify({ sort, values })).toString('base64url');
+
+const decodeProductCursor = (cursor: string, sort: string, keyCount: number) => {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('cursor is not valid');
+  }
+  if (!decoded || !Array.isArray(decoded.values) || decoded.values.length !== keyCount
+    || decoded.values.some((value: unknown) => typeof value !== 'string')) {
+    throw new ValidationError('cursor is not valid');
+  }
+  if (decoded.sort !== sort) {
+    throw new ValidationError('cursor was issued for a different sort or search');
+  }
+  return decoded.values as string[];
+};
+
+// Rows that come after the given sort values: (a > x) or (a = x and b > y) or ...
+const afterSortValues = (keys: ProductSortKey[], values: string[]) => {
+  const value = (index: number) => sql`${values[index]}::${sql.raw(keys[index].type)}`;
+  return or(...keys.map((key, index) => and(
+    ...keys.slice(0, index).map((previous, previousIndex) => sql`${previous.expression} = ${value(previousIndex)}`),
+    key.descending ? sql`${key.expression} < ${value(index)}` : sql`${key.expression} > ${value(index)}`
+  ))) as SQL;
+};
+
+// Product-level conditions for a filter set; color and size apply to variants
+export const productFilterConditions = async (filters: ProductFilters) => {
+  const conditions: SQL[] = [];
+
+  if (filters.status) {
+    conditions.push(eq(products.status, filters.status));
+  }
+  if (filters.search) {
+    const query = productSearchQuery(filters.search);
+    if (query) {
+      conditions.push(sql`${products.searchVector} @@ ${query}`);
+    }
+  }
+  if (filters.category) {
+    conditions.push(eq(products.category, filters.category));
+  }
+  if (filters.categoryId !== undefined) {
+    conditions.push(sql`${products.categoryId} in ${categorySubtreeIds(filters.categoryId)}`);
+  }
+  if (filters.collectionId !== undefined) {
+    conditions.push(await collectionCondition(filters.collectionId));
+  }
+  if (filters.brand) {
+    conditions.push(eq(products.brand, filters.brand));
+  }
+  if (filters.minPrice !== undefined) {
+    conditions.push(gte(products.basePrice, filters.minPrice.toString()));
+  }
+  if (filters.maxPrice !== undefined) {
+    conditions.push(lte(products.basePrice, filters.maxPrice.toString()));
+  }
+  for (const tag of filters.tags || []) {
+    conditions.push(exists(
+      db.select({ id: productTags.id })
+        .from(productTags)
+        .where(and(eq(productTags.productId, products.id), sql`lower(${productTags.tag}) = ${tag.toLowerCase()}`))
+    ));
+  }
+  if (filters.attributes) {
+    conditions.push(...await attributeFilterConditions(filters.attributes));
+  }
+
+  return conditions;
+};
+
+// Variant-level conditions for a filter set: the variant has each filtered option value
+export const variantFilterConditions = (filters: ProductFilters) => {
+  return optionFilters(filters).map(([name, value]) => exists(
+    db.select({ id: variantOptionValues.id })
+      .from(variantOptionValues)
+      .innerJoin(productOptions, eq(productOptions.id, variantOptionValues.optionId))
+      .where(and(
+        eq(variantOptionValues.variantId, productVariants.id),
+        sql`lower(${productOptions.name}) = lower(${name})`,
+        eq(variantOptionValues.value, value)
+      ))
+  ));
+};
+
+export interface ProductInput {
+  sku?: string;
+  name?: string;
+  description?: string | null;
+  category?: string | null;
+  categoryId?: number | null;
+  brand?: string | null;
+  basePrice?: number | string | null;
+  status?: string;
+  // Replaces the product's tags
+  tags?: string[];
+  // Custom attribute values by key; null removes one, others are left as they are
+  attributes?: Record<string, unknown>;
+  variants?: VariantInput[];
+}
+
+export interface VariantInput {
+  sku?: string;
+  name?: string | null;
+  // Values by option name; a null value clears the variant's value for that option
+  options?: { name: string; value: string | null }[];
+  // Shorthands for options named Size and Color
+  size?: string | null;
+  color?: string | null;
+  price?: number | string | null;
+  weight?: number | string | null;
+  gtin?: string | null;
+  dimensions?: { length?: number; width?: number; height?: number } | null;
+  attributes?: Record<string, unknown>;
+  images?: string[] | null;
+}
+
+// Validate a string field and return the trimmed value
+const validateString = (
+  errors: string[],
+  field: string,
+  value: any,
+  maxLength: number,
+  required: boolean
+) => {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    if (required) {
+      errors.push(`${field} is required`);
+    }
+    return value === undefined ? undefined : null;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return trimmed;
+};
+
+// Validate a non-negative decimal field and return it as a string for the decimal column
+const validateDecimal = (errors: string[], field: string, value: any) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    errors.push(`${field} must be a non-negative number`);
+    return undefined;
+  }
+  return parsed.toString();
+};
+
+export const validateProductInput = (data: ProductInput, partial: boolean) => {
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('Product data must be an object');
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {
+    // Updates may leave these out, but can't blank them
+    sku: validateString(errors, 'sku', data.sku, 100, !partial || data.sku !== undefined),
+    name: validateString(errors, 'name', data.name, 500, !partial || data.name !== undefined),
+    description: data.description === undefined ? undefined : (data.description ?? null),
+    category: validateString(errors, 'category', data.category, 100, false),
+    categoryId: data.categoryId,
+    brand: validateString(errors, 'brand', data.brand, 100, false),
+    basePrice: validateDecimal(errors, 'basePrice', data.basePrice),
+    status: data.status,
+  };
+
+  if (values.description !== undefined && values.description !== null && typeof values.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (data.categoryId !== undefined && data.categoryId !== null && !Number.isInteger(data.categoryId)) {
+    errors.push('categoryId must be a category ID or null');
+  }
+  if (data.status !== undefined && !PRODUCT_STATUSES.includes(data.status)) {
+    errors.push(`status must be one of: ${PRODUCT_STATUSES.join(', ')}`);
+  }
+  if (data.variants !== undefined && !Array.isArray(data.variants)) {
+    errors.push('variants must be an array');
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+
+  // Drop fields that were not provided so partial updates leave them untouched
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+};
+
+export const validateVariantInput = (data: VariantInput, partial: boolean) => {
+  if (!data || typeof data !== 'object') {
+    throw new ValidationError('Variant data must be an object');
+  }
+
+  const errors: string[] = [];
+  const values: Record<string, any> = {
+    sku: validateString(errors, 'sku', data.sku, 100, !partial || data.sku !== undefined),
+    name: validateString(errors, 'name', data.name, 200, false),
+    price: validateDecimal(errors, 'price', data.price),
+    weight: validateDecimal(errors, 'weight', data.weight),
+    gtin: validateString(errors, 'gtin', data.gtin, 14, false),
+    dimensions: data.dimensions,
+    images: data.images,
+  };
+
+  if (data.dimensions !== undefined && data.dimensions !== null) {
+    if (typeof data.dimensions !== 'object' || Array.isArray(data.dimensions)) {
+      errors.push('dimensions must be an object with length, width and height');
+    } else {
+      for (const key of ['length', 'width', 'height'] as const) {
+        const value = data.dimensions[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          errors.push(`dimensions.${key} must be a non-negative number`);
+        }
+      }
+    }
+  }
+  if (values.gtin && !/^(\d{8}|\d{12,14})$/.test(values.gtin)) {
+    errors.push('gtin must be 8, 12, 13 or 14 digits');
+  }
+  if (data.images !== undefined && data.images !== null) {
+    if (!Array.isArray(data.images) || data.images.some(image => typeof image !== 'string')) {
+      errors.push('images must be an array of URLs');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+};
+
+// Option values of variant input, with the size and color shorthands folded in; empty when none are given
+export const validateVariantOptions = (data: VariantInput) => {
+  const errors: string[] = [];
+  const values: { name: string; value: string | null }[] = [];
+
+  if (data.options !== undefined && data.options !== null) {
+    if (!Array.isArray(data.options)) {
+      errors.push('options must be an array of { name, value }');
+    } else {
+      data.options.forEach((option, index) => {
+        if (!option || typeof option !== 'object') {
+          errors.push(`options[${index}] must be an object with name and value`);
+          return;
+        }
+        const name = validateString(errors, `options[${index}].name`, option.name, 100, true);
+        const value = validateString(errors, `options[${index}].value`, option.value, 255, false);
+        if (name) {
+          if (values.some(existing => existing.name.toLowerCase() === name.toLowerCase())) {
+            errors.push(`options has more than one value for ${name}`);
+          }
+          values.push({ name, value: value ?? null });
+        }
+      });
+    }
+  }
+
+  const shorthands: [string, string, any][] = [['Size', 'size', data.size], ['Color', 'color', data.color]];
+  for (const [name, field, input] of shorthands) {
+    const value = validateString(errors, field, input, 255, false);
+    if (value !== undefined && !values.some(existing => existing.name.toLowerCase() === name.toLowerCase())) {
+      values.push({ name, value });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+
+  return values;
+};
+
+// Tags of product input, deduplicated; undefined when not given
+export const validateProductTags = (data: ProductInput) => {
+  if (data.tags === undefined) {
+    return undefined;
+  }
+
+  const errors: string[] = [];
+  if (data.tags === null || !Array.isArray(data.tags)) {
+    errors.push('tags must be an array of strings');
+  } else {
+    data.tags.forEach((tag, index) => {
+      if (typeof tag !== 'string' || tag.trim() === '') {
+        errors.push(`tags[${index}] must be a non-empty string`);
+      } else if (tag.includes(',')) {
+        // Shopify stores tags as a comma-separated list
+        errors.push(`tags[${index}] must not contain commas`);
+      } else if (tag.trim().length > 255) {
+        errors.push(`tags[${index}] must be at most 255 characters`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors.join('; '), errors);
+  }
+  return uniqueTags((data.tags as string[]).map(tag => tag.trim()));
+};
+
+// Shopify gives products without options a single "Title" option valued "Default Title"
+const isShopifyDefaultOption = (shopifyProduct: any) => {
+  const options = shopifyProduct.options || [];
+  return options.length === 1 && options[0].name === 'Title'
+    && (shopifyProduct.variants || []).every((variant: any) => variant.option1 === 'Default Title');
+};
+
+// Option names of a Shopify product in position order; variants fill option1..option3 in this order
+const shopifyOptionNames = (shopifyProduct: any): string[] => {
+  if (isShopifyDefaultOption(shopifyProduct)) {
+    return [];
+  }
+  return [...(shopifyProduct.options || [])]
+    .sort((a: any, b: any) => (a.position ?? 0) - (b.position ?? 0))
+    .map((option: any) => option.name)
+    .filter(Boolean)
+    .slice(0, SHOPIFY_MAX_OPTIONS);
+};
+
+const shopifyVariantOptions = (names: string[], variant: any): VariantOptionValue[] => names
+  .map((name, index) => ({ name, value: variant[`option${index + 1}`] }))
+  .filter(option => option.value);
+
+// Options and option1..option3 values of a Shopify product payload
+const toShopifyOptions = (options: { name: string }[], variants: { id: number; options: VariantOptionValue[] }[]) => {
+  if (options.length > SHOPIFY_MAX_OPTIONS) {
+    throw new ValidationError(`Shopify products can have at most ${SHOPIFY_MAX_OPTIONS} options; this product has ${options.length}`);
+  }
+
+  return {
+    options: options.map(option => ({ name: option.name })),
+    variantValues: new Map(variants.map(variant => [
+      variant.id,
+      Object.fromEntries(options.map((option, index) => [
+        `option${index + 1}`,
+        variant.options.find(value => value.name === option.name)?.value ?? null,
+      ])),
+    ])),
+  };
+};
 
 export class ProductService {
-  private shopifyService: ShopifyService;
+  private shopService: ShopService;
+  private locationService: LocationService;
+  private inventoryService: InventoryService;
+  private configurationService: ConfigurationService;
+  private productOptionService: ProductOptionService;
+  private categoryService: CategoryService;
+  private productTagService: ProductTagService;
+  private attributeService: AttributeService;
 
   constructor() {
-    this.shopifyService = new ShopifyService();
+    this.shopService = new ShopService();
+    this.locationService = new LocationService();
+    this.inventoryService = new InventoryService();
+    this.configurationService = new ConfigurationService();
+    this.productOptionService = new ProductOptionService();
+    this.categoryService = new CategoryService();
+    this.productTagService = new ProductTagService();
+    this.attributeService = new AttributeService();
+  }
+
+  // Products with their options, tags and attributes, and each variant with its option values
+  // and attributes
+  private async withDetails<P extends { id: number; variants: { id: number }[] }>(list: P[]) {
+    const withOptions = await this.productOptionService.attach(list);
+    return await this.attributeService.attach(await this.productTagService.attach(withOptions));
   }
 
-  async updateProductInShopify(productId: number, productData: any) {
+  // Shop and its Shopify client; the default shop when none is given
+  private async getShopify(shopId?: number) {
+    const shop = await this.shopService.resolve(shopId);
+    return { shop, shopify: this.shopService.getShopifyService(shop) };
+  }
+
+  // Push product changes to every active shop the product is listed in (or just the given one)
+  async updateProductInShopify(productId: number, productData: any, shopId?: number) {
+    const listedIn = await db.selectDistinct({ shopId: channelMappings.shopId })
+      .from(channelMappings)
+      .innerJoin(shops, eq(channelMappings.shopId, shops.id))
+      .where(and(
+        eq(channelMappings.productId, productId),
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(shops.isActive, true),
+        shopId !== undefined ? eq(channelMappings.shopId, shopId) : undefined
+      ));
+
+    if (listedIn.length === 0) {
+      throw new Error('Product not found in Shopify channel mappings');
+    }
+
+    const updated = [];
+    for (const listing of listedIn) {
+      updated.push(await this.updateProductInShop(productId, productData, listing.shopId as number));
+    }
+    return updated;
+  }
+
+  private async updateProductInShop(productId: number, productData: any, shopId: number) {
     try {
-      
+      const { shop, shopify } = await this.getShopify(shopId);
+
       // Get Shopify channel mappings
       const [mapping] = await db.select()
         .from(channelMappings)
         .where(and(
           eq(channelMappings.productId, productId),
-          eq(channelMappings.channel, 'shopify')
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId)
         ));
 
       if (!mapping) {
-        throw new Error('Product not found in Shopify channel mappings');
+        throw new Error(`Product not found in ${shop.domain} channel mappings`);
       }
 
+      // Match each local variant to its own Shopify variant; unmapped ones are created by Shopify
+      const variantMappings = await db.select()
+        .from(channelMappings)
+        .where(and(
+          eq(channelMappings.productId, productId),
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId)
+        ));
+      const shopifyVariantIds = new Map(
+        variantMappings.map(variantMapping => [variantMapping.variantId, variantMapping.channelVariantId])
+      );
+
+      const shopifyOptions = toShopifyOptions(productData.options || [], productData.variants);
+      const tags = (await this.productTagService.getTags([productId])).get(productId) || [];
+
       // Transform data for Shopify update
       const shopifyUpdateData = {
         id: mapping.channelProductId,
@@ -32,18 +581,21 @@ export class ProductService {
         body_html: productData.description,
         vendor: productData.brand,
         product_type: productData.category,
-        tags: [productData.category, productData.brand].filter(Boolean).join(', '),
+        tags: tags.join(', '),
+        ...(shopifyOptions.options.length > 0 && { options: shopifyOptions.options }),
         variants: productData.variants.map((variant: any) => ({
-          id: mapping.channelVariantId || undefined,
+          id: shopifyVariantIds.get(variant.id) || undefined,
           title: variant.name,
           price: variant.price?.toString() || '0',
           sku: variant.sku,
+          barcode: variant.gtin || undefined,
           weight: parseFloat(variant.weight?.toString() || '0'),
+          ...shopifyOptions.variantValues.get(variant.id),
         })),
       };
 
       // Update product in Shopify
-      const updatedShopifyProduct = await this.shopifyService.updateProduct(shopifyUpdateData);
+      const updatedShopifyProduct = await shopify.updateProduct(shopifyUpdateData);
 
       // Update channel mapping data
       await db.update(channelMappings)
@@ -53,29 +605,101 @@ export class ProductService {
         })
         .where(eq(channelMappings.id, mapping.id));
 
+      // Variants to sync metafields for: the mapped ones and those created below
+      const metafieldVariantIds = new Map<number, string>();
+      for (const [variantId, shopifyVariantId] of shopifyVariantIds) {
+        if (variantId && shopifyVariantId) {
+          metafieldVariantIds.set(variantId, shopifyVariantId);
+        }
+      }
+
+      // Map variants that Shopify created during this update (matched by SKU)
+      let shopifyLocationId: number | null = null;
+      for (const variant of productData.variants) {
+        if (!variant.id || shopifyVariantIds.has(variant.id)) {
+          continue;
+        }
+
+        const shopifyVariant = updatedShopifyProduct.variants?.find((v: any) => v.sku === variant.sku);
+        if (!shopifyVariant) {
+          continue;
+        }
+        metafieldVariantIds.set(variant.id, shopifyVariant.id.toString());
+
+        await db.insert(channelMappings).values({
+          productId,
+          variantId: variant.id,
+          channel: SHOPIFY_CHANNEL,
+          shopId,
+          channelProductId: mapping.channelProductId,
+          channelVariantId: shopifyVariant.id.toString(),
+          channelInventoryItemId: shopifyVariant.inventory_item_id?.toString() ?? null,
+          channelData: shopifyVariant,
+          syncStatus: 'synced',
+          lastSyncAt: new Date(),
+        });
+
+        shopifyLocationId = shopifyLocationId ?? await this.locationService.getPrimaryShopifyLocationId(shopId);
+        await this.inventoryService.setLevel({
+          variantId: variant.id,
+          channel: SHOPIFY_CHANNEL,
+          locationId: shopifyLocationId,
+          quantity: 0,
+          channelProductId: mapping.channelProductId,
+        });
+      }
+
+      const metafields = await this.attributeService.pushToShopify(
+        shopify,
+        shopId,
+        productId,
+        mapping.channelProductId as string,
+        metafieldVariantIds
+      );
+
       // Log the update
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId,
         operation: 'update',
         productId: productId,
-        status: 'success',
-        message: `Updated product ${productData.name} in Shopify`,
-        details: { updatedShopifyProduct },
+        status: metafields.failed.length > 0 ? 'partial' : 'success',
+        message: `Updated product ${productData.name} in ${shop.domain}`,
+        details: { updatedShopifyProduct, metafields },
       });
 
       return updatedShopifyProduct;
     } catch (error) {
-      console.error(`Failed to update product ${productId} in Shopify:`, error);
+      console.error(`Failed to update product ${productId} in shop ${shopId}:`, error);
       throw error;
     }
   }
 
-  async deployToShopify(product: any) {
+  async deployToShopify(product: any, shopId?: number) {
+    const { shop, shopify } = await this.getShopify(shopId);
+
     try {
-      // Get product variants
-      const variants = await db.select()
-        .from(productVariants)
-        .where(eq(productVariants.productId, product.id));
+      const [existing] = await db.select({ id: channelMappings.id })
+        .from(channelMappings)
+        .where(and(
+          eq(channelMappings.productId, product.id),
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shop.id)
+        ))
+        .limit(1);
+      if (existing) {
+        throw new ConflictError(`Product ${product.id} is already listed in ${shop.domain}`);
+      }
+
+      // Get product variants with their option values
+      const [{ options, variants }] = await this.productOptionService.attach([{
+        id: product.id,
+        variants: await db.select()
+          .from(productVariants)
+          .where(eq(productVariants.productId, product.id)),
+      }]);
+      const shopifyOptions = toShopifyOptions(options, variants);
+      const tags = (await this.productTagService.getTags([product.id])).get(product.id) || [];
 
       // Transform data for Shopify
       const shopifyProductData = {
@@ -83,13 +707,16 @@ export class ProductService {
         body_html: product.description,
         vendor: product.brand,
         product_type: product.category,
-        tags: [product.category, product.brand].filter(Boolean).join(', '),
+        tags: tags.join(', '),
+        ...(shopifyOptions.options.length > 0 && { options: shopifyOptions.options }),
         variants: variants.map(variant => ({
           title: variant.name,
           price: variant.price?.toString() || '0',
           sku: variant.sku,
+          barcode: variant.gtin || undefined,
           inventory_quantity: 0, // Will be synced separately
           weight: parseFloat(variant.weight?.toString() || '0'),
+          ...shopifyOptions.variantValues.get(variant.id),
         })),
         images: variants
           .filter(v => v.images && Array.isArray(v.images) && v.images.length > 0)
@@ -97,50 +724,66 @@ export class ProductService {
       };
 
       // Create product in Shopify
-      const shopifyProduct = await this.shopifyService.createProduct(shopifyProductData);
+      const shopifyProduct = await shopify.createProduct(shopifyProductData);
+
+      // New Shopify products stock at the primary location until the next inventory sync
+      const shopifyLocationId = await this.locationService.getPrimaryShopifyLocationId(shop.id);
 
       // Create channel mappings for Shopify
+      const shopifyVariantIds = new Map<number, string>();
       for (let i = 0; i < variants.length; i++) {
         const variant = variants[i];
         const shopifyVariant = shopifyProduct.variants[i];
+        shopifyVariantIds.set(variant.id, shopifyVariant.id.toString());
 
         await db.insert(channelMappings).values({
           productId: product.id,
           variantId: variant.id,
-          channel: 'shopify',
+          channel: SHOPIFY_CHANNEL,
+          shopId: shop.id,
           channelProductId: shopifyProduct.id.toString(),
           channelVariantId: shopifyVariant.id.toString(),
+          channelInventoryItemId: shopifyVariant.inventory_item_id?.toString() ?? null,
           channelData: shopifyVariant,
           syncStatus: 'synced',
           lastSyncAt: new Date(),
         });
 
         // Create inventory entry for Shopify
-        await db.insert(inventory).values({
+        await this.inventoryService.setLevel({
           variantId: variant.id,
-          channel: 'shopify',
-          channelProductId: shopifyProduct.id.toString(),
+          channel: SHOPIFY_CHANNEL,
+          locationId: shopifyLocationId,
           quantity: 0,
-          available: 0,
-          lastSyncAt: new Date(),
+          channelProductId: shopifyProduct.id.toString(),
         });
       }
 
+      const metafields = await this.attributeService.pushToShopify(
+        shopify,
+        shop.id,
+        product.id,
+        shopifyProduct.id.toString(),
+        shopifyVariantIds
+      );
+
       // Log the deployment
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'export',
         productId: product.id,
-        status: 'success',
-        message: `Deployed product ${product.name} to Shopify`,
-        details: { shopifyProduct },
+        status: metafields.failed.length > 0 ? 'partial' : 'success',
+        message: `Deployed product ${product.name} to ${shop.domain}`,
+        details: { shopifyProduct, metafields },
       });
 
       return shopifyProduct;
     } catch (error) {
       // Log the error
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'export',
         productId: product.id,
         status: 'failed',
@@ -152,141 +795,564 @@ export class ProductService {
   }
 
   async getById(productId: number) {
-    const [product] = await db.select()
+    const [product] = await db.select(productColumns)
       .from(products)
       .where(eq(products.id, productId));
 
     if (!product) {
-      throw new Error('Product not found');
+      throw new NotFoundError('Product not found');
     }
 
     const variants = await db.select()
       .from(productVariants)
       .where(eq(productVariants.productId, productId));
 
-    return { ...product, variants };
+    const [withDetails] = await this.withDetails([{ ...product, variants }]);
+    return withDetails;
   }
 
-  async getAllProducts(
-    limit = 100, 
-    offset = 0, 
-    includeDeleted = false,
-    filters: {
-      search?: string;
-      category?: string;
-      brand?: string;
-      status?: string;
-      minPrice?: number;
-      maxPrice?: number;
-      color?: string;
-      size?: string;
-    } = {}
-  ) {
+  // Whether the product is listed in a channel (in one shop, when given)
+  async hasChannelMapping(productId: number, channel: string, shopId?: number) {
+    const [mapping] = await db.select({ id: channelMappings.id })
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.productId, productId),
+        eq(channelMappings.channel, channel),
+        shopId !== undefined ? eq(channelMappings.shopId, shopId) : undefined
+      ))
+      .limit(1);
+
+    return !!mapping;
+  }
+
+  private async assertProductSkuAvailable(sku: string, excludeProductId?: number) {
+    const [existing] = await db.select({ id: products.id })
+      .from(products)
+      .where(excludeProductId
+        ? and(eq(products.sku, sku), ne(products.id, excludeProductId))
+        : eq(products.sku, sku));
+
+    if (existing) {
+      throw new ConflictError(`A product with SKU "${sku}" already exists`);
+    }
+  }
+
+  private async assertVariantSkuAvailable(sku: string, excludeVariantId?: number) {
+    const [existing] = await db.select({ id: productVariants.id })
+      .from(productVariants)
+      .where(excludeVariantId
+        ? and(eq(productVariants.sku, sku), ne(productVariants.id, excludeVariantId))
+        : eq(productVariants.sku, sku));
+
+    if (existing) {
+      throw new ConflictError(`A variant with SKU "${sku}" already exists`);
+    }
+  }
+
+  // Push a local edit to Shopify when the product is already mapped there
+  private async syncEditToShopify(productId: number, enabled: boolean) {
+    if (!enabled) {
+      return null;
+    }
+
+    const [mapping] = await db.select({ id: channelMappings.id })
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.productId, productId),
+        eq(channelMappings.channel, SHOPIFY_CHANNEL)
+      ));
+
+    if (!mapping) {
+      return null;
+    }
+
     try {
-      let query:any = db.select().from(products);
-      
-      // Apply status filter
-      if (!includeDeleted) {
-        query = query.where(eq(products.status, 'active'));
-      } else if (filters.status) {
-        query = query.where(eq(products.status, filters.status));
-      }
-      
-      // Apply search filter
-      if (filters.search) {
-        const searchTerm = `%${filters.search}%`;
-        query = query.where(
-          or(
-            like(products.name, searchTerm),
-            like(products.description || '', searchTerm),
-            like(products.sku, searchTerm),
-            like(products.brand || '', searchTerm),
-            like(products.category || '', searchTerm)
-          )
-        );
+      const product = await this.getById(productId);
+      await this.updateProductInShopify(productId, product);
+      return { channel: SHOPIFY_CHANNEL, success: true };
+    } catch (error) {
+      return { channel: SHOPIFY_CHANNEL, success: false, error: (error as Error).message };
+    }
+  }
+
+  async createProduct(data: ProductInput, options: { deployToShopify?: boolean; shopId?: number } = {}) {
+    const values = validateProductInput(data, false);
+    const tags = validateProductTags(data);
+    const attributes = await this.attributeService.validateValues('product', data.attributes, { creating: true });
+    const variantValues = (data.variants || []).map(variant => validateVariantInput(variant, false));
+    const variantOptions = (data.variants || []).map(variant => validateVariantOptions(variant));
+    const variantAttributes: AttributeChange[][] = [];
+    for (const variant of data.variants || []) {
+      variantAttributes.push(await this.attributeService.validateValues('variant', variant.attributes, { creating: true }));
+    }
+
+    const variantSkus = variantValues.map(variant => variant.sku as string);
+    const duplicateSku = variantSkus.find((sku, index) => variantSkus.indexOf(sku) !== index);
+    if (duplicateSku) {
+      throw new ValidationError(`Duplicate variant SKU "${duplicateSku}" in request`);
+    }
+
+    await this.assertProductSkuAvailable(values.sku);
+    if (values.categoryId) {
+      await this.categoryService.assertExists(values.categoryId);
+    }
+    for (const sku of variantSkus) {
+      await this.assertVariantSkuAvailable(sku);
+    }
+
+    const locationId = await this.locationService.getDefaultLocationId();
+
+    let created;
+    try {
+      created = await db.transaction(async (tx) => {
+        const [product] = await tx.insert(products).values({
+          ...(values as typeof products.$inferInsert),
+          status: values.status || 'active',
+        }).returning(productColumns);
+        await this.productTagService.setTags(tx, product.id, tags || []);
+        await this.attributeService.setValues(tx, product.id, attributes);
+
+        const variants = [];
+        for (const [index, variantData] of variantValues.entries()) {
+          const [variant] = await tx.insert(productVariants).values({
+            ...(variantData as typeof productVariants.$inferInsert),
+            productId: product.id,
+          }).returning();
+          await this.productOptionService.setVariantOptions(tx, product.id, variant.id, variantOptions[index]);
+          await this.attributeService.setValues(tx, variant.id, variantAttributes[index]);
+
+          // Every variant starts with an empty internal stock record
+          await tx.insert(inventory).values({
+            variantId: variant.id,
+            channel: INTERNAL_CHANNEL,
+            locationId,
+            quantity: 0,
+            available: 0,
+            reserved: 0,
+            lastSyncAt: new Date(),
+          });
+
+          variants.push(variant);
+        }
+
+        return { ...product, variants };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('A product or variant with this SKU already exists');
       }
-      
-      // Apply category filter
-      if (filters.category) {
-        query = query.where(eq(products.category, filters.category));
+      throw error;
+    }
+    [created] = await this.withDetails([created]);
+
+    let shopifySync = null;
+    if (options.deployToShopify) {
+      try {
+        await this.deployToShopify(created, options.shopId);
+        shopifySync = { channel: SHOPIFY_CHANNEL, success: true };
+      } catch (error) {
+        shopifySync = { channel: SHOPIFY_CHANNEL, success: false, error: (error as Error).message };
       }
-      
-      // Apply brand filter
-      if (filters.brand) {
-        query = query.where(eq(products.brand, filters.brand));
+    }
+
+    return { product: created, shopifySync };
+  }
+
+  async updateProduct(
+    productId: number,
+    data: ProductInput,
+    options: { partial?: boolean; syncToShopify?: boolean } = {}
+  ) {
+    const values = validateProductInput(data, options.partial === true);
+    const tags = validateProductTags(data);
+    if (data.variants !== undefined) {
+      throw new ValidationError('Variants must be changed through the /variants endpoints');
+    }
+    const attributes = await this.attributeService.validateValues('product', data.attributes);
+
+    await this.getById(productId);
+    if (values.sku) {
+      await this.assertProductSkuAvailable(values.sku, productId);
+    }
+    if (values.categoryId) {
+      await this.categoryService.assertExists(values.categoryId);
+    }
+
+    try {
+      await db.transaction(async (tx) => {
+        await tx.update(products)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(products.id, productId));
+        if (tags) {
+          await this.productTagService.setTags(tx, productId, tags);
+        }
+        await this.attributeService.setValues(tx, productId, attributes);
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A product with SKU "${values.sku}" already exists`);
       }
-      
-      // Apply price filters
-      if (filters.minPrice !== undefined) {
-        query = query.where(gte(products.basePrice, filters.minPrice.toString()));
+      throw error;
+    }
+
+    const shopifySync = await this.syncEditToShopify(productId, options.syncToShopify !== false);
+    return { product: await this.getById(productId), shopifySync };
+  }
+
+  // Soft delete, consistent with products removed during Shopify sync
+  async deleteProduct(productId: number) {
+    await this.getById(productId);
+
+    const [product] = await db.update(products)
+      .set({
+        status: 'deleted',
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, productId))
+      .returning(productColumns);
+
+    await db.insert(syncLogs).values({
+      channel: INTERNAL_CHANNEL,
+      operation: 'delete',
+      productId,
+      status: 'success',
+      message: `Product ${product.name} marked as deleted`,
+      details: { productId },
+    });
+
+    return product;
+  }
+
+  async getVariant(productId: number, variantId: number) {
+    const [variant] = await db.select()
+      .from(productVariants)
+      .where(and(
+        eq(productVariants.id, variantId),
+        eq(productVariants.productId, productId)
+      ));
+
+    if (!variant) {
+      throw new NotFoundError('Variant not found');
+    }
+
+    return variant;
+  }
+
+  async createVariant(productId: number, data: VariantInput, options: { syncToShopify?: boolean } = {}) {
+    const values = validateVariantInput(data, false);
+    const optionValues = validateVariantOptions(data);
+    const attributes = await this.attributeService.validateValues('variant', data.attributes, { creating: true });
+
+    await this.getById(productId);
+    await this.assertVariantSkuAvailable(values.sku);
+    const locationId = await this.locationService.getDefaultLocationId();
+
+    let variant;
+    try {
+      variant = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(productVariants).values({
+          ...(values as typeof productVariants.$inferInsert),
+          productId,
+        }).returning();
+        await this.productOptionService.setVariantOptions(tx, productId, created.id, optionValues);
+        await this.attributeService.setValues(tx, created.id, attributes);
+
+        await tx.insert(inventory).values({
+          variantId: created.id,
+          channel: INTERNAL_CHANNEL,
+          locationId,
+          quantity: 0,
+          available: 0,
+          reserved: 0,
+          lastSyncAt: new Date(),
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A variant with SKU "${values.sku}" already exists`);
       }
-      if (filters.maxPrice !== undefined) {
-        query = query.where(lte(products.basePrice, filters.maxPrice.toString()));
+      throw error;
+    }
+
+    const shopifySync = await this.syncEditToShopify(productId, options.syncToShopify !== false);
+    return { variant: await this.withVariantDetails(variant), shopifySync };
+  }
+
+  // A variant with its option values and attributes
+  private async withVariantDetails<V extends { id: number }>(variant: V) {
+    const [optionsByVariant, attributesByVariant] = await Promise.all([
+      this.productOptionService.getVariantOptions([variant.id]),
+      this.attributeService.getValues('variant', [variant.id]),
+    ]);
+    return {
+      ...variant,
+      options: optionsByVariant.get(variant.id) || [],
+      attributes: attributesByVariant.get(variant.id) || {},
+    };
+  }
+
+  async updateVariant(
+    productId: number,
+    variantId: number,
+    data: VariantInput,
+    options: { partial?: boolean; syncToShopify?: boolean } = {}
+  ) {
+    const values = validateVariantInput(data, options.partial === true);
+    const optionValues = validateVariantOptions(data);
+    const attributes = await this.attributeService.validateValues('variant', data.attributes);
+
+    await this.getVariant(productId, variantId);
+    if (values.sku) {
+      await this.assertVariantSkuAvailable(values.sku, variantId);
+    }
+
+    let variant;
+    try {
+      variant = await db.transaction(async (tx) => {
+        const [updated] = await tx.update(productVariants)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(productVariants.id, variantId))
+          .returning();
+        await this.productOptionService.setVariantOptions(tx, productId, variantId, optionValues);
+        await this.attributeService.setValues(tx, variantId, attributes);
+        return updated;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`A variant with SKU "${values.sku}" already exists`);
       }
-      
-      // Get total count for pagination
-      const countQuery = query;
-      const totalProducts = await countQuery;
-      const total = totalProducts.length;
-      
-      // Apply pagination
-      const productList = await query
-        .limit(limit)
-        .offset(offset);
+      throw error;
+    }
 
-      const productsWithVariants = await Promise.all(
-        productList.map(async (product:any) => {
-          let variantsQuery:any = db.select()
-            .from(productVariants)
-            .where(eq(productVariants.productId, product.id));
-          
-          // Apply color filter
-          if (filters.color) {
-            variantsQuery = variantsQuery.where(eq(productVariants.color, filters.color as string));
-          }
-          
-          // Apply size filter
-          if (filters.size) {
-            variantsQuery = variantsQuery.where(eq(productVariants.size, filters.size as string));
-          }
-          
-          const variants = await variantsQuery;
-          return { ...product, variants };
+    const shopifySync = await this.syncEditToShopify(productId, options.syncToShopify !== false);
+    return { variant: await this.withVariantDetails(variant), shopifySync };
+  }
+
+  async deleteVariant(productId: number, variantId: number, options: { syncToShopify?: boolean } = {}) {
+    const variant = await this.getVariant(productId, variantId);
+
+    const [orderItem] = await db.select({ id: orderItems.id })
+      .from(orderItems)
+      .where(eq(orderItems.variantId, variantId))
+      .limit(1);
+
+    if (orderItem) {
+      throw new ConflictError(`Variant ${variant.sku} is referenced by existing orders and cannot be deleted`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.delete(inventory).where(eq(inventory.variantId, variantId));
+      await tx.delete(channelMappings).where(eq(channelMappings.variantId, variantId));
+      await this.productOptionService.clearVariantOptions(tx, productId, variantId);
+      await this.attributeService.clearValues(tx, 'variant', [variantId]);
+      await tx.update(syncLogs)
+        .set({ variantId: null })
+        .where(eq(syncLogs.variantId, variantId));
+      await tx.delete(productVariants).where(eq(productVariants.id, variantId));
+    });
+
+    // Shopify drops variants that are missing from a product update
+    const shopifySync = await this.syncEditToShopify(productId, options.syncToShopify !== false);
+    return { variant, shopifySync };
+  }
+
+  // Products page with variants, total count and facets. Pages are taken either by offset or,
+  // with a cursor from a previous page's pagination.nextCursor, by keyset so walking the catalog
+  // stays stable while rows are added or removed. Sorted by the sort option, by search relevance
+  // when searching, and otherwise by ID; ID always breaks ties.
+  async getAllProducts(
+    limit = 100, 
+    offset = 0, 
+    includeDeleted = false,
+    filters: ProductFilters = {},
+    options: { facets?: boolean; sort?: string; cursor?: string } = {}
+  ) {
+    const searchQuery = filters.search ? productSearchQuery(filters.search) : null;
+    const sort = parseProductSort(options.sort || '');
+    const sortKeys: ProductSortKey[] = [
+      ...(sort.length > 0
+        ? sort.map(({ field, descending }) => ({ ...PRODUCT_SORT_FIELDS[field], descending }))
+        : searchQuery
+          ? [{ expression: sql`ts_rank(${products.searchVector}, ${searchQuery})`, type: 'real', descending: true }]
+          : []),
+      { expression: sql`${products.id}`, type: 'integer', descending: false },
+    ];
+    // Cursors only continue the listing they came from
+    const cursorSort = sort.length > 0
+      ? sort.map(({ field, descending }) => `${descending ? '-' : ''}${field}`).join(',')
+      : searchQuery ? `relevance:${filters.search}` : 'id';
+    const cursorValues = options.cursor ? decodeProductCursor(options.cursor, cursorSort, sortKeys.length) : null;
+
+    try {
+      // Only active products unless deleted ones are asked for, in which case the status filter applies
+      const listingFilters: ProductFilters = includeDeleted
+        ? { ...filters }
+        : { ...filters, status: 'active' };
+      const conditions = await this.listingConditions(listingFilters);
+      const pageConditions = cursorValues ? [...conditions, afterSortValues(sortKeys, cursorValues)] : conditions;
+
+      const [rows, [{ total }], facets] = await Promise.all([
+        // One extra row tells whether there is a next page
+        db.select({
+          product: productColumns,
+          sortValues: sql<string>`json_build_array(${sql.join(sortKeys.map(key => sql`(${key.expression})::text`), sql`, `)})::text`,
         })
-      );
+          .from(products)
+          .where(and(...pageConditions))
+          .orderBy(...sortKeys.map(key => (key.descending ? desc(key.expression) : asc(key.expression))))
+          .limit(limit + 1)
+          .offset(cursorValues ? 0 : offset),
+        db.select({ total: sql<number>`count(*)::int` })
+          .from(products)
+          .where(and(...conditions)),
+        options.facets === false ? Promise.resolve(undefined) : this.getListingFacets(listingFilters),
+      ]);
+
+      const hasNextPage = rows.length > limit;
+      const page = rows.slice(0, limit);
+      const productIds = page.map(row => row.product.id);
+
+      const variants = productIds.length === 0 ? [] : await db.select()
+        .from(productVariants)
+        .where(and(inArray(productVariants.productId, productIds), ...variantFilterConditions(filters)))
+        .orderBy(asc(productVariants.id));
+
+      const productsWithVariants = await this.withDetails(page.map(({ product }) => ({
+        ...product,
+        variants: variants.filter(variant => variant.productId === product.id),
+      })));
 
-      // Filter out products that have no variants after color/size filtering
-      const filteredProducts = productsWithVariants.filter(product => product.variants.length > 0);
-      
-      // Recalculate total for accurate pagination
-      const actualTotal = filteredProducts.length;
-      
       return {
-        products: filteredProducts,
+        products: productsWithVariants,
         pagination: {
-          total: actualTotal,
-          totalPages: Math.ceil(actualTotal / limit),
-          currentPage: Math.floor(offset / limit) + 1,
+          total,
+          totalPages: Math.ceil(total / limit),
+          // Keyset pages have no page number
+          currentPage: cursorValues ? null : Math.floor(offset / limit) + 1,
           limit,
-          offset,
-          hasNextPage: offset + limit < actualTotal,
-          hasPrevPage: offset > 0
-        }
+          offset: cursorValues ? null : offset,
+          hasNextPage,
+          hasPrevPage: cursorValues !== null || offset > 0,
+          nextCursor: hasNextPage
+            ? encodeProductCursor(cursorSort, JSON.parse(page[page.length - 1].sortValues))
+            : null
+        },
+        ...(facets ? { facets } : {})
       };
     } catch (error) {
+      // Bad filters and cursors keep their status; only unexpected failures are wrapped
+      if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
       console.error('Error in getAllProducts:', error);
       throw new Error(`Failed to fetch products: ${(error as Error).message}`);
     }
   }
 
+  // Conditions on products for a listing; option filters keep products that have a matching variant
+  private async listingConditions(filters: ProductFilters) {
+    const conditions = await productFilterConditions(filters);
+    const variantConditions = variantFilterConditions(filters);
+
+    if (variantConditions.length > 0) {
+      conditions.push(exists(
+        db.select({ id: productVariants.id })
+          .from(productVariants)
+          .where(and(eq(productVariants.productId, products.id), ...variantConditions))
+      ));
+    }
+
+    return conditions;
+  }
+
+  // Product counts per category, brand, option value and price range for a listing. Each facet
+  // is counted with every filter except its own, so the other values of a selected facet keep
+  // their counts and can still be picked.
+  private async getListingFacets(filters: ProductFilters) {
+    const toCounts = (rows: { value: string | null; count: number }[]) => rows
+      .filter(row => row.value)
+      .map(row => ({ value: row.value as string, count: row.count }));
+
+    // Values of one filtered option (without its own filter), or of every option that isn't filtered
+    const filteredNames = optionFilters(filters).map(([name]) => name.toLowerCase());
+    const optionValueCounts = async (filteredName?: string) => {
+      const others = filteredName ? withoutOptionFilter(filters, filteredName) : filters;
+      return await db.select({
+        name: productOptions.name,
+        value: variantOptionValues.value,
+        count: sql<number>`count(distinct ${products.id})::int`,
+      })
+        .from(products)
+        .innerJoin(productVariants, eq(productVariants.productId, products.id))
+        .innerJoin(variantOptionValues, eq(variantOptionValues.variantId, productVariants.id))
+        .innerJoin(productOptions, eq(productOptions.id, variantOptionValues.optionId))
+        .where(and(
+          ...(await productFilterConditions(others)),
+          ...variantFilterConditions(others),
+          filteredName
+            ? sql`lower(${productOptions.name}) = ${filteredName}`
+            : filteredNames.length > 0 ? notInArray(sql`lower(${productOptions.name})`, filteredNames) : undefined
+        ))
+        .groupBy(productOptions.name, variantOptionValues.value)
+        .orderBy(desc(sql`count(distinct ${products.id})`), asc(variantOptionValues.value));
+    };
+
+    const optionFacets = async () => {
+      const rows = (await Promise.all([optionValueCounts(), ...filteredNames.map(name => optionValueCounts(name))])).flat();
+      const byName = new Map<string, { value: string; count: number }[]>();
+      for (const row of rows) {
+        byName.set(row.name, [...(byName.get(row.name) || []), { value: row.value, count: row.count }]);
+      }
+      return Array.from(byName, ([name, values]) => ({ name, values }));
+    };
+
+    const productFacet = async (column: typeof products.category | typeof products.brand, omit: 'category' | 'brand') => {
+      return toCounts(await db.select({
+        value: column,
+        count: sql<number>`count(*)::int`,
+      })
+        .from(products)
+        .where(and(...(await this.listingConditions({ ...filters, [omit]: undefined }))))
+        .groupBy(column)
+        .orderBy(desc(sql`count(*)`), asc(column)));
+    };
+
+    const priceRanges = async () => {
+      const bucketCounts: Record<string, SQL<number>> = {};
+      PRICE_FACET_RANGES.forEach((range, index) => {
+        const inRange = range.max === null
+          ? sql`${products.basePrice} >= ${range.min}`
+          : sql`${products.basePrice} >= ${range.min} and ${products.basePrice} < ${range.max}`;
+        bucketCounts[`bucket${index}`] = sql<number>`(count(*) filter (where ${inRange}))::int`;
+      });
+
+      const [row] = await db.select(bucketCounts)
+        .from(products)
+        .where(and(...(await this.listingConditions({ ...filters, minPrice: undefined, maxPrice: undefined }))));
+
+      return PRICE_FACET_RANGES.map((range, index) => ({ ...range, count: row[`bucket${index}`] }));
+    };
+
+    const [categories, brands, options, prices] = await Promise.all([
+      productFacet(products.category, 'category'),
+      productFacet(products.brand, 'brand'),
+      optionFacets(),
+      priceRanges(),
+    ]);
+
+    return { categories, brands, options, priceRanges: prices };
+  }
+
   async getAllProductsIncludingDeleted(limit = 100, offset = 0) {
     try {
       
       // Get total count for pagination
-      const totalProducts = await db.select().from(products);
+      const totalProducts = await db.select({ id: products.id }).from(products);
       const total = totalProducts.length;
       
-      const productList = await db.select()
+      const productList = await db.select(productColumns)
         .from(products)
         .limit(limit)
         .offset(offset);
@@ -322,6 +1388,24 @@ export class ProductService {
   // Ensure internal inventory records exist for all variants
   private async ensureInternalInventoryExists() {
     try {
+      const defaultLocationId = await this.locationService.getDefaultLocationId();
+
+      // Rows from before per-location tracking; Shopify-mapped ones are replaced on the next Shopify sync
+      await db.update(inventory)
+        .set({ locationId: defaultLocationId, updatedAt: new Date() })
+        .where(and(
+          eq(inventory.channel, INTERNAL_CHANNEL),
+          isNull(inventory.locationId),
+          notExists(
+            db.select()
+              .from(channelMappings)
+              .where(and(
+                eq(channelMappings.variantId, inventory.variantId),
+                eq(channelMappings.channel, SHOPIFY_CHANNEL)
+              ))
+          )
+        ));
+
       // Get all variants that don't have internal inventory records
       const variantsWithoutInternal = await db.select({
         variantId: productVariants.id,
@@ -336,7 +1420,7 @@ export class ProductService {
             .from(inventory)
             .where(and(
               eq(inventory.variantId, productVariants.id),
-              eq(inventory.channel, 'internal')
+              eq(inventory.channel, INTERNAL_CHANNEL)
             ))
         )
       );
@@ -346,7 +1430,8 @@ export class ProductService {
         for (const variant of variantsWithoutInternal) {
           await db.insert(inventory).values({
             variantId: variant.variantId,
-            channel: 'internal',
+            channel: INTERNAL_CHANNEL,
+            locationId: defaultLocationId,
             quantity: 0,
             available: 0,
             reserved: 0,
@@ -359,12 +1444,114 @@ export class ProductService {
     }
   }
 
-  // Read-only inventory sync from Shopify (doesn't overwrite Shopify data)
-  async syncInventoryFromShopifyReadOnly() {
+  // Mirror one Shopify stock level onto the shopify and internal channels at the same location
+  private async applyShopifyLevel(
+    variantId: number,
+    channelProductId: string | null,
+    locationId: number,
+    quantity: number,
+    mirrorToInternal = true,
+    source = 'shopify-sync'
+  ) {
+    const context = { reason: 'sync-correction' as const, source };
+
+    await this.inventoryService.setLevel({
+      variantId,
+      channel: SHOPIFY_CHANNEL,
+      locationId,
+      quantity,
+      channelProductId,
+    }, context);
+
+    if (!mirrorToInternal) {
+      return;
+    }
+
+    // Shopify's figure already excludes the units our order reservations hold
+    await this.inventoryService.setAvailable({
+      variantId,
+      channel: INTERNAL_CHANNEL,
+      locationId,
+    }, quantity, context);
+  }
+
+  // Apply a shop's Shopify inventory broken down by Shopify location ID
+  private async applyShopifyInventory(
+    shopId: number,
+    variantId: number,
+    channelProductId: string | null,
+    levels: { locationId: string; quantity: number }[]
+  ) {
+    for (const level of levels) {
+      const locationId = await this.locationService.resolveShopifyLocation(shopId, level.locationId);
+      await this.applyShopifyLevel(variantId, channelProductId, locationId, level.quantity);
+    }
+
+    // Per-location rows supersede totals stored before locations were tracked
+    await this.inventoryService.removeUnlocatedLevels(variantId, SHOPIFY_CHANNEL);
+    await this.inventoryService.removeUnlocatedLevels(variantId, INTERNAL_CHANNEL);
+  }
+
+  // Variant payloads only carry the total across locations, so it can only be applied
+  // when the variant is stocked at a single location; otherwise the inventory sync owns it
+  private async applyShopifyVariantTotal(
+    shopId: number,
+    variantId: number,
+    channelProductId: string | null,
+    quantity: number,
+    mirrorToInternal = true
+  ) {
+    const shopLocationIds = new Set(
+      (await db.select({ id: locations.id }).from(locations).where(eq(locations.shopId, shopId)))
+        .map(location => location.id)
+    );
+    const shopifyLevels = (await this.inventoryService.getLevelsForVariant(variantId, SHOPIFY_CHANNEL))
+      .filter(level => level.locationId !== null && shopLocationIds.has(level.locationId));
+
+    if (shopifyLevels.length > 1) {
+      return false;
+    }
+
+    const locationId = shopifyLevels[0]?.locationId ?? await this.locationService.getPrimaryShopifyLocationId(shopId);
+    await this.applyShopifyLevel(variantId, channelProductId, locationId, quantity, mirrorToInternal);
+    await this.inventoryService.removeUnlocatedLevels(variantId, SHOPIFY_CHANNEL);
+    if (mirrorToInternal) {
+      await this.inventoryService.removeUnlocatedLevels(variantId, INTERNAL_CHANNEL);
+    }
+    return true;
+  }
+
+  // Shopify inventory of every variant in a shop, keyed by Shopify variant ID
+  private async getShopifyInventorySnapshot(shopify: ShopifyService) {
+    const snapshots = await shopify.exportInventoryLevels();
+    return new Map(snapshots.map(snapshot => [snapshot.variantId, snapshot]));
+  }
+
+  // Same result shape as ShopifyService.getProductInventory: null when the variant is gone
+  private findShopifyInventory(snapshot: Map<string, VariantInventorySnapshot>, shopifyProductId: string, shopifyVariantId: string) {
+    const levels = snapshot.get(shopifyVariantId);
+    if (!levels || levels.productId !== shopifyProductId) {
+      return null;
+    }
+
+    return {
+      quantity: levels.quantity,
+      available: levels.quantity,
+      reserved: 0,
+      locations: levels.locations,
+    };
+  }
+
+  // Read-only inventory sync from a shop (doesn't overwrite Shopify data)
+  async syncInventoryFromShopifyReadOnly(shopId?: number) {
     try {
+      const { shop, shopify } = await this.getShopify(shopId);
       
       // Ensure internal inventory records exist
       await this.ensureInternalInventoryExists();
+
+      // Refresh mirrored Shopify locations before reading levels
+      await this.locationService.syncLocationsFromShopify(shop.id);
       
       // Get all products with Shopify mappings
       const productsWithShopify = await db.select({
@@ -378,48 +1565,46 @@ export class ProductService {
       .from(products)
       .innerJoin(productVariants, eq(products.id, productVariants.productId))
       .innerJoin(channelMappings, eq(productVariants.id, channelMappings.variantId))
-      .where(eq(channelMappings.channel, 'shopify'));
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shop.id)
+      ));
 
       let syncedFromShopify = 0;
       let failedFromShopify = 0;
 
+      // Every variant's levels in one bulk export instead of requests per variant
+      const shopifyLevels = await this.getShopifyInventorySnapshot(shopify);
+
       for (const product of productsWithShopify) {
         try {
           if (!product.shopifyProductId || !product.shopifyVariantId) {
             continue;
           }
           // Get current inventory from Shopify
-          const shopifyInventory = await this.shopifyService.getProductInventory(
+          const shopifyInventory = this.findShopifyInventory(
+            shopifyLevels,
             product.shopifyProductId as string,
             product.shopifyVariantId as string
           );
 
           if (shopifyInventory !== null) {
-            // Update local database with Shopify inventory
-            await db.update(inventory)
-              .set({
-                quantity: shopifyInventory.quantity,
-                available: shopifyInventory.available,
-                reserved: shopifyInventory.reserved || 0,
-                lastSyncAt: new Date(),
-              })
-              .where(and(
-                eq(inventory.variantId, product.variantId),
-                eq(inventory.channel, 'shopify')
-              ));
-
-            // Also update internal inventory to match
-            await db.update(inventory)
-              .set({
-                quantity: shopifyInventory.quantity,
-                available: shopifyInventory.available,
-                reserved: shopifyInventory.reserved || 0,
-                lastSyncAt: new Date(),
-              })
-              .where(and(
-                eq(inventory.variantId, product.variantId),
-                eq(inventory.channel, 'internal')
-              ));
+            // Update local shopify and internal inventory at each location
+            if (shopifyInventory.locations.length > 0) {
+              await this.applyShopifyInventory(
+                shop.id,
+                product.variantId,
+                product.shopifyProductId,
+                shopifyInventory.locations
+              );
+            } else {
+              await this.applyShopifyVariantTotal(
+                shop.id,
+                product.variantId,
+                product.shopifyProductId,
+                shopifyInventory.quantity
+              );
+            }
             syncedFromShopify++;
           } else {
             try {
@@ -428,7 +1613,7 @@ export class ProductService {
                 .from(channelMappings)
                 .where(and(
                   eq(channelMappings.productId, product.productId),
-                  eq(channelMappings.channel, 'shopify')
+                  eq(channelMappings.channel, SHOPIFY_CHANNEL)
                 ));
               
               if (remainingShopifyVariants.length === 0) {
@@ -455,6 +1640,7 @@ export class ProductService {
       }
       return {
         success: true,
+        shopId: shop.id,
         syncedFromShopify,
         failedFromShopify,
         total: productsWithShopify.length
@@ -466,131 +1652,119 @@ export class ProductService {
     }
   }
 
-  // Bidirectional inventory sync (can overwrite Shopify data - use with caution)
-  async syncInventoryAcrossChannels() {
+  // Bidirectional inventory sync with a shop (can overwrite Shopify data - use with caution)
+  async syncInventoryAcrossChannels(shopId?: number) {
     try {
+      const { shop, shopify } = await this.getShopify(shopId);
+
       // Ensure internal inventory records exist
       await this.ensureInternalInventoryExists();
       
-      // Step 1: Sync from Shopify to local database
-      const shopifyInventory = await db.select()
+      // Step 1: Sync from Shopify to local database, location by location
+      const shopifyInventory = (await db.select({ inventory })
         .from(inventory)
-        .where(eq(inventory.channel, 'shopify'));
+        .innerJoin(locations, eq(inventory.locationId, locations.id))
+        .where(and(
+          eq(inventory.channel, SHOPIFY_CHANNEL),
+          eq(locations.shopId, shop.id)
+        )))
+        .map(row => row.inventory);
 
       let syncedFromShopify = 0;
       let failedFromShopify = 0;
 
       for (const shopifyItem of shopifyInventory) {
         try {
-          // Get the corresponding internal inventory record
-          const internalInventory = await db.select()
-            .from(inventory)
-            .where(and(
-              eq(inventory.variantId, shopifyItem.variantId as number),
-              eq(inventory.channel, 'internal')
-            ));
-
-          if (internalInventory.length > 0) {
-            const internalItem = internalInventory[0];
-            
-            // Update internal inventory with Shopify data
-            await db.update(inventory)
-              .set({
-                quantity: shopifyItem.quantity,
-                available: shopifyItem.available,
-                reserved: shopifyItem.reserved,
-                lastSyncAt: new Date(),
-              })
-              .where(eq(inventory.id, internalItem.id as number));
-            syncedFromShopify++;
-          } else {
-            console.log(`No internal inventory record found for variant ${shopifyItem.variantId}`);
-          }
+          // Update internal inventory at the same location with Shopify data; step 2 pushes
+          // quantity - reserved back, so the reservations are added to what Shopify reports
+          await this.inventoryService.setAvailable({
+            variantId: shopifyItem.variantId as number,
+            channel: INTERNAL_CHANNEL,
+            locationId: shopifyItem.locationId as number,
+          }, shopifyItem.quantity || 0, { reason: 'sync-correction', source: 'bidirectional-sync' });
+          syncedFromShopify++;
         } catch (error) {
           console.error(`Failed to sync Shopify inventory for variant ${shopifyItem.variantId}:`, error);
           failedFromShopify++;
         }
       }
 
-      // Step 2: Sync from local database to Shopify (existing logic)
-      const internalInventory = await db.select()
+      // Step 2: Sync from local database to Shopify (only locations that exist in Shopify)
+      const internalInventory = await db.select({
+        inventory,
+        location: locations,
+      })
         .from(inventory)
-        .where(eq(inventory.channel, 'internal'));
+        .innerJoin(locations, eq(inventory.locationId, locations.id))
+        .where(and(
+          eq(inventory.channel, INTERNAL_CHANNEL),
+          or(eq(locations.shopId, shop.id), ne(locations.channel, SHOPIFY_CHANNEL))
+        ));
 
       let syncedToShopify = 0;
       let failedToShopify = 0;
       let skippedToShopify = 0;
 
-      for (const item of internalInventory) {
+      // Existence and inventory item IDs for every Shopify variant in one export
+      const shopifyLevels = await this.getShopifyInventorySnapshot(shopify);
+      const pending: {
+        item: typeof inventory.$inferSelect;
+        locationId: number;
+        mapping: typeof channelMappings.$inferSelect;
+        quantity: { inventoryItemId: string; locationId: string; quantity: number };
+      }[] = [];
+
+      for (const { inventory: item, location } of internalInventory) {
         let mapping: any = null;
         
         try {
-          // Get corresponding Shopify inventory
-          const shopifyInventory = await db.select()
-            .from(inventory)
-            .where(and(
-              eq(inventory.variantId, item.variantId as number),
-              eq(inventory.channel, 'shopify')
-            ));
-
-          if (shopifyInventory.length > 0) {
-            const shopifyItem = shopifyInventory[0];
-            
-            // Get Shopify variant mapping
-            const [mappingResult] = await db.select()
-              .from(channelMappings)
-              .where(and(
-                eq(channelMappings.variantId, item.variantId as number),
-                eq(channelMappings.channel, 'shopify')
-              ));
-            
-            mapping = mappingResult;
-
-            if (mapping && mapping.channelVariantId) {
-              // Validate that the Shopify variant still exists before attempting to update
-              const variantExists = await this.shopifyService.validateVariant(mapping.channelVariantId as string);
-              
-              if (!variantExists) {
-                
-                // Mark the mapping as invalid
-                await db.update(channelMappings)
-                  .set({
-                    syncStatus: 'failed',
-                    lastSyncAt: new Date(),
-                  })
-                  .where(eq(channelMappings.id, mapping.id as number));
-                
-                skippedToShopify++;
-                continue;
-              }
-
-              // Update Shopify inventory
-              await this.shopifyService.updateProductInventory(
-                mapping.channelVariantId as string,
-                item.available as number
-              );
+          if (location.channel !== SHOPIFY_CHANNEL || !location.channelLocationId) {
+            // Internal-only warehouse, nothing to push
+            skippedToShopify++;
+            continue;
+          }
 
-              // Update local Shopify inventory record
-              await db.update(inventory)
-                .set({
-                  quantity: item.quantity,
-                  available: item.available,
-                  reserved: item.reserved,
-                  lastSyncAt: new Date(),
-                })
-                .where(eq(inventory.id, shopifyItem.id as number));
+          // Get Shopify variant mapping
+          const [mappingResult] = await db.select()
+            .from(channelMappings)
+            .where(and(
+              eq(channelMappings.variantId, item.variantId as number),
+              eq(channelMappings.channel, SHOPIFY_CHANNEL),
+              eq(channelMappings.shopId, shop.id)
+            ));
+          
+          mapping = mappingResult;
 
-              // Mark the mapping as synced
+          if (mapping && mapping.channelVariantId) {
+            // Validate that the Shopify variant still exists before attempting to update
+            const shopifyVariant = shopifyLevels.get(mapping.channelVariantId as string);
+            
+            if (!shopifyVariant?.inventoryItemId) {
+              
+              // Mark the mapping as invalid
               await db.update(channelMappings)
                 .set({
-                  syncStatus: 'synced',
+                  syncStatus: 'failed',
                   lastSyncAt: new Date(),
                 })
                 .where(eq(channelMappings.id, mapping.id as number));
-              syncedToShopify++;
-            } else {
+              
               skippedToShopify++;
+              continue;
             }
+
+            pending.push({
+              item,
+              locationId: location.id,
+              mapping,
+              quantity: {
+                inventoryItemId: shopifyVariant.inventoryItemId,
+                locationId: location.channelLocationId,
+                quantity: item.available as number,
+              },
+            });
+          } else {
+            skippedToShopify++;
           }
         } catch (error) {
           console.error(`Failed to sync to Shopify for variant ${item.variantId}:`, error);
@@ -609,9 +1783,55 @@ export class ProductService {
         }
       }
 
+      // Push all quantities with batched inventorySetQuantities mutations
+      let pushError: Error | null = null;
+      try {
+        await shopify.setInventoryQuantities(pending.map(entry => entry.quantity));
+      } catch (error) {
+        console.error('Failed to push inventory to Shopify:', error);
+        pushError = error as Error;
+      }
+
+      for (const { item, locationId, mapping, quantity } of pending) {
+        if (pushError) {
+          await db.update(channelMappings)
+            .set({
+              syncStatus: 'failed',
+              lastSyncAt: new Date(),
+            })
+            .where(eq(channelMappings.id, mapping.id));
+          failedToShopify++;
+          continue;
+        }
+
+        try {
+          // Update local Shopify inventory record
+          await this.inventoryService.setLevel({
+            variantId: item.variantId as number,
+            channel: SHOPIFY_CHANNEL,
+            locationId,
+            quantity: quantity.quantity,
+            channelProductId: mapping.channelProductId,
+          }, { reason: 'sync-correction', source: 'bidirectional-sync' });
+
+          // Mark the mapping as synced
+          await db.update(channelMappings)
+            .set({
+              syncStatus: 'synced',
+              lastSyncAt: new Date(),
+            })
+            .where(eq(channelMappings.id, mapping.id));
+          syncedToShopify++;
+        } catch (error) {
+          console.error(`Failed to record Shopify inventory for variant ${item.variantId}:`, error);
+          failedToShopify++;
+        }
+      }
+
       const result = {
         success: true,
         operation: 'bidirectional-sync',
+        shopId: shop.id,
         syncedFromShopify,
         failedFromShopify,
         syncedToShopify,
@@ -626,6 +1846,7 @@ export class ProductService {
       // Log the sync operation
       await db.insert(syncLogs).values({
         channel: 'all',
+        shopId: shop.id,
         operation: 'bidirectional-sync',
         status: result.totalFailed === 0 ? 'success' : 'partial',
         message: `Bidirectional inventory sync completed: ${result.totalSynced} synced, ${result.totalFailed} failed`,
@@ -639,7 +1860,9 @@ export class ProductService {
     }
   }
 
-  async importFromShopify(shopifyProduct: any) {
+  async importFromShopify(shopifyProduct: any, shopId?: number) {
+    const shop = await this.shopService.resolve(shopId);
+
     try {
       // Validate required data before processing
       if (!shopifyProduct || !shopifyProduct.id) {
@@ -656,6 +1879,14 @@ export class ProductService {
         safeSku = `SHOPIFY-${shopifyProduct.id}`;
       }
       
+      // The same product sold in another of our shops: link it instead of creating a duplicate
+      const [catalogProduct] = await db.select(productColumns)
+        .from(products)
+        .where(eq(products.sku, safeSku));
+      if (catalogProduct) {
+        return await this.linkShopifyProduct(catalogProduct, shopifyProduct, shop.id);
+      }
+
       // Ensure we have a valid name
       const productName = shopifyProduct.title?.trim() || `Shopify Product ${shopifyProduct.id}`;
       
@@ -668,113 +1899,53 @@ export class ProductService {
         brand: shopifyProduct.vendor?.trim() || 'Unknown',
         basePrice: shopifyProduct.variants?.[0]?.price?.toString() || '0.00',
         status: 'active',
-      }).returning();
+      }).returning(productColumns);
+      await this.productTagService.setTags(db, product.id, parseTags(shopifyProduct.tags));
+
+      // Options in Shopify's order, so variants' option1..option3 line up with them
+      const optionNames = shopifyOptionNames(shopifyProduct);
+      await this.productOptionService.setProductOptions(db, product.id, optionNames);
 
       // Create variants
       const variants = [];
+      const shopifyVariantIds = new Map<number, string>();
+      let shopifyLocationId: number | null = null;
       for (const variant of shopifyProduct.variants || []) {
         // Validate variant data
         if (!variant.id) {
           continue;
         }
 
-        // Generate safe variant SKU
-        let variantSku = variant.sku;
-        if (!variantSku || variantSku.trim() === '') {
-          variantSku = `${product.sku}-${variant.id}`;
-        }
-
-        // Ensure variant name is valid
-        const variantName = variant.title?.trim() || `Variant ${variant.id}`;
-
-        // Handle images properly - Shopify provides image data in different ways
-        let variantImages: string[] = [];
-        
-        // Check if variant has direct image
-        if (variant.image_id) {
-          variantImages.push(variant.image_id.toString());
-        }
-        // Check if variant has image URL
-        else if (variant.image) {
-          variantImages.push(variant.image);
-        }
-        // Check if product has images
-        else if (shopifyProduct.images && Array.isArray(shopifyProduct.images)) {
-          // Find images that match this variant
-          const matchingImages = shopifyProduct.images.filter((img: any) => {
-            // Some Shopify setups link images to variants via variant_ids
-            if (img.variant_ids && Array.isArray(img.variant_ids)) {
-              return img.variant_ids.includes(variant.id);
-            }
-            // If no variant-specific images, use the first product image
-            return true;
-          });
-          
-          if (matchingImages.length > 0) {
-            variantImages = matchingImages.map((img: any) => img.src || img.id?.toString() || '');
-          }
-        }
-        
-        // If still no images, try to get from Shopify variant data
-        if (variantImages.length === 0 && variant.image) {
-          variantImages.push(variant.image);
-        }
-        
-        const [productVariant] = await db.insert(productVariants).values({
-          productId: product.id,
-          sku: variantSku,
-          name: variantName,
-          size: variant.option1 || 'Standard',
-          color: variant.option2 || 'Default',
-          price: variant.price?.toString() || '0',
-          weight: variant.weight?.toString() || '0',
-          images: variantImages,
-        }).returning();
-
+        shopifyLocationId = shopifyLocationId ?? await this.locationService.getPrimaryShopifyLocationId(shop.id);
+        const productVariant = await this.createShopifyVariant(
+          product,
+          shopifyProduct,
+          variant,
+          optionNames,
+          shop.id,
+          shopifyLocationId
+        );
         variants.push(productVariant);
-
-        // Create inventory entry for Shopify
-        await db.insert(inventory).values({
-          variantId: productVariant.id,
-          channel: 'shopify',
-          channelProductId: shopifyProduct.id.toString(),
-          quantity: variant.inventory_quantity || 0,
-          available: variant.inventory_quantity || 0,
-          lastSyncAt: new Date(),
-        });
-
-        // Create inventory entry for internal channel
-        await db.insert(inventory).values({
-          variantId: productVariant.id,
-          channel: 'internal',
-          channelProductId: null,
-          quantity: variant.inventory_quantity || 0,
-          available: variant.inventory_quantity || 0,
-          reserved: 0,
-          lastSyncAt: new Date(),
-        });
-
-        // Create channel mapping
-        await db.insert(channelMappings).values({
-          productId: product.id,
-          variantId: productVariant.id,
-          channel: 'shopify',
-          channelProductId: shopifyProduct.id.toString(),
-          channelVariantId: variant.id.toString(),
-          channelData: variant,
-          syncStatus: 'synced',
-          lastSyncAt: new Date(),
-        });
+        shopifyVariantIds.set(productVariant.id, variant.id.toString());
       }
 
+      const metafields = await this.attributeService.pullFromShopify(
+        this.shopService.getShopifyService(shop),
+        shop.id,
+        product.id,
+        shopifyProduct.id.toString(),
+        shopifyVariantIds
+      );
+
       // Log the import
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'import',
         productId: product.id,
         status: 'success',
-        message: `Imported product ${product.name} with ${variants.length} variants from Shopify`,
-        details: { shopifyProduct, variants },
+        message: `Imported product ${product.name} with ${variants.length} variants from ${shop.domain}`,
+        details: { shopifyProduct, variants, metafields },
       });
 
       return { ...product, variants };
@@ -783,7 +1954,8 @@ export class ProductService {
       
       // Log the error
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'import',
         status: 'failed',
         message: `Failed to import product: ${(error as Error).message}`,
@@ -793,50 +1965,393 @@ export class ProductService {
     }
   }
 
-  // Import products from Shopify with bulk processing
-  async importFromShopifyBulk(options: { limit?: number; syncDeletions?: boolean } = {}) {
-    try {
-      const limit = options.limit || 50;
-      
-      // Get products from Shopify first
-      const shopifyProducts = await this.shopifyService.getProducts(limit);
-      
-      let importedCount = 0;
-      let failedCount = 0;
-      const errors: string[] = [];
-      
-      for (const product of shopifyProducts) {
-        try {
-          await this.importFromShopify(product);
-          importedCount++;
-        } catch (error) {
-          failedCount++;
-          const errorMsg = `Failed to import ${product.title || product.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-          errors.push(errorMsg);
-          console.error(`${errorMsg}`);
+  // Create a local variant for a Shopify variant, with its options, stock and mapping.
+  // sku overrides the variant's own SKU, e.g. when another product already uses it.
+  private async createShopifyVariant(
+    product: { id: number; sku: string },
+    shopifyProduct: any,
+    variant: any,
+    optionNames: string[],
+    shopId: number,
+    locationId: number,
+    sku?: string
+  ) {
+    // Generate safe variant SKU
+    let variantSku = sku ?? variant.sku;
+    if (!variantSku || variantSku.trim() === '') {
+      variantSku = `${product.sku}-${variant.id}`;
+    }
+
+    // Ensure variant name is valid
+    const variantName = variant.title?.trim() || `Variant ${variant.id}`;
+
+    // Handle images properly - Shopify provides image data in different ways
+    let variantImages: string[] = [];
+    
+    // Check if variant has direct image
+    if (variant.image_id) {
+      variantImages.push(variant.image_id.toString());
+    }
+    // Check if variant has image URL
+    else if (variant.image) {
+      variantImages.push(variant.image);
+    }
+    // Check if product has images
+    else if (shopifyProduct.images && Array.isArray(shopifyProduct.images)) {
+      // Find images that match this variant
+      const matchingImages = shopifyProduct.images.filter((img: any) => {
+        // Some Shopify setups link images to variants via variant_ids
+        if (img.variant_ids && Array.isArray(img.variant_ids)) {
+          return img.variant_ids.includes(variant.id);
         }
-      }
+        // If no variant-specific images, use the first product image
+        return true;
+      });
       
-      return {
-        success: true,
-        importedCount,
-        failedCount,
-        totalProcessed: shopifyProducts.length,
-        errors: errors.length > 0 ? errors : undefined
-      };
+      if (matchingImages.length > 0) {
+        variantImages = matchingImages.map((img: any) => img.src || img.id?.toString() || '');
+      }
+    }
+    
+    // If still no images, try to get from Shopify variant data
+    if (variantImages.length === 0 && variant.image) {
+      variantImages.push(variant.image);
+    }
+    
+    const [productVariant] = await db.insert(productVariants).values({
+      productId: product.id,
+      sku: variantSku,
+      name: variantName,
+      price: variant.price?.toString() || '0',
+      weight: variant.weight?.toString() || '0',
+      gtin: variant.barcode || null,
+      images: variantImages,
+    }).returning();
+    await this.productOptionService.setVariantOptions(
+      db,
+      product.id,
+      productVariant.id,
+      shopifyVariantOptions(optionNames, variant)
+    );
+
+    // Create shopify and internal inventory entries; the product payload only has the
+    // total, so it is booked at the primary location until the next inventory sync
+    await this.applyShopifyLevel(
+      productVariant.id,
+      shopifyProduct.id.toString(),
+      locationId,
+      variant.inventory_quantity || 0
+    );
+
+    // Create channel mapping
+    await db.insert(channelMappings).values({
+      productId: product.id,
+      variantId: productVariant.id,
+      channel: SHOPIFY_CHANNEL,
+      shopId,
+      channelProductId: shopifyProduct.id.toString(),
+      channelVariantId: variant.id.toString(),
+      channelInventoryItemId: variant.inventory_item_id?.toString() ?? null,
+      channelData: variant,
+      syncStatus: 'synced',
+      lastSyncAt: new Date(),
+    });
+
+    return productVariant;
+  }
+
+  // Map a shop's listing onto an existing catalog product, matching variants by SKU
+  private async linkShopifyProduct(product: Omit<typeof products.$inferSelect, 'searchVector'>, shopifyProduct: any, shopId: number) {
+    const catalogVariants = await db.select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, product.id));
+
+    const variants = [];
+    const unmatchedVariants = [];
+    let shopifyLocationId: number | null = null;
+
+    for (const variant of shopifyProduct.variants || []) {
+      const catalogVariant = catalogVariants.find(candidate => variant.sku && candidate.sku === variant.sku);
+      if (!catalogVariant) {
+        unmatchedVariants.push({ id: variant.id, sku: variant.sku, title: variant.title });
+        continue;
+      }
+
+      await db.insert(channelMappings).values({
+        productId: product.id,
+        variantId: catalogVariant.id,
+        channel: SHOPIFY_CHANNEL,
+        shopId,
+        channelProductId: shopifyProduct.id.toString(),
+        channelVariantId: variant.id.toString(),
+        channelInventoryItemId: variant.inventory_item_id?.toString() ?? null,
+        channelData: variant,
+        syncStatus: 'synced',
+        lastSyncAt: new Date(),
+      });
+
+      shopifyLocationId = shopifyLocationId ?? await this.locationService.getPrimaryShopifyLocationId(shopId);
+      await this.applyShopifyLevel(
+        catalogVariant.id,
+        shopifyProduct.id.toString(),
+        shopifyLocationId,
+        variant.inventory_quantity || 0
+      );
+      variants.push(catalogVariant);
+    }
+
+    await db.insert(syncLogs).values({
+      channel: SHOPIFY_CHANNEL,
+      shopId,
+      operation: 'import',
+      productId: product.id,
+      status: unmatchedVariants.length === 0 ? 'success' : 'partial',
+      message: `Linked Shopify product ${shopifyProduct.id} to existing product ${product.name} (${variants.length} variants matched by SKU)`,
+      details: { shopifyProductId: shopifyProduct.id, unmatchedVariants },
+    });
+
+    return { ...product, variants, linked: true };
+  }
+
+  // Walk the whole Shopify catalog page by page, importing new products and updating existing ones.
+  // Progress is checkpointed after every page so an interrupted run picks up where it stopped.
+  // Deletion sync only runs after a complete, unfiltered pass: a partial or incremental run
+  // hasn't seen every product and would otherwise mark the rest as deleted.
+  async importFromShopifyBulk(options: {
+    limit?: number;
+    syncDeletions?: boolean;
+    updatedAtMin?: string;
+    incremental?: boolean;
+    resume?: boolean;
+    maxPages?: number;
+    shopId?: number;
+  } = {}) {
+    const { shop, shopify } = await this.getShopify(options.shopId);
+    const checkpointKey = shopifyImportCheckpointKey(shop.id);
+
+    const pageSize = Math.min(Math.max(options.limit || 250, 1), 250);
+    const syncDeletions = options.syncDeletions !== false;
+    const previous = await this.configurationService.get<ShopifyImportCheckpoint>(checkpointKey);
+
+    let updatedAtMin = options.updatedAtMin;
+    if (updatedAtMin && isNaN(new Date(updatedAtMin).getTime())) {
+      throw new ValidationError(`Invalid updatedAtMin date: ${updatedAtMin}`);
+    }
+    // Incremental runs pick up everything changed since the last completed pass started
+    if (!updatedAtMin && options.incremental) {
+      updatedAtMin = previous?.lastCompletedStartedAt || undefined;
+    }
+
+    const resuming = options.resume !== false
+      && previous?.status === 'running'
+      && !!previous.nextPageInfo
+      && (options.updatedAtMin === undefined || options.updatedAtMin === previous.updatedAtMin);
+
+    const checkpoint: ShopifyImportCheckpoint = resuming ? { ...previous! } : {
+      status: 'running',
+      updatedAtMin: updatedAtMin || null,
+      startedAt: new Date().toISOString(),
+      nextPageInfo: null,
+      pages: 0,
+      imported: 0,
+      updated: 0,
+      failed: 0,
+      lastCompletedAt: previous?.lastCompletedAt || null,
+      lastCompletedStartedAt: previous?.lastCompletedStartedAt || null,
+    };
+    checkpoint.status = 'running';
+
+    const failedProducts: { id: string; title: string; error: string }[] = [];
+    let pagesThisRun = 0;
+
+    try {
+      do {
+        const { products: shopifyProducts, nextPageInfo } = await shopify.getProductsPage({
+          limit: pageSize,
+          pageInfo: checkpoint.nextPageInfo || undefined,
+          updatedAtMin: checkpoint.updatedAtMin || undefined,
+        });
+
+        for (const shopifyProduct of shopifyProducts) {
+          try {
+            const { created } = await this.upsertFromShopify(shopifyProduct, shop.id);
+            if (created) {
+              checkpoint.imported++;
+            } else {
+              checkpoint.updated++;
+            }
+          } catch (error) {
+            checkpoint.failed++;
+            failedProducts.push({
+              id: shopifyProduct.id.toString(),
+              title: shopifyProduct.title,
+              error: (error as Error).message,
+            });
+            console.error(`Failed to import ${shopifyProduct.title || shopifyProduct.id}:`, error);
+          }
+        }
+
+        // Mark every product seen in this pass (including failed ones, which still exist in Shopify)
+        if (shopifyProducts.length > 0) {
+          await db.update(channelMappings)
+            .set({ lastSyncAt: new Date() })
+            .where(and(
+              eq(channelMappings.channel, SHOPIFY_CHANNEL),
+              eq(channelMappings.shopId, shop.id),
+              inArray(channelMappings.channelProductId, shopifyProducts.map(product => product.id.toString()))
+            ));
+        }
+
+        checkpoint.pages++;
+        checkpoint.nextPageInfo = nextPageInfo;
+        pagesThisRun++;
+        await this.configurationService.set(checkpointKey, checkpoint, `Shopify catalog import progress for ${shop.domain}`);
+      } while (checkpoint.nextPageInfo && (!options.maxPages || pagesThisRun < options.maxPages));
     } catch (error) {
+      // Keep the checkpoint so the next run resumes from the last completed page
       console.error('Bulk Shopify import failed:', error);
+      await db.insert(syncLogs).values({
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
+        operation: 'import',
+        status: 'failed',
+        message: `Shopify import from ${shop.domain} stopped after ${checkpoint.pages} pages: ${(error as Error).message}`,
+        details: { checkpoint, error: (error as Error).message },
+      });
       throw error;
     }
+
+    const completed = !checkpoint.nextPageInfo;
+    let deleted = 0;
+
+    if (completed) {
+      const fullPass = !checkpoint.updatedAtMin;
+      if (fullPass && syncDeletions) {
+        deleted = await this.markUnseenShopifyProductsDeleted(shop.id, new Date(checkpoint.startedAt));
+      }
+
+      checkpoint.status = 'completed';
+      checkpoint.lastCompletedAt = new Date().toISOString();
+      checkpoint.lastCompletedStartedAt = checkpoint.startedAt;
+      await this.configurationService.set(checkpointKey, checkpoint, `Shopify catalog import progress for ${shop.domain}`);
+
+      await db.insert(syncLogs).values({
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
+        operation: 'import',
+        status: checkpoint.failed > 0 ? 'partial' : 'success',
+        message: `Shopify import from ${shop.domain} completed: ${checkpoint.imported} imported, ${checkpoint.updated} updated, ${deleted} deleted, ${checkpoint.failed} failed`,
+        details: { checkpoint, deleted, fullPass },
+      });
+    }
+
+    return {
+      success: true,
+      completed,
+      resumed: resuming,
+      incremental: !!checkpoint.updatedAtMin,
+      imported: checkpoint.imported,
+      updated: checkpoint.updated,
+      deleted,
+      failed: checkpoint.failed,
+      total: checkpoint.imported + checkpoint.updated + checkpoint.failed,
+      pages: checkpoint.pages,
+      failedProducts,
+      checkpoint,
+    };
+  }
+
+  async getShopifyImportCheckpoint(shopId?: number) {
+    const shop = await this.shopService.resolve(shopId);
+    return await this.configurationService.get<ShopifyImportCheckpoint>(shopifyImportCheckpointKey(shop.id));
+  }
+
+  // Products whose mappings in this shop were not touched since the pass started no longer exist there
+  private async markUnseenShopifyProductsDeleted(shopId: number, passStartedAt: Date) {
+    const unseen = await db.select({ id: products.id })
+      .from(products)
+      .innerJoin(channelMappings, eq(products.id, channelMappings.productId))
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId),
+        ne(products.status, 'deleted')
+      ))
+      .groupBy(products.id)
+      .having(sql`max(${channelMappings.lastSyncAt}) is null or max(${channelMappings.lastSyncAt}) < ${passStartedAt}`);
+
+    for (const product of unseen) {
+      await this.removeShopifyListing(product.id, shopId);
+    }
+
+    return unseen.length;
+  }
+
+  // A product removed from one shop stays active while other shops still list it
+  private async removeShopifyListing(productId: number, shopId: number) {
+    const [otherShop] = await db.select({ id: channelMappings.id })
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.productId, productId),
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        ne(channelMappings.shopId, shopId)
+      ))
+      .limit(1);
+
+    if (!otherShop) {
+      await this.markProductAsDeleted(productId, shopId);
+      return;
+    }
+
+    const shopLocationIds = (await db.select({ id: locations.id })
+      .from(locations)
+      .where(eq(locations.shopId, shopId)))
+      .map(location => location.id);
+    const variantIds = (await db.select({ id: productVariants.id })
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId)))
+      .map(variant => variant.id);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(channelMappings)
+        .where(and(
+          eq(channelMappings.productId, productId),
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId)
+        ));
+
+      if (shopLocationIds.length > 0 && variantIds.length > 0) {
+        await tx.delete(inventory)
+          .where(and(
+            eq(inventory.channel, SHOPIFY_CHANNEL),
+            inArray(inventory.variantId, variantIds),
+            inArray(inventory.locationId, shopLocationIds)
+          ));
+      }
+    });
+
+    await db.insert(syncLogs).values({
+      channel: SHOPIFY_CHANNEL,
+      shopId,
+      operation: 'delete_sync',
+      productId,
+      status: 'success',
+      message: `Product removed from shop ${shopId}; still listed in other shops`,
+      details: { productId, shopId },
+    });
   }
 
-  async getShopifyProducts() {
+  async getShopifyProducts(shopId?: number) {
     try {
-      // Get all products that have Shopify channel mappings
-      const productsWithMappings = await db.select()
+      const shop = await this.shopService.resolve(shopId);
+
+      // Get all products that have Shopify channel mappings in this shop
+      const productsWithMappings = await db.select({ products: productColumns, channel_mappings: channelMappings })
         .from(products)
         .innerJoin(channelMappings, eq(products.id, channelMappings.productId))
-        .where(eq(channelMappings.channel, 'shopify'));
+        .where(and(
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shop.id)
+        ));
 
       // Group by product and include channel mappings
       const productMap = new Map();
@@ -868,7 +2383,7 @@ export class ProductService {
     }
   }
 
-  async markProductAsDeleted(productId: number) {
+  async markProductAsDeleted(productId: number, shopId?: number) {
     try {
       // Mark product as deleted (inactive)
       await db.update(products)
@@ -880,12 +2395,13 @@ export class ProductService {
 
       // Log the deletion
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shopId ?? null,
         operation: 'delete_sync',
         productId: productId,
         status: 'success',
         message: `Product marked as deleted due to Shopify sync`,
-        details: { productId },
+        details: { productId, shopId },
       });
     } catch (error) {
       console.error(`Failed to mark product ${productId} as deleted:`, error);
@@ -893,7 +2409,7 @@ export class ProductService {
     }
   }
 
-  async updateFromShopify(productId: number, shopifyProduct: any) {
+  async updateFromShopify(productId: number, shopifyProduct: any, shopId: number) {
     try {
       
       // Update main product
@@ -907,17 +2423,29 @@ export class ProductService {
           updatedAt: new Date(),
         })
         .where(eq(products.id, productId))
-        .returning();
+        .returning(productColumns);
+      await this.productTagService.setTags(db, productId, parseTags(shopifyProduct.tags));
+
+      // Shopify's options replace ours, in its order
+      const optionNames = shopifyOptionNames(shopifyProduct);
+      await this.productOptionService.setProductOptions(db, productId, optionNames);
 
       // Update variants
       const variants = [];
+      const shopifyVariantIds = new Map<number, string>();
+      let shopifyLocationId: number | null = null;
       for (const variant of shopifyProduct.variants || []) {
+        if (!variant.id) {
+          continue;
+        }
+
         // Find existing variant by Shopify mapping
         const [mapping] = await db.select()
           .from(channelMappings)
           .where(and(
             eq(channelMappings.productId, productId),
-            eq(channelMappings.channel, 'shopify'),
+            eq(channelMappings.channel, SHOPIFY_CHANNEL),
+            eq(channelMappings.shopId, shopId),
             eq(channelMappings.channelVariantId, variant.id.toString())
           ));
 
@@ -928,40 +2456,139 @@ export class ProductService {
               name: variant.title,
               price: variant.price?.toString() || '0',
               weight: variant.weight?.toString() || '0',
+              gtin: variant.barcode || null,
               updatedAt: new Date(),
             })
             .where(eq(productVariants.id, mapping.variantId as number))
             .returning();
+          await this.productOptionService.setVariantOptions(
+            db,
+            productId,
+            updatedVariant.id,
+            shopifyVariantOptions(optionNames, variant)
+          );
 
           variants.push(updatedVariant);
+          shopifyVariantIds.set(updatedVariant.id, variant.id.toString());
 
           // Update inventory
-          await db.update(inventory)
-            .set({
-              quantity: variant.inventory_quantity || 0,
-              available: variant.inventory_quantity || 0,
-              lastSyncAt: new Date(),
-            })
-            .where(eq(inventory.variantId, mapping.variantId as number));
+          await this.applyShopifyVariantTotal(
+            shopId,
+            mapping.variantId as number,
+            mapping.channelProductId,
+            variant.inventory_quantity || 0
+          );
 
           // Update channel mapping data
           await db.update(channelMappings)
             .set({
+              channelInventoryItemId: variant.inventory_item_id?.toString() ?? mapping.channelInventoryItemId,
               channelData: variant,
               lastSyncAt: new Date(),
             })
             .where(eq(channelMappings.id, mapping.id));
+        } else {
+          // Added in Shopify: link this product's variant with the same SKU, or create one
+          shopifyLocationId = shopifyLocationId ?? await this.locationService.getPrimaryShopifyLocationId(shopId);
+          const [sameSku] = variant.sku?.trim()
+            ? await db.select().from(productVariants).where(eq(productVariants.sku, variant.sku.trim()))
+            : [];
+
+          if (sameSku && sameSku.productId === productId) {
+            await db.insert(channelMappings).values({
+              productId,
+              variantId: sameSku.id,
+              channel: SHOPIFY_CHANNEL,
+              shopId,
+              channelProductId: shopifyProduct.id.toString(),
+              channelVariantId: variant.id.toString(),
+              channelInventoryItemId: variant.inventory_item_id?.toString() ?? null,
+              channelData: variant,
+              syncStatus: 'synced',
+              lastSyncAt: new Date(),
+            });
+            await this.productOptionService.setVariantOptions(
+              db,
+              productId,
+              sameSku.id,
+              shopifyVariantOptions(optionNames, variant)
+            );
+            await this.applyShopifyLevel(
+              sameSku.id,
+              shopifyProduct.id.toString(),
+              shopifyLocationId,
+              variant.inventory_quantity || 0
+            );
+            variants.push(sameSku);
+            shopifyVariantIds.set(sameSku.id, variant.id.toString());
+          } else {
+            // A SKU used by another product can't be reused
+            const created = await this.createShopifyVariant(
+              updatedProduct,
+              shopifyProduct,
+              variant,
+              optionNames,
+              shopId,
+              shopifyLocationId,
+              sameSku ? `${updatedProduct.sku}-${variant.id}` : undefined
+            );
+            variants.push(created);
+            shopifyVariantIds.set(created.id, variant.id.toString());
+          }
+        }
+      }
+
+      // Deleted in Shopify: drop the mapping and the shop's stock rows. The catalog variant stays,
+      // as orders and other channels may still refer to it.
+      const shopifyVariantIdList = (shopifyProduct.variants || [])
+        .filter((variant: any) => variant.id)
+        .map((variant: any) => variant.id.toString());
+      // A payload without variants says nothing about which were deleted
+      const unmapped = shopifyVariantIdList.length === 0 ? [] : await db.delete(channelMappings)
+        .where(and(
+          eq(channelMappings.productId, productId),
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId),
+          notInArray(channelMappings.channelVariantId, shopifyVariantIdList)
+        ))
+        .returning({ variantId: channelMappings.variantId, channelVariantId: channelMappings.channelVariantId });
+
+      const unmappedVariantIds = unmapped
+        .map(mapping => mapping.variantId)
+        .filter((variantId): variantId is number => variantId !== null);
+      if (unmappedVariantIds.length > 0) {
+        const shopLocationIds = (await db.select({ id: locations.id })
+          .from(locations)
+          .where(eq(locations.shopId, shopId)))
+          .map(location => location.id);
+        if (shopLocationIds.length > 0) {
+          await db.delete(inventory)
+            .where(and(
+              eq(inventory.channel, SHOPIFY_CHANNEL),
+              inArray(inventory.variantId, unmappedVariantIds),
+              inArray(inventory.locationId, shopLocationIds)
+            ));
         }
       }
 
+      const { shopify } = await this.getShopify(shopId);
+      const metafields = await this.attributeService.pullFromShopify(
+        shopify,
+        shopId,
+        productId,
+        shopifyProduct.id.toString(),
+        shopifyVariantIds
+      );
+
       // Log the update
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId,
         operation: 'update',
         productId: productId,
         status: 'success',
         message: `Updated product ${updatedProduct.name} from Shopify`,
-        details: { shopifyProduct, variants },
+        details: { shopifyProduct, variants, unmappedVariants: unmapped, metafields },
       });
 
       return { ...updatedProduct, variants };
@@ -971,6 +2598,90 @@ export class ProductService {
     }
   }
 
+  private async findProductIdByShopifyId(shopId: number, shopifyProductId: string) {
+    const [mapping] = await db.select({ productId: channelMappings.productId })
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId),
+        eq(channelMappings.channelProductId, shopifyProductId)
+      ))
+      .limit(1);
+
+    return mapping?.productId ?? null;
+  }
+
+  // products/create and products/update webhooks
+  async upsertFromShopify(shopifyProduct: any, shopId: number) {
+    const productId = await this.findProductIdByShopifyId(shopId, shopifyProduct.id.toString());
+
+    if (productId) {
+      return { product: await this.updateFromShopify(productId, shopifyProduct, shopId), created: false };
+    }
+
+    return { product: await this.importFromShopify(shopifyProduct, shopId), created: true };
+  }
+
+  // products/delete webhook (payload only carries the product ID)
+  async markShopifyProductDeleted(shopifyProductId: string, shopId: number) {
+    const productId = await this.findProductIdByShopifyId(shopId, shopifyProductId);
+
+    if (!productId) {
+      return { productId: null, deleted: false };
+    }
+
+    await this.removeShopifyListing(productId, shopId);
+    return { productId, deleted: true };
+  }
+
+  // inventory_levels/update webhook: update just the affected variant at one location
+  async applyShopifyInventoryLevel(shopId: number, level: { inventory_item_id: number | string; location_id: number | string; available: number | null }) {
+    const inventoryItemId = level.inventory_item_id.toString();
+
+    let [mapping] = await db.select()
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shopId),
+        eq(channelMappings.channelInventoryItemId, inventoryItemId)
+      ))
+      .limit(1);
+
+    // Mappings created before the inventory item ID had its own column
+    if (!mapping) {
+      [mapping] = await db.select()
+        .from(channelMappings)
+        .where(and(
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shopId),
+          sql`${channelMappings.channelData}->>'inventory_item_id' = ${inventoryItemId}`
+        ))
+        .limit(1);
+
+      if (mapping) {
+        await db.update(channelMappings)
+          .set({ channelInventoryItemId: inventoryItemId })
+          .where(eq(channelMappings.id, mapping.id));
+      }
+    }
+
+    if (!mapping?.variantId) {
+      return { matched: false, inventoryItemId };
+    }
+
+    const locationId = await this.locationService.resolveShopifyLocation(shopId, level.location_id.toString());
+    await this.applyShopifyLevel(
+      mapping.variantId,
+      mapping.channelProductId,
+      locationId,
+      level.available || 0,
+      true,
+      'shopify-webhook'
+    );
+
+    return { matched: true, variantId: mapping.variantId, locationId };
+  }
+
   async getDistinctCategories() {
     try {
       const result = await db.select({ category: products.category })
@@ -1012,43 +2723,46 @@ export class ProductService {
     }
   }
 
-  async getDistinctColors() {
+  // Values of one option (by name, case-insensitively) across active products
+  async getDistinctOptionValues(name: string) {
     try {
-      const result = await db.select({ color: productVariants.color })
-        .from(productVariants)
-        .innerJoin(products, eq(productVariants.productId, products.id))
-        .where(eq(products.status, 'active'))
-        .groupBy(productVariants.color);
+      const result = await db.select({ value: variantOptionValues.value })
+        .from(variantOptionValues)
+        .innerJoin(productOptions, eq(productOptions.id, variantOptionValues.optionId))
+        .innerJoin(products, eq(productOptions.productId, products.id))
+        .where(and(
+          eq(products.status, 'active'),
+          sql`lower(${productOptions.name}) = lower(${name})`
+        ))
+        .groupBy(variantOptionValues.value);
       
-      return result.map(r => r.color).filter(Boolean);
+      return result.map(r => r.value).filter(Boolean);
     } catch (error) {
-      console.error('Error in getDistinctColors:', error);
+      console.error('Error in getDistinctOptionValues:', error);
       return [];
     }
   }
 
+  async getDistinctColors() {
+    return await this.getDistinctOptionValues('Color');
+  }
+
   async getDistinctSizes() {
-    try {
-      const result = await db.select({ size: productVariants.size })
-        .from(productVariants)
-        .innerJoin(products, eq(productVariants.productId, products.id))
-        .where(eq(products.status, 'active'))
-        .groupBy(productVariants.size);
-      
-      return result.map(r => r.size).filter(Boolean);
-    } catch (error) {
-      console.error('Error in getDistinctSizes:', error);
-      return [];
-    }
+    return await this.getDistinctOptionValues('Size');
   }
 
-  async syncInventoryFromShopify() {
+  async syncInventoryFromShopify(shopId?: number) {
+    const { shop, shopify } = await this.getShopify(shopId);
+
     try {
       
-      // Get all Shopify channel mappings
+      // Get all Shopify channel mappings of this shop
       const shopifyMappings = await db.select()
         .from(channelMappings)
-        .where(eq(channelMappings.channel, 'shopify'));
+        .where(and(
+          eq(channelMappings.channel, SHOPIFY_CHANNEL),
+          eq(channelMappings.shopId, shop.id)
+        ));
 
       if (shopifyMappings.length === 0) {
         return { synced: 0, total: 0, message: 'No Shopify products found' };
@@ -1058,15 +2772,23 @@ export class ProductService {
       let errorCount = 0;
       const errors: string[] = [];
 
-      // Process each product in batches to avoid overwhelming Shopify API
+      // One bulk export of the catalog instead of a request per product
+      const shopifyCatalog = new Map(
+        (await shopify.exportProducts()).map(product => [product.id.toString(), product])
+      );
+
+      // Process products in batches
       const batchSize = 10;
       for (let i = 0; i < shopifyMappings.length; i += batchSize) {
         const batch = shopifyMappings.slice(i, i + batchSize);
         
         await Promise.all(batch.map(async (mapping) => {
           try {
-            // Get product details from Shopify
-            const shopifyProduct = await this.shopifyService.getProduct(mapping.channelProductId as string);
+            // Get product details from the Shopify export
+            const shopifyProduct = shopifyCatalog.get(mapping.channelProductId as string);
+            if (!shopifyProduct) {
+              throw new Error(`Product ${mapping.channelProductId} not found in Shopify`);
+            }
             
             if (!shopifyProduct || !shopifyProduct.variants) {
               console.warn(`⚠️ No variants found for Shopify product ${mapping.channelProductId}`);
@@ -1079,43 +2801,26 @@ export class ProductService {
               const variantMapping = await db.select()
                 .from(channelMappings)
                 .where(and(
-                  eq(channelMappings.channel, 'shopify'),
+                  eq(channelMappings.channel, SHOPIFY_CHANNEL),
+                  eq(channelMappings.shopId, shop.id),
                   eq(channelMappings.channelVariantId, shopifyVariant.id.toString()),
                   eq(channelMappings.productId, mapping.productId as number)
                 ));
 
               if (variantMapping.length > 0) {
-                // Update or create inventory record
-                const existingInventory = await db.select()
-                  .from(inventory)
-                  .where(and(
-                    eq(inventory.variantId, variantMapping[0].variantId as number),
-                    eq(inventory.channel, 'shopify')
-                  ));
-
-                const inventoryData = {
-                  variantId: variantMapping[0].variantId as number,
-                  channel: 'shopify',
-                  channelProductId: mapping.channelProductId,
-                  quantity: shopifyVariant.inventory_quantity || 0,
-                  available: shopifyVariant.inventory_quantity || 0,
-                  lastSyncAt: new Date(),
-                  channelData: shopifyVariant
-                };
-
-                if (existingInventory.length > 0) {
-                  // Update existing inventory
-                  await db.update(inventory)
-                    .set(inventoryData)
-                    .where(eq(inventory.id, existingInventory[0].id));
-                } else {
-                  // Create new inventory record
-                  await db.insert(inventory).values(inventoryData);
-                }
+                // Update or create inventory records
+                await this.applyShopifyVariantTotal(
+                  shop.id,
+                  variantMapping[0].variantId as number,
+                  mapping.channelProductId,
+                  shopifyVariant.inventory_quantity || 0,
+                  false
+                );
 
                 // Update channel mapping with latest data
                 await db.update(channelMappings)
                   .set({
+                    channelInventoryItemId: shopifyVariant.inventory_item_id?.toString() ?? variantMapping[0].channelInventoryItemId,
                     channelData: shopifyVariant,
                     lastSyncAt: new Date(),
                     syncStatus: 'synced'
@@ -1126,29 +2831,22 @@ export class ProductService {
               }
             }
 
-            // Add small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 100));
-
           } catch (error) {
             errorCount++;
             const errorMsg = `Failed to sync product ${mapping.productId}: ${(error as Error).message}`;
             errors.push(errorMsg);
           }
         }));
-
-        // Add delay between batches to avoid rate limiting
-        if (i + batchSize < shopifyMappings.length) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
       }
 
       // Log the sync operation
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'inventory-sync',
         productId: null,
         status: errorCount === 0 ? 'success' : 'partial',
-        message: `Inventory sync completed. Synced: ${syncedCount}, Errors: ${errorCount}`,
+        message: `Inventory sync from ${shop.domain} completed. Synced: ${syncedCount}, Errors: ${errorCount}`,
         details: { 
           syncedCount, 
           errorCount, 
@@ -1170,11 +2868,12 @@ export class ProductService {
       
       // Log the error
       await db.insert(syncLogs).values({
-        channel: 'shopify',
+        channel: SHOPIFY_CHANNEL,
+        shopId: shop.id,
         operation: 'inventory-sync',
         productId: null,
         status: 'failed',
-        message: `Inventory sync failed: ${(error as Error).message}`,
+        message: `Inventory sync from ${shop.domain} failed: ${(error as Error).message}`,
         details: { error: (error as Error).message },
       });
 
@@ -1183,7 +2882,9 @@ export class ProductService {
   }
 
   // Clean up local data for products/variants that no longer exist on Shopify
-  async cleanupMissingShopifyProducts() {
+  async cleanupMissingShopifyProducts(shopId?: number) {
+    const { shop, shopify } = await this.getShopify(shopId);
+
     try {
       
       // Get all products with Shopify mappings
@@ -1198,43 +2899,75 @@ export class ProductService {
       .from(products)
       .innerJoin(productVariants, eq(products.id, productVariants.productId))
       .innerJoin(channelMappings, eq(productVariants.id, channelMappings.variantId))
-      .where(eq(channelMappings.channel, 'shopify'));
+      .where(and(
+        eq(channelMappings.channel, SHOPIFY_CHANNEL),
+        eq(channelMappings.shopId, shop.id)
+      ));
+
+      const shopLocationIds = (await db.select({ id: locations.id })
+        .from(locations)
+        .where(eq(locations.shopId, shop.id)))
+        .map(location => location.id);
 
       let cleanedUp = 0;
       let errors = 0;
 
+      // Export fails as a whole rather than returning a partial list, so nothing is removed by mistake
+      const shopifyLevels = await this.getShopifyInventorySnapshot(shopify);
+
       for (const product of productsWithShopify) {
         try {
           if (!product.shopifyProductId || !product.shopifyVariantId) {
             continue;
           }
 
-          // Try to fetch the product from Shopify to see if it still exists
-          const shopifyInventory = await this.shopifyService.getProductInventory(
+          // Check whether the variant still exists in Shopify
+          const shopifyInventory = this.findShopifyInventory(
+            shopifyLevels,
             product.shopifyProductId as string,
             product.shopifyVariantId as string
           );
 
           if (shopifyInventory === null) {
             
-            // Delete inventory records for both channels
-            const deletedInventory = await db.delete(inventory)
-              .where(eq(inventory.variantId, product.variantId));
-            
-            // Delete channel mapping for this variant
-            const deletedMapping = await db.delete(channelMappings)
+            // Delete channel mapping for this variant in this shop
+            await db.delete(channelMappings)
               .where(and(
                 eq(channelMappings.variantId, product.variantId),
-                eq(channelMappings.channel, 'shopify')
+                eq(channelMappings.channel, SHOPIFY_CHANNEL),
+                eq(channelMappings.shopId, shop.id)
               ));
-          
+
+            const [listedElsewhere] = await db.select({ id: channelMappings.id })
+              .from(channelMappings)
+              .where(and(
+                eq(channelMappings.variantId, product.variantId),
+                eq(channelMappings.channel, SHOPIFY_CHANNEL)
+              ))
+              .limit(1);
+
+            if (listedElsewhere) {
+              // Only the stock held at this shop's locations goes away
+              if (shopLocationIds.length > 0) {
+                await db.delete(inventory)
+                  .where(and(
+                    eq(inventory.variantId, product.variantId),
+                    eq(inventory.channel, SHOPIFY_CHANNEL),
+                    inArray(inventory.locationId, shopLocationIds)
+                  ));
+              }
+            } else {
+              // Delete inventory records for both channels
+              await db.delete(inventory)
+                .where(eq(inventory.variantId, product.variantId));
+            }
             
             // Check if this was the last Shopify variant for this product
             const remainingShopifyVariants = await db.select()
               .from(channelMappings)
               .where(and(
                 eq(channelMappings.productId, product.productId),
-                eq(channelMappings.channel, 'shopify')
+                eq(channelMappings.channel, SHOPIFY_CHANNEL)
               ));
             
             if (remainingShopifyVariants.length === 0) {
@@ -1249,10 +2982,6 @@ export class ProductService {
             
             cleanedUp++;
           }
-
-          // Add small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 100));
-
         } catch (error) {
           console.error(`Error validating product ${product.productName}:`, error);
           errors++;
@@ -1261,6 +2990,7 @@ export class ProductService {
       
       return {
         success: true,
+        shopId: shop.id,
         cleanedUp,
         errors,
         total: productsWithShopify.length
@@ -0,0 +1,267 @@
+import { Writable } from 'stream';
+import { once } from 'events';
+import { db } from '../db/connection';
+import { products, productColumns, productVariants, productOptions, inventory, channelMappings } from '../db/schema';
+import { ProductFilters, productFilterConditions, variantFilterConditions } from './product';
+import { ProductOptionService } from './productOption';
+import { ProductTagService } from './productTag';
+import { AttributeService } from './attribute';
+import { escapeCsvValue } from '../utils/spreadsheet';
+import { and, gt, inArray, asc, sql, SQL } from 'drizzle-orm';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Products are read this many at a time, so memory use does not grow with the catalog
+const BATCH_SIZE = 200;
+
+// Variant columns of the CSV; the names match the spreadsheet import, so an export can be
+// edited and imported back
+const CSV_COLUMNS: [string, (product: any, variant: any) => any][] = [
+  ['productSku', product => product.sku],
+  ['name', product => product.name],
+  ['description', product => product.description],
+  ['category', product => product.category],
+  ['brand', product => product.brand],
+  ['basePrice', product => product.basePrice],
+  ['status', product => product.status],
+  ['tags', product => (product.tags || []).join(', ')],
+  ['variantSku', (product, variant) => variant?.sku],
+  ['variantName', (product, variant) => variant?.name],
+  ['price', (product, variant) => variant?.price],
+  ['weight', (product, variant) => variant?.weight],
+  ['gtin', (product, variant) => variant?.gtin],
+  ['length', (product, variant) => variant?.dimensions?.length],
+  ['width', (product, variant) => variant?.dimensions?.width],
+  ['height', (product, variant) => variant?.dimensions?.height],
+  ['images', (product, variant) => (Array.isArray(variant?.images) ? variant.images.join('|') : '')],
+];
+
+export class ProductExportService {
+  private productOptionService: ProductOptionService;
+  private productTagService: ProductTagService;
+  private attributeService: AttributeService;
+
+  constructor() {
+    this.productOptionService = new ProductOptionService();
+    this.productTagService = new ProductTagService();
+    this.attributeService = new AttributeService();
+  }
+
+  // Products with their options, tags, attributes and variants, each variant with its option
+  // values, attributes, inventory rows and channel mappings, a batch at a time. Same filter semantics as getAllProducts: only active products unless
+  // includeDeleted is set, in which case the status filter applies.
+  async *getBatches(options: { includeDeleted?: boolean; filters?: ProductFilters } = {}) {
+    const filters: ProductFilters = options.includeDeleted
+      ? { ...options.filters }
+      : { ...options.filters, status: 'active' };
+    const filterConditions = await productFilterConditions(filters);
+    const variantConditions = variantFilterConditions(filters);
+    let lastId = 0;
+
+    while (true) {
+      const conditions: SQL[] = [gt(products.id, lastId), ...filterConditions];
+      const batch = await db.select(productColumns)
+        .from(products)
+        .where(and(...conditions))
+        .orderBy(asc(products.id))
+        .limit(BATCH_SIZE);
+
+      if (batch.length === 0) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+
+      const productIds = batch.map(product => product.id);
+      const variants = await db.select()
+        .from(productVariants)
+        .where(and(inArray(productVariants.productId, productIds), ...variantConditions))
+        .orderBy(asc(productVariants.id));
+      const variantIds = variants.map(variant => variant.id);
+
+      const stock = variantIds.length === 0 ? [] : await db.select({
+        variantId: inventory.variantId,
+        channel: inventory.channel,
+        locationId: inventory.locationId,
+        quantity: inventory.quantity,
+        reserved: inventory.reserved,
+        available: inventory.available,
+      })
+        .from(inventory)
+        .where(inArray(inventory.variantId, variantIds))
+        .orderBy(asc(inventory.id));
+
+      const mappings = await db.select({
+        productId: channelMappings.productId,
+        variantId: channelMappings.variantId,
+        channel: channelMappings.channel,
+        shopId: channelMappings.shopId,
+        channelProductId: channelMappings.channelProductId,
+        channelVariantId: channelMappings.channelVariantId,
+        syncStatus: channelMappings.syncStatus,
+      })
+        .from(channelMappings)
+        .where(inArray(channelMappings.productId, productIds))
+        .orderBy(asc(channelMappings.id));
+
+      const withOptions = await this.productOptionService.attach(batch.map(product => ({
+        ...product,
+        variants: variants.filter(variant => variant.productId === product.id),
+      })));
+      const withDetails = await this.attributeService.attach(await this.productTagService.attach(withOptions));
+
+      yield withDetails
+        .map(product => ({
+          ...product,
+          variants: product.variants.map(variant => ({
+            ...variant,
+            inventory: stock
+              .filter(row => row.variantId === variant.id)
+              .map(({ variantId, ...row }) => row),
+            channelMappings: mappings
+              .filter(mapping => mapping.variantId === variant.id)
+              .map(({ productId, variantId, ...mapping }) => mapping),
+          })),
+        }))
+        // A variant filter leaves out products that have no matching variant
+        .filter(product => variantConditions.length === 0 || product.variants.length > 0);
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  // Most options any product has, for the CSV's option1Name/option1Value... columns
+  private async getMaxOptionCount() {
+    const [row] = await db.select({ count: sql<number>`coalesce(max(${productOptions.position}), 0)::int` })
+      .from(productOptions);
+    return row.count;
+  }
+
+  // Channels that appear in inventory and mappings, for the CSV's per-channel columns
+  private async getChannels() {
+    const [stockChannels, mappingChannels] = await Promise.all([
+      db.selectDistinct({ channel: inventory.channel }).from(inventory).orderBy(asc(inventory.channel)),
+      db.selectDistinct({ channel: channelMappings.channel }).from(channelMappings).orderBy(asc(channelMappings.channel)),
+    ]);
+    return {
+      stock: stockChannels.map(row => row.channel),
+      mappings: mappingChannels.map(row => row.channel),
+    };
+  }
+
+  // Write the export to a stream, waiting on backpressure; stops early if the stream is closed
+  async write(
+    out: Writable,
+    format: ExportFormat,
+    options: { includeDeleted?: boolean; filters?: ProductFilters } = {}
+  ) {
+    let closed = false;
+    out.once('close', () => {
+      closed = true;
+    });
+
+    const write = async (chunk: string) => {
+      if (!out.write(chunk)) {
+        await Promise.race([once(out, 'drain'), once(out, 'close')]);
+      }
+    };
+
+    let productCount = 0;
+    let variantCount = 0;
+
+    if (format === 'csv') {
+      const channels = await this.getChannels();
+      const optionCount = await this.getMaxOptionCount();
+      const header = [
+        ...CSV_COLUMNS.map(([column]) => column),
+        ...Array.from({ length: optionCount }, (_, index) => [`option${index + 1}Name`, `option${index + 1}Value`]).flat(),
+        ...channels.stock.flatMap(channel => [`${channel}Quantity`, `${channel}Available`]),
+        ...channels.mappings.flatMap(channel => [`${channel}ProductId`, `${channel}VariantId`]),
+      ];
+      await write(header.map(escapeCsvValue).join(',') + '\n');
+
+      for await (const batch of this.getBatches(options)) {
+        if (closed) {
+          break;
+        }
+
+        let chunk = '';
+        for (const product of batch) {
+          productCount++;
+          // Products without variants still get a row, with the variant columns empty
+          for (const variant of product.variants.length > 0 ? product.variants : [null]) {
+            const values = CSV_COLUMNS.map(([, value]) => value(product, variant));
+
+            // Option values in the product's option order
+            for (let index = 0; index < optionCount; index++) {
+              const option = product.options[index];
+              values.push(
+                option?.name,
+                option && variant?.options.find(value => value.name === option.name)?.value
+              );
+            }
+
+            for (const channel of channels.stock) {
+              const rows = (variant?.inventory || []).filter(row => row.channel === channel);
+              values.push(
+                rows.length > 0 ? rows.reduce((sum, row) => sum + (row.quantity || 0), 0) : '',
+                rows.length > 0 ? rows.reduce((sum, row) => sum + (row.available || 0), 0) : ''
+              );
+            }
+
+            // Several shops of one channel are joined with "|"
+            for (const channel of channels.mappings) {
+              const channelMappingRows = (variant?.channelMappings || []).filter(mapping => mapping.channel === channel);
+              values.push(
+                Array.from(new Set(channelMappingRows.map(mapping => mapping.channelProductId).filter(Boolean))).join('|'),
+                channelMappingRows.map(mapping => mapping.channelVariantId).filter(Boolean).join('|')
+              );
+            }
+
+            chunk += values.map(value => escapeCsvValue(value === null || value === undefined ? '' : String(value))).join(',') + '\n';
+            if (variant) {
+              variantCount++;
+            }
+          }
+        }
+        await write(chunk);
+      }
+    } else {
+      if (format === 'json') {
+        await write('{"products":[');
+      }
+
+      for await (const batch of this.getBatches(options)) {
+        if (closed) {
+          break;
+        }
+        if (batch.length === 0) {
+          continue;
+        }
+
+        const lines = batch.map(product => JSON.stringify(product));
+        await write(format === 'json'
+          ? (productCount > 0 ? ',' : '') + lines.join(',')
+          : lines.map(line => `${line}\n`).join(''));
+
+        productCount += batch.length;
+        variantCount += batch.reduce((sum, product) => sum + product.variants.length, 0);
+      }
+
+      if (format === 'json') {
+        await write(`],"count":${productCount}}`);
+      }
+    }
+
+    return { products: productCount, variants: variantCount, complete: !closed };
+  }
+}
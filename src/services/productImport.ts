@@ -0,0 +1,513 @@
+import { db } from '../db/connection';
+import { products, productVariants, inventory, productImports, syncLogs } from '../db/schema';
+import { LocationService } from './location';
+import { ProductInput, VariantInput, validateProductInput, validateProductTags, validateVariantInput, validateVariantOptions } from './product';
+import { ProductOptionService } from './productOption';
+import { ProductTagService, parseTags } from './productTag';
+import { INTERNAL_CHANNEL } from '../channels/types';
+import { readSpreadsheet, SpreadsheetFormat } from '../utils/spreadsheet';
+import { eq, desc, inArray } from 'drizzle-orm';
+import { ValidationError, NotFoundError, isUniqueViolation } from '../utils/errors';
+
+// Spreadsheet columns (header names are matched case- and punctuation-insensitively, so
+// "Variant SKU", "variant_sku" and "variantSku" are the same column)
+const PRODUCT_COLUMNS: Record<string, keyof ProductInput> = {
+  productsku: 'sku',
+  parentsku: 'sku',
+  name: 'name',
+  productname: 'name',
+  title: 'name',
+  description: 'description',
+  category: 'category',
+  brand: 'brand',
+  vendor: 'brand',
+  baseprice: 'basePrice',
+  status: 'status',
+  // Comma-separated; replaces the product's tags
+  tags: 'tags',
+};
+
+const VARIANT_COLUMNS: Record<string, keyof VariantInput> = {
+  variantsku: 'sku',
+  sku: 'sku',
+  variantname: 'name',
+  // Shorthands for options named Size and Color
+  size: 'size',
+  color: 'color',
+  colour: 'color',
+  price: 'price',
+  weight: 'weight',
+  gtin: 'gtin',
+  barcode: 'gtin',
+  ean: 'gtin',
+  upc: 'gtin',
+  images: 'images',
+  imageurls: 'images',
+};
+
+const DIMENSION_COLUMNS = ['length', 'width', 'height'] as const;
+
+// Option columns come in pairs: option1Name/option1Value, option2Name/option2Value, ...
+const OPTION_COLUMN = /^option(\d+)(name|value)$/;
+
+// Products are looked up and written this many at a time; progress is reported per chunk
+const CHUNK_SIZE = 100;
+const REPORT_LIMIT = 1000;
+
+export interface ImportRow {
+  line: number;
+  productSku: string;
+  product: ProductInput;
+  variant: VariantInput;
+  errors: string[];
+}
+
+export interface ImportRowError {
+  line: number;
+  productSku: string | null;
+  variantSku: string | null;
+  errors: string[];
+}
+
+export interface ImportSummary {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  productsCreated: number;
+  productsUpdated: number;
+  variantsCreated: number;
+  variantsUpdated: number;
+}
+
+export interface ImportResult {
+  success: boolean;
+  summary: ImportSummary;
+  // Only rows that failed; truncated to the first 1000
+  errors: ImportRowError[];
+}
+
+const validationDetails = (error: unknown) => {
+  if ((error as Error)?.name === 'ValidationError') {
+    const details = (error as ValidationError).details;
+    return Array.isArray(details) ? details : [(error as Error).message];
+  }
+  throw error;
+};
+
+const readNumber = (errors: string[], field: string, value: string) => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    errors.push(`${field} must be a non-negative number`);
+    return undefined;
+  }
+  return parsed;
+};
+
+// Turn one spreadsheet record into product and variant input; blank cells leave fields unchanged
+const toImportRow = (line: number, values: Record<string, string>): ImportRow => {
+  const errors: string[] = [];
+  const product: Record<string, any> = {};
+  const variant: Record<string, any> = {};
+
+  for (const [column, field] of Object.entries(PRODUCT_COLUMNS)) {
+    if (values[column]) {
+      product[field] = values[column];
+    }
+  }
+  for (const [column, field] of Object.entries(VARIANT_COLUMNS)) {
+    if (values[column]) {
+      variant[field] = values[column];
+    }
+  }
+
+  if (variant.images) {
+    variant.images = variant.images.split(/[|,\s]+/).filter(Boolean);
+  }
+  if (product.tags) {
+    product.tags = parseTags(product.tags);
+  }
+
+  const dimensions: Record<string, number | undefined> = {};
+  for (const column of DIMENSION_COLUMNS) {
+    if (values[column]) {
+      dimensions[column] = readNumber(errors, column, values[column]);
+    }
+  }
+  if (Object.keys(dimensions).length > 0) {
+    variant.dimensions = dimensions;
+  }
+
+  const optionColumns = new Map<number, { name?: string; value?: string }>();
+  for (const [column, value] of Object.entries(values)) {
+    const match = column.match(OPTION_COLUMN);
+    if (match && value) {
+      const option = optionColumns.get(Number(match[1])) || {};
+      option[match[2] as 'name' | 'value'] = value;
+      optionColumns.set(Number(match[1]), option);
+    }
+  }
+  const options = Array.from(optionColumns.entries()).sort(([a], [b]) => a - b);
+  for (const [index, option] of options) {
+    if (!option.name) {
+      errors.push(`option${index}Name is required when option${index}Value is set`);
+    }
+  }
+  if (options.length > 0) {
+    variant.options = options
+      .filter(([, option]) => option.name && option.value)
+      .map(([, option]) => ({ name: option.name, value: option.value }));
+  }
+
+  // A row without a product SKU is a single-variant product keyed by the variant SKU
+  product.sku = product.sku || variant.sku;
+  if (!product.sku) {
+    errors.push('productSku or variantSku is required');
+  }
+  if (!variant.sku) {
+    errors.push('variantSku is required');
+  }
+
+  return { line, productSku: product.sku || '', product, variant, errors };
+};
+
+export class ProductImportService {
+  private locationService: LocationService;
+  private productOptionService: ProductOptionService;
+  private productTagService: ProductTagService;
+
+  constructor() {
+    this.locationService = new LocationService();
+    this.productOptionService = new ProductOptionService();
+    this.productTagService = new ProductTagService();
+  }
+
+  parse(buffer: Buffer, format: SpreadsheetFormat) {
+    const { headers, records } = readSpreadsheet(buffer, format);
+
+    const known = [
+      ...Object.keys(PRODUCT_COLUMNS),
+      ...Object.keys(VARIANT_COLUMNS),
+      ...DIMENSION_COLUMNS,
+      'option1name',
+      'option1value',
+    ];
+    if (!headers.some(header => header === 'sku' || header === 'variantsku')) {
+      throw new ValidationError('The header row must include a variantSku (or sku) column', {
+        headers,
+        expected: known,
+      });
+    }
+
+    return records.map(record => toImportRow(record.line, record.values));
+  }
+
+  // Validate and upsert rows by SKU. Rows of one product are written together; a product-level
+  // error fails all of its rows, a variant-level error only its own.
+  async process(rows: ImportRow[], options: { dryRun?: boolean; onProgress?: (processed: number) => Promise<void> | void } = {}): Promise<ImportResult> {
+    const dryRun = options.dryRun === true;
+    const summary: ImportSummary = {
+      dryRun,
+      totalRows: rows.length,
+      validRows: 0,
+      invalidRows: 0,
+      productsCreated: 0,
+      productsUpdated: 0,
+      variantsCreated: 0,
+      variantsUpdated: 0,
+    };
+    const errors: ImportRowError[] = [];
+
+    const fail = (row: ImportRow, rowErrors: string[]) => {
+      summary.invalidRows++;
+      if (errors.length < REPORT_LIMIT) {
+        errors.push({ line: row.line, productSku: row.productSku || null, variantSku: row.variant.sku || null, errors: rowErrors });
+      }
+    };
+
+    // A variant SKU may appear only once in the file
+    const firstLine = new Map<string, number>();
+    for (const row of rows) {
+      const sku = row.variant.sku;
+      if (!sku) {
+        continue;
+      }
+      if (firstLine.has(sku)) {
+        row.errors.push(`variantSku ${sku} is repeated (first on row ${firstLine.get(sku)})`);
+      } else {
+        firstLine.set(sku, row.line);
+      }
+    }
+
+    const groups = new Map<string, ImportRow[]>();
+    for (const row of rows) {
+      if (row.errors.length > 0) {
+        fail(row, row.errors);
+        continue;
+      }
+      const group = groups.get(row.productSku) || [];
+      group.push(row);
+      groups.set(row.productSku, group);
+    }
+
+    const locationId = dryRun ? null : await this.locationService.getDefaultLocationId();
+    const productSkus = Array.from(groups.keys());
+    let processed = summary.invalidRows;
+
+    for (let i = 0; i < productSkus.length; i += CHUNK_SIZE) {
+      const chunkSkus = productSkus.slice(i, i + CHUNK_SIZE);
+      const chunkRows = chunkSkus.flatMap(sku => groups.get(sku)!);
+
+      const existingProducts = await db.select({ id: products.id, sku: products.sku })
+        .from(products)
+        .where(inArray(products.sku, chunkSkus));
+      const existingVariants = await db.select({ id: productVariants.id, sku: productVariants.sku, productId: productVariants.productId })
+        .from(productVariants)
+        .where(inArray(productVariants.sku, chunkRows.map(row => row.variant.sku as string)));
+
+      const productBySku = new Map(existingProducts.map(product => [product.sku, product]));
+      const variantBySku = new Map(existingVariants.map(variant => [variant.sku, variant]));
+
+      for (const sku of chunkSkus) {
+        const groupRows = groups.get(sku)!;
+        const existingProduct = productBySku.get(sku);
+
+        // Product fields come from the first row that sets each one
+        const productData: ProductInput = { sku };
+        for (const row of groupRows) {
+          for (const [field, value] of Object.entries(row.product)) {
+            if ((productData as any)[field] === undefined) {
+              (productData as any)[field] = value;
+            }
+          }
+        }
+
+        let productValues: Record<string, any>;
+        let productTags: string[] | undefined;
+        try {
+          productValues = validateProductInput(productData, !!existingProduct);
+          productTags = validateProductTags(productData);
+        } catch (error) {
+          const details = validationDetails(error);
+          groupRows.forEach(row => fail(row, details));
+          continue;
+        }
+
+        const validRows: {
+          row: ImportRow;
+          values: Record<string, any>;
+          options: ReturnType<typeof validateVariantOptions>;
+          existingId: number | null;
+        }[] = [];
+        for (const row of groupRows) {
+          const existingVariant = variantBySku.get(row.variant.sku as string);
+          if (existingVariant && existingVariant.productId !== existingProduct?.id) {
+            fail(row, [`variantSku ${row.variant.sku} belongs to another product`]);
+            continue;
+          }
+
+          try {
+            validRows.push({
+              row,
+              values: validateVariantInput(row.variant, !!existingVariant),
+              options: validateVariantOptions(row.variant),
+              existingId: existingVariant?.id ?? null,
+            });
+          } catch (error) {
+            fail(row, validationDetails(error));
+          }
+        }
+
+        if (validRows.length === 0) {
+          continue;
+        }
+
+        if (!dryRun) {
+          try {
+            await db.transaction(async (tx) => {
+              let productId: number;
+              if (existingProduct) {
+                productId = existingProduct.id;
+                await tx.update(products)
+                  .set({ ...productValues, updatedAt: new Date() })
+                  .where(eq(products.id, productId));
+              } else {
+                const [created] = await tx.insert(products).values({
+                  ...(productValues as typeof products.$inferInsert),
+                  status: productValues.status || 'active',
+                }).returning({ id: products.id });
+                productId = created.id;
+              }
+              if (productTags) {
+                await this.productTagService.setTags(tx, productId, productTags);
+              }
+
+              for (const { values, options, existingId } of validRows) {
+                if (existingId) {
+                  await tx.update(productVariants)
+                    .set({ ...values, updatedAt: new Date() })
+                    .where(eq(productVariants.id, existingId));
+                  await this.productOptionService.setVariantOptions(tx, productId, existingId, options);
+                  continue;
+                }
+
+                const [variant] = await tx.insert(productVariants).values({
+                  ...(values as typeof productVariants.$inferInsert),
+                  productId,
+                }).returning();
+                await this.productOptionService.setVariantOptions(tx, productId, variant.id, options);
+
+                // Every variant starts with an empty internal stock record
+                await tx.insert(inventory).values({
+                  variantId: variant.id,
+                  channel: INTERNAL_CHANNEL,
+                  locationId,
+                  quantity: 0,
+                  available: 0,
+                  reserved: 0,
+                  lastSyncAt: new Date(),
+                });
+              }
+            });
+          } catch (error) {
+            const message = isUniqueViolation(error)
+              ? 'A product or variant with this SKU was created concurrently'
+              : (error as Error).message;
+            validRows.forEach(({ row }) => fail(row, [message]));
+            continue;
+          }
+        }
+
+        summary.validRows += validRows.length;
+        existingProduct ? summary.productsUpdated++ : summary.productsCreated++;
+        for (const { existingId } of validRows) {
+          existingId ? summary.variantsUpdated++ : summary.variantsCreated++;
+        }
+      }
+
+      processed += chunkRows.length;
+      await options.onProgress?.(processed);
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return { success: summary.invalidRows === 0, summary, errors };
+  }
+
+  // Import parsed rows right away; used for files small enough to answer synchronously
+  async importRows(rows: ImportRow[], format: SpreadsheetFormat, options: { dryRun?: boolean; filename?: string } = {}) {
+    const result = await this.process(rows, { dryRun: options.dryRun });
+
+    if (!options.dryRun) {
+      await this.logImport(result, format, options.filename);
+    }
+    return result;
+  }
+
+  // Record parsed rows for background processing
+  async createImport(rows: ImportRow[], format: SpreadsheetFormat, options: { dryRun?: boolean; filename?: string } = {}) {
+    const [created] = await db.insert(productImports).values({
+      filename: options.filename || null,
+      format,
+      dryRun: options.dryRun === true,
+      status: 'pending',
+      totalRows: rows.length,
+      rows,
+    }).returning();
+
+    return this.toPublic(created);
+  }
+
+  // Process a stored import, recording progress as it goes
+  async run(importId: number, onProgress?: (percent: number) => Promise<void> | void) {
+    const record = await this.getRecord(importId);
+    if (record.status === 'completed') {
+      return this.toPublic(record);
+    }
+
+    await db.update(productImports)
+      .set({ status: 'running', processedRows: 0, startedAt: new Date(), updatedAt: new Date() })
+      .where(eq(productImports.id, importId));
+
+    try {
+      const rows = (record.rows || []) as ImportRow[];
+      const result = await this.process(rows, {
+        dryRun: record.dryRun === true,
+        onProgress: async (processed) => {
+          await db.update(productImports)
+            .set({ processedRows: processed, updatedAt: new Date() })
+            .where(eq(productImports.id, importId));
+          await onProgress?.(rows.length > 0 ? Math.round((processed / rows.length) * 100) : 100);
+        },
+      });
+
+      const [completed] = await db.update(productImports)
+        .set({
+          status: 'completed',
+          processedRows: rows.length,
+          rows: null,
+          summary: result.summary,
+          report: result.errors,
+          lastError: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(productImports.id, importId))
+        .returning();
+
+      if (!record.dryRun) {
+        await this.logImport(result, record.format as SpreadsheetFormat, record.filename, importId);
+      }
+      return this.toPublic(completed);
+    } catch (error) {
+      await db.update(productImports)
+        .set({ status: 'failed', lastError: (error as Error).message, updatedAt: new Date() })
+        .where(eq(productImports.id, importId));
+      throw error;
+    }
+  }
+
+  private async logImport(result: ImportResult, format: SpreadsheetFormat, filename?: string | null, importId?: number) {
+    const { summary } = result;
+    await db.insert(syncLogs).values({
+      channel: INTERNAL_CHANNEL,
+      operation: 'spreadsheet-import',
+      status: summary.invalidRows === 0 ? 'success' : (summary.validRows > 0 ? 'partial' : 'failed'),
+      message: `Imported ${summary.validRows} of ${summary.totalRows} rows from ${filename || format}: `
+        + `${summary.productsCreated} products created, ${summary.productsUpdated} updated`,
+      details: { importId, format, filename, ...summary, errors: result.errors.slice(0, 20) },
+    });
+  }
+
+  private async getRecord(importId: number) {
+    const [record] = await db.select()
+      .from(productImports)
+      .where(eq(productImports.id, importId));
+
+    if (!record) {
+      throw new NotFoundError(`Product import ${importId} not found`);
+    }
+    return record;
+  }
+
+  // Status and report without the stored rows
+  private toPublic(record: typeof productImports.$inferSelect) {
+    const { rows, ...rest } = record;
+    const totalRows = record.totalRows || 0;
+    return {
+      ...rest,
+      progress: totalRows > 0 ? Math.round(((record.processedRows || 0) / totalRows) * 100) : 100,
+    };
+  }
+
+  async getImport(importId: number) {
+    return this.toPublic(await this.getRecord(importId));
+  }
+
+  async listImports(limit = 20) {
+    const records = await db.select()
+      .from(productImports)
+      .orderBy(desc(productImports.createdAt))
+      .limit(limit);
+    return records.map(record => this.toPublic(record));
+  }
+}
@@ -0,0 +1,251 @@
+import { db } from '../db/connection';
+import { productOptions, productVariants, variantOptionValues } from '../db/schema';
+import { eq, and, or, inArray, isNotNull, asc, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export interface VariantOptionValue {
+  name: string;
+  value: string;
+}
+
+export interface ProductOption {
+  name: string;
+  position: number;
+  // Distinct values the product's variants use, in the order they were first given
+  values: string[];
+}
+
+// Option names are matched case-insensitively, so "color" sets the product's "Color" option
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class ProductOptionService {
+  // Options of each product in position order, with the values in use
+  async getProductOptions(productIds: number[], executor: Executor = db) {
+    const result = new Map<number, ProductOption[]>();
+    if (productIds.length === 0) {
+      return result;
+    }
+
+    const options = await executor.select()
+      .from(productOptions)
+      .where(inArray(productOptions.productId, productIds))
+      .orderBy(asc(productOptions.productId), asc(productOptions.position));
+    if (options.length === 0) {
+      return result;
+    }
+
+    const values = await executor.select({
+      optionId: variantOptionValues.optionId,
+      value: variantOptionValues.value,
+    })
+      .from(variantOptionValues)
+      .where(inArray(variantOptionValues.optionId, options.map(option => option.id)))
+      .groupBy(variantOptionValues.optionId, variantOptionValues.value)
+      .orderBy(sql`min(${variantOptionValues.id})`);
+
+    for (const option of options) {
+      const list = result.get(option.productId) || [];
+      list.push({
+        name: option.name,
+        position: option.position,
+        values: values.filter(row => row.optionId === option.id).map(row => row.value),
+      });
+      result.set(option.productId, list);
+    }
+
+    return result;
+  }
+
+  // Option values of each variant, in the product's option order
+  async getVariantOptions(variantIds: number[], executor: Executor = db) {
+    const result = new Map<number, VariantOptionValue[]>();
+    if (variantIds.length === 0) {
+      return result;
+    }
+
+    const rows = await executor.select({
+      variantId: variantOptionValues.variantId,
+      name: productOptions.name,
+      value: variantOptionValues.value,
+    })
+      .from(variantOptionValues)
+      .innerJoin(productOptions, eq(productOptions.id, variantOptionValues.optionId))
+      .where(inArray(variantOptionValues.variantId, variantIds))
+      .orderBy(asc(productOptions.position));
+
+    for (const row of rows) {
+      const list = result.get(row.variantId) || [];
+      list.push({ name: row.name, value: row.value });
+      result.set(row.variantId, list);
+    }
+
+    return result;
+  }
+
+  // Products with their options, and each of their variants with its option values
+  async attach<P extends { id: number; variants: { id: number }[] }>(
+    list: P[]
+  ): Promise<(Omit<P, 'variants'> & {
+    options: ProductOption[];
+    variants: (P['variants'][number] & { options: VariantOptionValue[] })[];
+  })[]> {
+    const [optionsByProduct, optionsByVariant] = await Promise.all([
+      this.getProductOptions(list.map(product => product.id)),
+      this.getVariantOptions(list.flatMap(product => product.variants.map(variant => variant.id))),
+    ]);
+
+    return list.map(product => ({
+      ...product,
+      options: optionsByProduct.get(product.id) || [],
+      variants: product.variants.map(variant => ({
+        ...variant,
+        options: optionsByVariant.get(variant.id) || [],
+      })),
+    }));
+  }
+
+  // Set a variant's values by option name. Options the product doesn't have yet are added after
+  // its existing ones; a null or empty value clears the variant's value for that option. Options
+  // no variant uses any more are removed.
+  async setVariantOptions(
+    executor: Executor,
+    productId: number,
+    variantId: number,
+    values: { name: string; value: string | null }[]
+  ) {
+    if (values.length === 0) {
+      return;
+    }
+
+    const options = await executor.select()
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(asc(productOptions.position));
+
+    for (const { name, value } of values) {
+      let option = options.find(candidate => sameName(candidate.name, name));
+
+      if (!value) {
+        if (option) {
+          await executor.delete(variantOptionValues)
+            .where(and(eq(variantOptionValues.variantId, variantId), eq(variantOptionValues.optionId, option.id)));
+        }
+        continue;
+      }
+
+      if (!option) {
+        [option] = await executor.insert(productOptions).values({
+          productId,
+          name: name.trim(),
+          position: options.length + 1,
+        }).returning();
+        options.push(option);
+      }
+
+      await executor.insert(variantOptionValues)
+        .values({ variantId, optionId: option.id, value })
+        .onConflictDoUpdate({
+          target: [variantOptionValues.variantId, variantOptionValues.optionId],
+          set: { value },
+        });
+    }
+
+    await this.pruneOptions(executor, productId);
+  }
+
+  // Make a product's options the given names in the given order (as a channel defines them),
+  // removing other options along with their values
+  async setProductOptions(executor: Executor, productId: number, names: string[]) {
+    const options = await executor.select()
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId));
+
+    const removed = options.filter(option => !names.some(name => sameName(name, option.name)));
+    if (removed.length > 0) {
+      const removedIds = removed.map(option => option.id);
+      await executor.delete(variantOptionValues).where(inArray(variantOptionValues.optionId, removedIds));
+      await executor.delete(productOptions).where(inArray(productOptions.id, removedIds));
+    }
+
+    for (const [index, name] of names.entries()) {
+      const option = options.find(candidate => sameName(candidate.name, name));
+      if (option) {
+        await executor.update(productOptions)
+          .set({ name: name.trim(), position: index + 1, updatedAt: new Date() })
+          .where(eq(productOptions.id, option.id));
+      } else {
+        await executor.insert(productOptions).values({ productId, name: name.trim(), position: index + 1 });
+      }
+    }
+  }
+
+  // Remove the variant's option values, e.g. before the variant itself is deleted
+  async clearVariantOptions(executor: Executor, productId: number, variantId: number) {
+    await executor.delete(variantOptionValues).where(eq(variantOptionValues.variantId, variantId));
+    await this.pruneOptions(executor, productId);
+  }
+
+  // Copy the size and color columns of variants created before options existed into Size and
+  // Color options, then clear the columns. Values the variant already has for those options win.
+  // Safe to run repeatedly; returns how many variants were copied.
+  async backfillLegacySizeColor() {
+    const variants = await db.select({
+      id: productVariants.id,
+      productId: productVariants.productId,
+      size: productVariants.size,
+      color: productVariants.color,
+    })
+      .from(productVariants)
+      .where(or(isNotNull(productVariants.size), isNotNull(productVariants.color)));
+
+    for (const variant of variants) {
+      await db.transaction(async (tx) => {
+        if (variant.productId) {
+          const existing = (await this.getVariantOptions([variant.id], tx)).get(variant.id) || [];
+          const values = [
+            { name: 'Size', value: variant.size?.trim() || null },
+            { name: 'Color', value: variant.color?.trim() || null },
+          ].filter((entry): entry is { name: string; value: string } =>
+            !!entry.value && !existing.some(option => sameName(option.name, entry.name))
+          );
+          await this.setVariantOptions(tx, variant.productId, variant.id, values);
+        }
+
+        await tx.update(productVariants)
+          .set({ size: null, color: null })
+          .where(eq(productVariants.id, variant.id));
+      });
+    }
+
+    return variants.length;
+  }
+
+  // Drop options without values and close the gaps in the positions
+  private async pruneOptions(executor: Executor, productId: number) {
+    const options = await executor.select({
+      id: productOptions.id,
+      position: productOptions.position,
+      used: sql<boolean>`exists (select 1 from ${variantOptionValues} where ${variantOptionValues.optionId} = ${productOptions.id})`,
+    })
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(asc(productOptions.position));
+
+    const unused = options.filter(option => !option.used).map(option => option.id);
+    if (unused.length === 0) {
+      return;
+    }
+    await executor.delete(productOptions).where(inArray(productOptions.id, unused));
+
+    const remaining = options.filter(option => option.used);
+    for (const [index, option] of remaining.entries()) {
+      if (option.position !== index + 1) {
+        await executor.update(productOptions)
+          .set({ position: index + 1, updatedAt: new Date() })
+          .where(eq(productOptions.id, option.id));
+      }
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { db } from '../db/connection';
+import { productTags, products } from '../db/schema';
+import { eq, and, ne, inArray, notInArray, asc, desc, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+// Tags from a comma-separated list, as Shopify sends them
+export const parseTags = (value: string | null | undefined) =>
+  (value || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+// Tags compare case-insensitively; the first spelling wins
+export const uniqueTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const normalized = tag.toLowerCase();
+    if (seen.has(normalized)) {
+      return false;
+    }
+    seen.add(normalized);
+    return true;
+  });
+};
+
+export class ProductTagService {
+  // Tags of each product, alphabetically
+  async getTags(productIds: number[], executor: Executor = db) {
+    const result = new Map<number, string[]>();
+    if (productIds.length === 0) {
+      return result;
+    }
+
+    const rows = await executor.select({ productId: productTags.productId, tag: productTags.tag })
+      .from(productTags)
+      .where(inArray(productTags.productId, productIds))
+      .orderBy(asc(productTags.tag));
+
+    for (const row of rows) {
+      result.set(row.productId, [...(result.get(row.productId) || []), row.tag]);
+    }
+    return result;
+  }
+
+  async attach<P extends { id: number }>(list: P[]): Promise<(P & { tags: string[] })[]> {
+    const tagsByProduct = await this.getTags(list.map(product => product.id));
+    return list.map(product => ({ ...product, tags: tagsByProduct.get(product.id) || [] }));
+  }
+
+  // Replace a product's tags
+  async setTags(executor: Executor, productId: number, tags: string[]) {
+    const wanted = uniqueTags(tags);
+
+    await executor.delete(productTags).where(and(
+      eq(productTags.productId, productId),
+      wanted.length > 0 ? notInArray(productTags.tag, wanted) : undefined
+    ));
+    if (wanted.length > 0) {
+      await executor.insert(productTags)
+        .values(wanted.map(tag => ({ productId, tag })))
+        .onConflictDoNothing();
+    }
+  }
+
+  // Tags in use with their product counts (deleted products excluded), most used first
+  async getAllTags() {
+    return await db.select({ tag: productTags.tag, count: sql<number>`count(*)::int` })
+      .from(productTags)
+      .innerJoin(products, eq(products.id, productTags.productId))
+      .where(ne(products.status, 'deleted'))
+      .groupBy(productTags.tag)
+      .orderBy(desc(sql`count(*)`), asc(productTags.tag));
+  }
+}
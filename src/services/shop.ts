@@ -0,0 +1,305 @@
+import { db } from '../db/connection';
+import { shops, channelMappings, locations, orders, webhookDeliveries, syncLogs } from '../db/schema';
+import { ShopifyService } from './shopify';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+import { ValidationError, NotFoundError, ConflictError, isUniqueViolation } from '../utils/errors';
+import { encryptSecret, decryptSecret, isEncryptionConfigured } from '../utils/encryption';
+
+export type Shop = typeof shops.$inferSelect;
+
+export interface ShopInput {
+  domain?: string;
+  name?: string | null;
+  accessToken?: string | null;
+  webhookSecret?: string | null;
+  apiVersion?: string | null;
+  scopes?: string | null;
+  settings?: Record<string, any> | null;
+  isActive?: boolean;
+  isDefault?: boolean;
+}
+
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/;
+
+// Accepts "my-store", "my-store.myshopify.com" or "https://my-store.myshopify.com/admin"
+export const normalizeShopDomain = (value: string) => {
+  const host = value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  return host.includes('.') ? host : `${host}.myshopify.com`;
+};
+
+export const isValidShopDomain = (domain: string) => SHOP_DOMAIN_PATTERN.test(domain);
+
+// Access tokens and webhook secrets are only ever stored encrypted
+const sealToken = (token: string | null | undefined) => {
+  if (!token) {
+    return null;
+  }
+  if (!isEncryptionConfigured()) {
+    throw new ValidationError('ENCRYPTION_KEY must be configured before storing shop credentials');
+  }
+  return encryptSecret(token);
+};
+
+// Clients (and their rate limiters) are reused per shop; the key changes when credentials do
+const clients = new Map<number, { key: string; service: ShopifyService }>();
+
+export class ShopService {
+  async getAll(includeInactive = false) {
+    const query = db.select().from(shops);
+    return includeInactive
+      ? await query.orderBy(asc(shops.id))
+      : await query.where(eq(shops.isActive, true)).orderBy(asc(shops.id));
+  }
+
+  async getById(shopId: number) {
+    const [shop] = await db.select().from(shops).where(eq(shops.id, shopId));
+    if (!shop) {
+      throw new NotFoundError(`Shop ${shopId} not found`);
+    }
+    return shop;
+  }
+
+  async getByDomain(domain: string) {
+    const [shop] = await db.select()
+      .from(shops)
+      .where(eq(shops.domain, normalizeShopDomain(domain)));
+    return shop || null;
+  }
+
+  // Look a shop up by ID, domain or shop name; the default shop when none is given
+  async resolve(identifier?: string | number | null): Promise<Shop> {
+    if (identifier === undefined || identifier === null || identifier === '' || identifier === 'default') {
+      return this.getDefaultShop();
+    }
+
+    const shop = /^\d+$/.test(identifier.toString())
+      ? await this.getById(parseInt(identifier.toString()))
+      : await this.getByDomain(identifier.toString());
+
+    if (!shop) {
+      throw new NotFoundError(`Shop ${identifier} not found`);
+    }
+    if (!shop.isActive) {
+      throw new ConflictError(`Shop ${shop.domain} is not active`);
+    }
+    return shop;
+  }
+
+  async getDefaultShop(): Promise<Shop> {
+    const [preferred] = await db.select()
+      .from(shops)
+      .where(and(eq(shops.isActive, true), eq(shops.isDefault, true)))
+      .limit(1);
+    if (preferred) {
+      return preferred;
+    }
+
+    const [first] = await db.select()
+      .from(shops)
+      .where(eq(shops.isActive, true))
+      .orderBy(asc(shops.id))
+      .limit(1);
+    if (first) {
+      return first;
+    }
+
+    const bootstrapped = await this.bootstrapFromEnvironment();
+    if (!bootstrapped) {
+      throw new NotFoundError('No Shopify shop connected');
+    }
+    return bootstrapped;
+  }
+
+  // Single-store setups configured through SHOPIFY_SHOP_NAME/SHOPIFY_ACCESS_TOKEN become the first shop
+  private async bootstrapFromEnvironment() {
+    const shopName = process.env.SHOPIFY_SHOP_NAME;
+    if (!shopName || !process.env.SHOPIFY_ACCESS_TOKEN) {
+      return null;
+    }
+
+    const [existing] = await db.select().from(shops).limit(1);
+    if (existing) {
+      return null;
+    }
+
+    return await this.createShop({
+      domain: shopName,
+      accessToken: process.env.SHOPIFY_ACCESS_TOKEN,
+      webhookSecret: process.env.SHOPIFY_WEBHOOK_SECRET || null,
+      apiVersion: process.env.SHOPIFY_API_VERSION || null,
+      isDefault: true,
+    });
+  }
+
+  async createShop(data: ShopInput) {
+    if (!data.domain || typeof data.domain !== 'string') {
+      throw new ValidationError('domain is required');
+    }
+
+    const domain = normalizeShopDomain(data.domain);
+    if (!isValidShopDomain(domain)) {
+      throw new ValidationError(`Invalid shop domain: ${data.domain} (expected <shop>.myshopify.com)`);
+    }
+
+    try {
+      return await db.transaction(async (tx) => {
+        const existing = await tx.select({ id: shops.id }).from(shops).limit(1);
+        const isFirstShop = existing.length === 0;
+
+        if (data.isDefault) {
+          await tx.update(shops).set({ isDefault: false, updatedAt: new Date() });
+        }
+
+        const [shop] = await tx.insert(shops).values({
+          domain,
+          shopName: domain.replace(/\.myshopify\.com$/, ''),
+          name: data.name || null,
+          accessToken: sealToken(data.accessToken),
+          webhookSecret: sealToken(data.webhookSecret),
+          apiVersion: data.apiVersion || null,
+          scopes: data.scopes || null,
+          settings: data.settings || {},
+          isActive: data.isActive !== false,
+          isDefault: data.isDefault === true || isFirstShop,
+        }).returning();
+
+        // Data synced before shops existed belongs to the first one
+        if (isFirstShop) {
+          await tx.update(channelMappings).set({ shopId: shop.id })
+            .where(and(eq(channelMappings.channel, 'shopify'), isNull(channelMappings.shopId)));
+          await tx.update(locations).set({ shopId: shop.id })
+            .where(and(eq(locations.channel, 'shopify'), isNull(locations.shopId)));
+          await tx.update(orders).set({ shopId: shop.id })
+            .where(and(eq(orders.channel, 'shopify'), isNull(orders.shopId)));
+          await tx.update(webhookDeliveries).set({ shopId: shop.id })
+            .where(and(eq(webhookDeliveries.channel, 'shopify'), isNull(webhookDeliveries.shopId)));
+        }
+
+        return shop;
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError(`Shop ${domain} is already connected`);
+      }
+      throw error;
+    }
+  }
+
+  async updateShop(shopId: number, data: ShopInput) {
+    await this.getById(shopId);
+
+    if (data.domain !== undefined) {
+      throw new ValidationError('domain cannot be changed');
+    }
+
+    return await db.transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.update(shops).set({ isDefault: false, updatedAt: new Date() });
+      }
+
+      const values = Object.fromEntries(Object.entries({
+        name: data.name,
+        accessToken: data.accessToken === undefined ? undefined : sealToken(data.accessToken),
+        webhookSecret: data.webhookSecret === undefined ? undefined : sealToken(data.webhookSecret),
+        apiVersion: data.apiVersion,
+        scopes: data.scopes,
+        settings: data.settings,
+        isActive: data.isActive,
+        isDefault: data.isDefault,
+      }).filter(([, value]) => value !== undefined));
+
+      const [shop] = await tx.update(shops)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(shops.id, shopId))
+        .returning();
+      return shop;
+    });
+  }
+
+  // Disconnect a shop; its mappings and history are kept
+  async deactivateShop(shopId: number) {
+    const shop = await this.updateShop(shopId, { isActive: false, isDefault: false });
+    clients.delete(shopId);
+    return shop;
+  }
+
+  // Store the offline token from a completed OAuth install, reconnecting a previously uninstalled shop
+  async installShop(domain: string, accessToken: string, scopes: string) {
+    const existing = await this.getByDomain(domain);
+
+    const shop = existing
+      ? await this.updateShop(existing.id, { accessToken, scopes, isActive: true })
+      : await this.createShop({ domain, accessToken, scopes });
+
+    const [installed] = await db.update(shops)
+      .set({ installedAt: new Date(), uninstalledAt: null, updatedAt: new Date() })
+      .where(eq(shops.id, shop.id))
+      .returning();
+    clients.delete(shop.id);
+
+    await db.insert(syncLogs).values({
+      channel: 'shopify',
+      shopId: shop.id,
+      operation: 'app-install',
+      status: 'success',
+      message: `${existing ? 'Reinstalled' : 'Installed'} app on ${installed.domain}`,
+      details: { domain: installed.domain, scopes, reinstall: !!existing },
+    });
+
+    return installed;
+  }
+
+  // app/uninstalled: the token no longer works, so drop it and deactivate the shop
+  async revokeShop(shopId: number) {
+    await this.getById(shopId);
+
+    const [shop] = await db.update(shops)
+      .set({
+        accessToken: null,
+        isActive: false,
+        isDefault: false,
+        uninstalledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(shops.id, shopId))
+      .returning();
+    clients.delete(shopId);
+
+    await db.insert(syncLogs).values({
+      channel: 'shopify',
+      shopId,
+      operation: 'app-uninstall',
+      status: 'success',
+      message: `App uninstalled from ${shop.domain}; access revoked`,
+      details: { domain: shop.domain },
+    });
+
+    return shop;
+  }
+
+  // Shop as returned by the API, without credentials
+  toPublic(shop: Shop) {
+    const { accessToken, webhookSecret, ...rest } = shop;
+    return {
+      ...rest,
+      hasAccessToken: !!accessToken,
+      hasWebhookSecret: !!webhookSecret,
+    };
+  }
+
+  getShopifyService(shop: Shop) {
+    const key = `${shop.accessToken}:${shop.apiVersion}`;
+    const cached = clients.get(shop.id);
+    if (cached && cached.key === key) {
+      return cached.service;
+    }
+
+    const service = new ShopifyService({
+      shopName: shop.shopName,
+      accessToken: shop.accessToken ? decryptSecret(shop.accessToken) : null,
+      apiVersion: shop.apiVersion,
+    });
+    clients.set(shop.id, { key, service });
+    return service;
+  }
+}
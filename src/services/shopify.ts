@@ -1,48 +1,114 @@
-import Shopify from 'shopify-api-node';
+import Shopify, { WebhookTopic } from 'shopify-api-node';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { ShopifyRateLimiter, getShopifyRateLimiter } from './shopifyRateLimiter';
+import {
+  toGid,
+  toRestProduct,
+  toRestLocation,
+  toInventorySnapshot,
+  groupBulkLines,
+  VariantInventorySnapshot,
+  QUERY_COSTS,
+  PRODUCT_QUERY,
+  VARIANT_EXISTS_QUERY,
+  VARIANT_INVENTORY_QUERY,
+  LOCATIONS_QUERY,
+  INVENTORY_SET_QUANTITIES_MUTATION,
+  BULK_OPERATION_RUN_QUERY_MUTATION,
+  BULK_OPERATION_QUERY,
+  BULK_PRODUCTS_QUERY,
+  BULK_INVENTORY_QUERY,
+} from './shopifyGraphql';
+
+export interface ShopifyCredentials {
+  shopName: string;
+  accessToken: string | null;
+  apiVersion?: string | null;
+}
 
 export class ShopifyService {
   private shopify: Shopify | null = null;
+  private rateLimiter: ShopifyRateLimiter | null = null;
+  readonly shopName: string | null = null;
+
+  // Credentials of a connected shop; falls back to SHOPIFY_SHOP_NAME/SHOPIFY_ACCESS_TOKEN
+  constructor(credentials?: ShopifyCredentials) {
+    const shopName = credentials ? credentials.shopName : process.env.SHOPIFY_SHOP_NAME;
+    const accessToken = credentials ? credentials.accessToken : process.env.SHOPIFY_ACCESS_TOKEN;
+    const apiVersion = credentials?.apiVersion || process.env.SHOPIFY_API_VERSION;
 
-  constructor() {
-    // Only initialize if environment variables are available
-    if (process.env.SHOPIFY_SHOP_NAME && process.env.SHOPIFY_ACCESS_TOKEN) {
+    // Only initialize if credentials are available
+    if (shopName && accessToken) {
+      this.shopName = shopName;
+
+      // Retries are handled by the rate limiter, not the client
       this.shopify = new Shopify({
-        shopName: process.env.SHOPIFY_SHOP_NAME,
-        accessToken: process.env.SHOPIFY_ACCESS_TOKEN,
+        shopName,
+        accessToken,
+        apiVersion: apiVersion || undefined,
+        maxRetries: 0,
       });
-    } else {
+
+      this.rateLimiter = getShopifyRateLimiter(shopName);
+      this.shopify.on('callLimits', limits => this.rateLimiter!.updateRestLimits(limits));
+      this.shopify.on('callGraphqlLimits', limits => this.rateLimiter!.updateGraphqlLimits(limits));
+    } else if (!credentials) {
       console.warn('Shopify environment variables not configured. Shopify service will not be available.');
     }
   }
 
   private checkShopifyInitialized() {
     if (!this.shopify) {
-      throw new Error('Shopify service not initialized. Please check environment variables SHOPIFY_SHOP_NAME and SHOPIFY_ACCESS_TOKEN.');
+      throw new Error('Shopify service not initialized. Please check the shop\'s credentials (or SHOPIFY_SHOP_NAME and SHOPIFY_ACCESS_TOKEN).');
     }
   }
 
+  // Every API call goes through the shared per-shop throttle
+  private request<T>(call: (shopify: Shopify) => Promise<T>): Promise<T> {
+    this.checkShopifyInitialized();
+    return this.rateLimiter!.run(() => call(this.shopify!));
+  }
+
+  // GraphQL Admin API call; cost is the expected query cost reserved from the budget
+  private graphql(query: string, variables: Record<string, any> = {}, cost = QUERY_COSTS.small): Promise<any> {
+    this.checkShopifyInitialized();
+    return this.rateLimiter!.run(() => this.shopify!.graphql(query, variables), { graphqlCost: cost });
+  }
+
+  // Current call budget as tracked from Shopify's rate-limit headers
+  getRateLimitStatus() {
+    this.checkShopifyInitialized();
+    return this.rateLimiter!.getBudget();
+  }
+
   async createProduct(productData: any) {
     try {
       this.checkShopifyInitialized();
-      const product = await this.shopify!.product.create({
+      const product = await this.request(shopify => shopify.product.create({
         title: productData.title,
         body_html: productData.description,
         vendor: productData.vendor,
         product_type: productData.product_type,
         tags: productData.tags,
+        ...(productData.options && { options: productData.options }),
         variants: productData.variants.map((variant: any) => ({
           title: variant.title,
           price: variant.price,
           sku: variant.sku,
+          barcode: variant.barcode,
           inventory_quantity: variant.inventory_quantity,
           weight: variant.weight,
           weight_unit: 'lb',
+          option1: variant.option1 ?? undefined,
+          option2: variant.option2 ?? undefined,
+          option3: variant.option3 ?? undefined,
         })),
         images: productData.images.map((image: any) => ({
           src: image.src,
           alt: image.alt,
         })),
-      });
+      }));
       
       return product;
     } catch (error) {
@@ -53,21 +119,26 @@ export class ShopifyService {
   async updateProduct(productData: any) {
     try {
       this.checkShopifyInitialized();
-      const product = await this.shopify!.product.update(parseInt(productData.id), {
+      const product = await this.request(shopify => shopify.product.update(parseInt(productData.id), {
         title: productData.title,
         body_html: productData.body_html,
         vendor: productData.vendor,
         product_type: productData.product_type,
         tags: productData.tags,
+        ...(productData.options && { options: productData.options }),
         variants: productData.variants.map((variant: any) => ({
           id: variant.id,
           title: variant.title,
           price: variant.price,
           sku: variant.sku,
+          barcode: variant.barcode,
           weight: variant.weight,
           weight_unit: 'lb',
+          option1: variant.option1 ?? undefined,
+          option2: variant.option2 ?? undefined,
+          option3: variant.option3 ?? undefined,
         })),
-      });
+      }));
       
       return product;
     } catch (error) {
@@ -75,26 +146,30 @@ export class ShopifyService {
     }
   }
 
-  async updateProductInventory(variantId: string, quantity: number) {
+  // Set the available quantity of a variant at a location (primary location when omitted)
+  async updateProductInventory(variantId: string, quantity: number, locationId?: string) {
     try {
       this.checkShopifyInitialized();
       
       // First, get the inventory item ID for this variant
-      const variant = await this.shopify!.productVariant.get(parseInt(variantId));
-      if (!variant) {
-        throw new Error(`Variant ${variantId} not found in Shopify`);
+      const inventory = await this.getVariantInventory(variantId);
+      if (!inventory?.inventoryItemId) {
+        throw new Error(`Variant ${variantId} not found in Shopify (404)`);
       }
 
-      // Get the primary location ID
-      const locationId = await this.getPrimaryLocationId();
+      const targetLocationId = locationId || await this.getPrimaryLocationId();
       
       // Set the inventory level directly (not adjust)
-      const inventoryLevel = await this.shopify!.inventoryLevel.set({
-        inventory_item_id: variant.inventory_item_id.toString(),
-        location_id: locationId,
+      await this.setInventoryQuantities([{
+        inventoryItemId: inventory.inventoryItemId,
+        locationId: targetLocationId,
+        quantity,
+      }]);
+      return {
+        inventory_item_id: Number(inventory.inventoryItemId),
+        location_id: Number(targetLocationId),
         available: quantity,
-      });
-      return inventoryLevel;
+      };
     } catch (error:any) {
       console.error(`Shopify inventory update failed for variant ${variantId}:`, error);
       
@@ -107,27 +182,74 @@ export class ShopifyService {
     }
   }
 
+  // Set available quantities for many inventory items in as few mutations as possible
+  async setInventoryQuantities(quantities: { inventoryItemId: string; locationId: string; quantity: number }[]) {
+    const batchSize = 250;
+    let updated = 0;
+
+    for (let i = 0; i < quantities.length; i += batchSize) {
+      const batch = quantities.slice(i, i + batchSize);
+      const data = await this.graphql(INVENTORY_SET_QUANTITIES_MUTATION, {
+        input: {
+          name: 'available',
+          reason: 'correction',
+          ignoreCompareQuantity: true,
+          quantities: batch.map(entry => ({
+            inventoryItemId: toGid('InventoryItem', entry.inventoryItemId),
+            locationId: toGid('Location', entry.locationId),
+            quantity: entry.quantity,
+          })),
+        },
+      }, QUERY_COSTS.inventorySet);
+
+      const userErrors = data.inventorySetQuantities.userErrors;
+      if (userErrors.length > 0) {
+        throw new Error(`Shopify inventory update error: ${userErrors.map((e: any) => e.message).join('; ')}`);
+      }
+      updated += batch.length;
+    }
+
+    return { updated };
+  }
+
   // Validate if a variant exists in Shopify
   async validateVariant(variantId: string): Promise<boolean> {
     try {
       this.checkShopifyInitialized();
-      await this.shopify!.productVariant.get(parseInt(variantId));
-      return true;
+      const data = await this.graphql(VARIANT_EXISTS_QUERY, { id: toGid('ProductVariant', variantId) });
+      return !!data.productVariant;
     } catch (error) {
       return false;
     }
   }
 
+  async getLocations() {
+    try {
+      this.checkShopifyInitialized();
+      const data = await this.graphql(LOCATIONS_QUERY, {}, QUERY_COSTS.locations);
+      return data.locations.edges.map((edge: any) => toRestLocation(edge.node));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Fallback for callers that don't know which location to use
   async getPrimaryLocationId(): Promise<string> {
     this.checkShopifyInitialized();
-    const locations = await this.shopify!.location.list();
-    return locations[0].id.toString();
+    const locations = await this.getLocations();
+    const primary = locations.find((location: any) => location.active) || locations[0];
+    return primary.id.toString();
   }
 
+  // Product in REST resource shape, fetched with a single GraphQL query
   async getProduct(productId: string) {
     try {
       this.checkShopifyInitialized();
-      return await this.shopify!.product.get(parseInt(productId));
+      const data = await this.graphql(PRODUCT_QUERY, { id: toGid('Product', productId) }, QUERY_COSTS.product);
+      if (!data.product) {
+        throw new Error(`Product ${productId} not found (404)`);
+      }
+      return toRestProduct(data.product);
     } catch (error) {
       throw new Error(`Shopify API error: ${error}`);
     }
@@ -136,7 +258,50 @@ export class ShopifyService {
   async deleteProduct(productId: string) {
     try {
       this.checkShopifyInitialized();
-      return await this.shopify!.product.delete(parseInt(productId));
+      return await this.request(shopify => shopify.product.delete(parseInt(productId)));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async getWebhooks() {
+    try {
+      this.checkShopifyInitialized();
+      return await this.request(shopify => shopify.webhook.list({ limit: 250 }));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async createWebhook(topic: string, address: string) {
+    try {
+      this.checkShopifyInitialized();
+      return await this.request(shopify => shopify.webhook.create({
+        topic: topic as WebhookTopic,
+        address,
+        format: 'json',
+      }));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async updateWebhook(webhookId: string, topic: string, address: string) {
+    try {
+      this.checkShopifyInitialized();
+      return await this.request(shopify => shopify.webhook.update(parseInt(webhookId), {
+        topic: topic as WebhookTopic,
+        address,
+      }));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async deleteWebhook(webhookId: string) {
+    try {
+      this.checkShopifyInitialized();
+      return await this.request(shopify => shopify.webhook.delete(parseInt(webhookId)));
     } catch (error) {
       throw new Error(`Shopify API error: ${error}`);
     }
@@ -145,75 +310,302 @@ export class ShopifyService {
   async getProducts(limit = 50) {
     try {
       this.checkShopifyInitialized();
-      const products = await this.shopify!.product.list({ limit });
+      const products = await this.request(shopify => shopify.product.list({ limit }));
       return products;
     } catch (error) {
       throw new Error(`Shopify API error: ${error}`);
     }
   }
 
-  // Get current inventory for a specific product variant
+  // One page of products; pass the returned nextPageInfo to fetch the following page.
+  // Stays on REST: a 250-product page with variants is far cheaper than a GraphQL connection.
+  // updated_at_min is only sent on the first page since Shopify encodes filters in the cursor.
+  async getProductsPage(options: { limit?: number; pageInfo?: string; updatedAtMin?: string } = {}) {
+    try {
+      this.checkShopifyInitialized();
+      const limit = Math.min(Math.max(options.limit || 250, 1), 250);
+      const params: Record<string, any> = options.pageInfo
+        ? { limit, page_info: options.pageInfo }
+        : { limit, ...(options.updatedAtMin && { updated_at_min: options.updatedAtMin }) };
+
+      const products = await this.request(shopify => shopify.product.list(params));
+      return {
+        products: Array.from(products),
+        nextPageInfo: (products.nextPageParameters?.page_info as string | undefined) || null,
+      };
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Every page of a REST list, following page_info cursors
+  private async listAll<T>(list: (shopify: Shopify, params: any) => Promise<Shopify.IPaginatedResult<T>>, params: Record<string, any> = {}) {
+    const items: T[] = [];
+    let pageParams: Record<string, any> | undefined = { limit: 250, ...params };
+    while (pageParams) {
+      const current: Record<string, any> = pageParams;
+      const page = await this.request(shopify => list(shopify, current));
+      items.push(...Array.from(page));
+      pageParams = page.nextPageParameters;
+    }
+    return items;
+  }
+
+  async getCustomCollections() {
+    try {
+      return await this.listAll((shopify, params) => shopify.customCollection.list(params));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async getSmartCollections() {
+    try {
+      return await this.listAll((shopify, params) => shopify.smartCollection.list(params));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Product IDs in a collection of either kind
+  async getCollectionProductIds(collectionId: string) {
+    try {
+      const products = await this.listAll(
+        (shopify, params) => shopify.collection.products(parseInt(collectionId), params),
+        { fields: 'id' }
+      );
+      return products.map(product => product.id.toString());
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Membership records of a custom collection
+  async getCollects(collectionId: string) {
+    try {
+      return await this.listAll((shopify, params) => shopify.collect.list(params), { collection_id: collectionId });
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async createCollect(collectionId: string, productId: string) {
+    try {
+      return await this.request(shopify => shopify.collect.create({
+        collection_id: parseInt(collectionId),
+        product_id: parseInt(productId),
+      }));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async deleteCollect(collectId: string) {
+    try {
+      return await this.request(shopify => shopify.collect.delete(parseInt(collectId)));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async createCustomCollection(data: { title: string; body_html?: string | null; handle?: string }) {
+    try {
+      return await this.request(shopify => shopify.customCollection.create(data));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async updateCustomCollection(collectionId: string, data: { title?: string; body_html?: string | null }) {
+    try {
+      return await this.request(shopify => shopify.customCollection.update(parseInt(collectionId), data));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async createSmartCollection(data: {
+    title: string;
+    body_html?: string | null;
+    handle?: string;
+    rules: { column: string; relation: string; condition: string }[];
+    disjunctive: boolean;
+  }) {
+    try {
+      return await this.request(shopify => shopify.smartCollection.create(data));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async updateSmartCollection(collectionId: string, data: {
+    title?: string;
+    body_html?: string | null;
+    rules?: { column: string; relation: string; condition: string }[];
+    disjunctive?: boolean;
+  }) {
+    try {
+      return await this.request(shopify => shopify.smartCollection.update(parseInt(collectionId), data));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Metafields of a product or variant
+  async getMetafields(ownerResource: 'product' | 'variant', ownerId: string) {
+    try {
+      return await this.listAll(
+        (shopify, params) => shopify.metafield.list(params),
+        { metafield: { owner_resource: ownerResource, owner_id: ownerId } }
+      );
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async createMetafield(
+    ownerResource: 'product' | 'variant',
+    ownerId: string,
+    data: { namespace: string; key: string; type: string; value: string }
+  ) {
+    try {
+      return await this.request(shopify => shopify.metafield.create({
+        ...data,
+        owner_resource: ownerResource,
+        owner_id: parseInt(ownerId),
+      }));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async updateMetafield(metafieldId: string, data: { type: string; value: string }) {
+    try {
+      return await this.request(shopify => shopify.metafield.update(parseInt(metafieldId), data));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  async deleteMetafield(metafieldId: string) {
+    try {
+      return await this.request(shopify => shopify.metafield.delete(parseInt(metafieldId)));
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // One page of orders (any status), oldest first; same page_info cursor rules as products
+  async getOrdersPage(options: { limit?: number; pageInfo?: string; updatedAtMin?: string } = {}) {
+    try {
+      this.checkShopifyInitialized();
+      const limit = Math.min(Math.max(options.limit || 250, 1), 250);
+      const params: Record<string, any> = options.pageInfo
+        ? { limit, page_info: options.pageInfo }
+        : { limit, status: 'any', order: 'updated_at asc', ...(options.updatedAtMin && { updated_at_min: options.updatedAtMin }) };
+
+      const orders = await this.request(shopify => shopify.order.list(params));
+      return {
+        orders: Array.from(orders),
+        nextPageInfo: (orders.nextPageParameters?.page_info as string | undefined) || null,
+      };
+    } catch (error) {
+      throw new Error(`Shopify API error: ${error}`);
+    }
+  }
+
+  // Get current inventory for a specific product variant, broken down by location
   async getProductInventory(productId: string, variantId: string): Promise<{
     quantity: number;
     available: number;
     reserved: number;
+    locations: { locationId: string; quantity: number; available: number }[];
   } | null> {
     try {
-      this.checkShopifyInitialized();
-      
-      if (!this.shopify) {
-        console.error('Shopify client not initialized');
-        return null;
-      }
-      // Get product details from Shopify
-      const product = await this.shopify.product.get(parseInt(productId));
-      
-      if (!product || !product.variants) {
-        return null;
-      }
+      const inventory = await this.getVariantInventory(variantId);
 
-      // Find the specific variant
-      const variant = product.variants.find(v => v.id?.toString() === variantId);
-      
-      if (!variant) {
+      // Missing variant, or it now belongs to another product
+      if (!inventory || inventory.productId !== productId) {
         return null;
       }
 
-      // Get inventory levels for this variant
-      const inventoryLevels = await this.shopify.inventoryLevel.list({
-        inventory_item_ids: variant.inventory_item_id?.toString()
-      });
+      return {
+        quantity: inventory.quantity,
+        available: inventory.quantity,
+        reserved: 0, // Shopify doesn't provide reserved inventory directly
+        locations: inventory.locations,
+      };
+    } catch (error: any) {
+      console.error(`Error fetching inventory from Shopify:`, error);
+      return null;
+    }
+  }
+
+  private async getVariantInventory(variantId: string) {
+    const data = await this.graphql(VARIANT_INVENTORY_QUERY, { id: toGid('ProductVariant', variantId) }, QUERY_COSTS.variantInventory);
+    return data.productVariant ? toInventorySnapshot(data.productVariant) : null;
+  }
+
+  // Full catalog in REST resource shape via a bulk operation (one export instead of a request per product)
+  async exportProducts() {
+    const { roots, children } = await this.runBulkQuery(BULK_PRODUCTS_QUERY);
+
+    return roots.map(product => {
+      const nested = children.get(product.id) || [];
+      return toRestProduct(
+        product,
+        nested.filter(node => node.id.includes('/ProductImage/')),
+        nested.filter(node => node.id.includes('/ProductVariant/'))
+      );
+    });
+  }
+
+  // Inventory of every variant at every location via a bulk operation
+  async exportInventoryLevels(): Promise<VariantInventorySnapshot[]> {
+    const { roots, children } = await this.runBulkQuery(BULK_INVENTORY_QUERY);
+    return roots.map(variant => toInventorySnapshot(variant, children.get(variant.id) || []));
+  }
 
-      if (inventoryLevels && inventoryLevels.length > 0) {
-        const inventoryLevel = inventoryLevels[0];
-        
-        const result = {
-          quantity: inventoryLevel.available || 0,
-          available: inventoryLevel.available || 0,
-          reserved: 0 // Shopify doesn't provide reserved inventory directly
-        };
-        return result;
+  // Start a bulk query, wait for it to finish and download its JSONL result.
+  // Shopify runs one bulk query per shop at a time.
+  private async runBulkQuery(query: string) {
+    const started = await this.graphql(BULK_OPERATION_RUN_QUERY_MUTATION, { query }, QUERY_COSTS.bulk);
+    const { bulkOperation, userErrors } = started.bulkOperationRunQuery;
+    if (userErrors.length > 0) {
+      throw new Error(`Shopify bulk operation error: ${userErrors.map((e: any) => e.message).join('; ')}`);
+    }
+
+    const pollInterval = parseInt(process.env.SHOPIFY_BULK_POLL_INTERVAL_MS || '') || 2000;
+    const timeout = parseInt(process.env.SHOPIFY_BULK_TIMEOUT_MS || '') || 30 * 60 * 1000;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const { node: operation } = await this.graphql(BULK_OPERATION_QUERY, { id: bulkOperation.id }, QUERY_COSTS.small);
+
+      if (operation.status === 'COMPLETED') {
+        // No url means the query matched nothing
+        if (!operation.url) {
+          return groupBulkLines([]);
+        }
+
+        const response = await fetch(operation.url);
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to download bulk operation result: HTTP ${response.status}`);
+        }
+
+        const lines = createInterface({ input: Readable.fromWeb(response.body), crlfDelay: Infinity });
+        return groupBulkLines(lines);
       }
 
-      // Fallback to variant inventory data
-      if (variant.inventory_quantity !== undefined) {
-        const result = {
-          quantity: variant.inventory_quantity,
-          available: variant.inventory_quantity,
-          reserved: 0
-        };
-        return result;
+      if (['FAILED', 'CANCELED', 'EXPIRED'].includes(operation.status)) {
+        throw new Error(`Shopify bulk operation ${bulkOperation.id} ${operation.status.toLowerCase()}: ${operation.errorCode || 'no error code'}`);
       }
-      return null;
 
-    } catch (error: any) {
-      // Check if it's a 404 error (product or variant not found)
-      if (error.statusCode === 404 || (error.message && error.message.includes('404'))) {
-        return null; // Return null to indicate the product/variant should be cleaned up
+      if (Date.now() > deadline) {
+        throw new Error(`Shopify bulk operation ${bulkOperation.id} did not finish within ${timeout}ms`);
       }
-      
-      console.error(`Error fetching inventory from Shopify:`, error);
-      return null;
+
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,288 @@
+// GraphQL Admin API queries used by ShopifyService, and mappers that turn GraphQL nodes into
+// the REST resource shape the rest of the app (and Shopify's webhook payloads) already use.
+
+export const toGid = (type: string, id: string | number) => `gid://shopify/${type}/${id}`;
+
+export const fromGid = (gid: string | null | undefined) => (gid ? gid.split('/').pop()! : null);
+
+const WEIGHT_UNITS: Record<string, string> = {
+  GRAMS: 'g',
+  KILOGRAMS: 'kg',
+  OUNCES: 'oz',
+  POUNDS: 'lb',
+};
+
+// Rough requested-cost estimates, used to reserve budget before sending a query
+export const QUERY_COSTS = {
+  small: 10,
+  locations: 260,
+  product: 400,
+  variantInventory: 110,
+  inventorySet: 20,
+  bulk: 10,
+};
+
+const VARIANT_FIELDS = `
+  id
+  legacyResourceId
+  title
+  sku
+  price
+  compareAtPrice
+  position
+  inventoryQuantity
+  barcode
+  selectedOptions { name value }
+  image { id url }
+  inventoryItem { legacyResourceId measurement { weight { unit value } } }
+`;
+
+const PRODUCT_FIELDS = `
+  id
+  legacyResourceId
+  title
+  descriptionHtml
+  vendor
+  productType
+  handle
+  status
+  tags
+  createdAt
+  updatedAt
+  options { name position values }
+`;
+
+export const PRODUCT_QUERY = `
+  query Product($id: ID!) {
+    product(id: $id) {
+      ${PRODUCT_FIELDS}
+      images(first: 50) { edges { node { id url altText } } }
+      variants(first: 100) { edges { node { ${VARIANT_FIELDS} } } }
+    }
+  }
+`;
+
+export const VARIANT_EXISTS_QUERY = `
+  query VariantExists($id: ID!) {
+    productVariant(id: $id) { id }
+  }
+`;
+
+export const VARIANT_INVENTORY_QUERY = `
+  query VariantInventory($id: ID!) {
+    productVariant(id: $id) {
+      id
+      inventoryQuantity
+      product { legacyResourceId }
+      inventoryItem {
+        legacyResourceId
+        inventoryLevels(first: 50) {
+          edges { node { location { legacyResourceId } quantities(names: ["available"]) { name quantity } } }
+        }
+      }
+    }
+  }
+`;
+
+export const LOCATIONS_QUERY = `
+  query Locations {
+    locations(first: 250, includeInactive: true) {
+      edges {
+        node {
+          legacyResourceId
+          name
+          isActive
+          address { address1 address2 city province country zip }
+        }
+      }
+    }
+  }
+`;
+
+export const INVENTORY_SET_QUANTITIES_MUTATION = `
+  mutation InventorySetQuantities($input: InventorySetQuantitiesInput!) {
+    inventorySetQuantities(input: $input) {
+      inventoryAdjustmentGroup { id }
+      userErrors { field message code }
+    }
+  }
+`;
+
+export const BULK_OPERATION_RUN_QUERY_MUTATION = `
+  mutation BulkOperationRunQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation { id status }
+      userErrors { field message }
+    }
+  }
+`;
+
+export const BULK_OPERATION_QUERY = `
+  query BulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation { id status errorCode objectCount url partialDataUrl }
+    }
+  }
+`;
+
+// Bulk queries don't take pagination arguments and allow at most two levels of nested connections
+export const BULK_PRODUCTS_QUERY = `
+  {
+    products {
+      edges {
+        node {
+          ${PRODUCT_FIELDS}
+          images { edges { node { id url altText } } }
+          variants { edges { node { ${VARIANT_FIELDS} } } }
+        }
+      }
+    }
+  }
+`;
+
+export const BULK_INVENTORY_QUERY = `
+  {
+    productVariants {
+      edges {
+        node {
+          id
+          legacyResourceId
+          inventoryQuantity
+          product { legacyResourceId }
+          inventoryItem {
+            legacyResourceId
+            inventoryLevels {
+              edges { node { location { legacyResourceId } quantities(names: ["available"]) { name quantity } } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const nodes = (connection: any) => (connection?.edges || []).map((edge: any) => edge.node);
+
+const availableQuantity = (level: any) =>
+  (level.quantities || []).find((quantity: any) => quantity.name === 'available')?.quantity ?? 0;
+
+export const toRestVariant = (variant: any, productId: number) => {
+  const options = variant.selectedOptions || [];
+  const weight = variant.inventoryItem?.measurement?.weight;
+
+  return {
+    id: Number(variant.legacyResourceId),
+    product_id: productId,
+    title: variant.title,
+    sku: variant.sku,
+    price: variant.price,
+    compare_at_price: variant.compareAtPrice,
+    position: variant.position,
+    inventory_quantity: variant.inventoryQuantity,
+    inventory_item_id: variant.inventoryItem ? Number(variant.inventoryItem.legacyResourceId) : null,
+    barcode: variant.barcode,
+    option1: options[0]?.value ?? null,
+    option2: options[1]?.value ?? null,
+    option3: options[2]?.value ?? null,
+    image_id: variant.image ? Number(fromGid(variant.image.id)) : null,
+    weight: weight?.value ?? 0,
+    weight_unit: weight ? WEIGHT_UNITS[weight.unit] || weight.unit : 'lb',
+  };
+};
+
+export const toRestProduct = (product: any, images: any[] = nodes(product.images), variants: any[] = nodes(product.variants)) => {
+  const productId = Number(product.legacyResourceId);
+
+  const restVariants = variants.map(variant => toRestVariant(variant, productId));
+
+  return {
+    id: productId,
+    title: product.title,
+    body_html: product.descriptionHtml,
+    vendor: product.vendor,
+    product_type: product.productType,
+    handle: product.handle,
+    status: product.status?.toLowerCase(),
+    tags: (product.tags || []).join(', '),
+    created_at: product.createdAt,
+    updated_at: product.updatedAt,
+    options: product.options || [],
+    images: images.map((image, index) => {
+      const imageId = Number(fromGid(image.id));
+      return {
+        id: imageId,
+        product_id: productId,
+        position: index + 1,
+        src: image.url,
+        alt: image.altText,
+        variant_ids: restVariants.filter(variant => variant.image_id === imageId).map(variant => variant.id),
+      };
+    }),
+    variants: restVariants,
+  };
+};
+
+export const toRestLocation = (location: any) => ({
+  id: Number(location.legacyResourceId),
+  name: location.name,
+  active: location.isActive,
+  address1: location.address?.address1 ?? null,
+  address2: location.address?.address2 ?? null,
+  city: location.address?.city ?? null,
+  province: location.address?.province ?? null,
+  country: location.address?.country ?? null,
+  zip: location.address?.zip ?? null,
+});
+
+export interface VariantInventorySnapshot {
+  productId: string;
+  variantId: string;
+  inventoryItemId: string | null;
+  quantity: number;
+  locations: { locationId: string; quantity: number; available: number }[];
+}
+
+export const toInventorySnapshot = (variant: any, levels: any[] = nodes(variant.inventoryItem?.inventoryLevels)): VariantInventorySnapshot => {
+  const locations = levels.map(level => {
+    const available = availableQuantity(level);
+    return {
+      locationId: level.location.legacyResourceId.toString(),
+      quantity: available,
+      available,
+    };
+  });
+
+  return {
+    productId: variant.product.legacyResourceId.toString(),
+    variantId: variant.legacyResourceId.toString(),
+    inventoryItemId: variant.inventoryItem?.legacyResourceId?.toString() ?? null,
+    quantity: locations.length > 0
+      ? locations.reduce((sum, level) => sum + level.available, 0)
+      : variant.inventoryQuantity ?? 0,
+    locations,
+  };
+};
+
+// Bulk results are JSONL with child nodes on their own lines, linked by __parentId.
+// Lines are consumed one at a time so a large export is never held as a single string.
+export const groupBulkLines = async (lines: AsyncIterable<string> | Iterable<string>) => {
+  const roots: any[] = [];
+  const children = new Map<string, any[]>();
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const node = JSON.parse(line);
+    if (node.__parentId) {
+      const siblings = children.get(node.__parentId) || [];
+      siblings.push(node);
+      children.set(node.__parentId, siblings);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return { roots, children };
+};
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { db } from '../db/connection';
+import { shopifyOauthStates } from '../db/schema';
+import { ShopService, normalizeShopDomain, isValidShopDomain } from './shop';
+import { WebhookSubscriptionService } from './webhookSubscription';
+import { eq, lt } from 'drizzle-orm';
+import { ValidationError, UnauthorizedError } from '../utils/errors';
+import { isEncryptionConfigured } from '../utils/encryption';
+
+const DEFAULT_SCOPES = 'read_products,write_products,read_inventory,write_inventory,read_locations,read_orders';
+
+// How long an install link stays valid
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Authorization code grant for public/custom apps installed from the Shopify admin.
+// Tokens requested without grant_options[]=per-user are offline tokens that don't expire.
+export class ShopifyOAuthService {
+  private shopService: ShopService;
+  private webhookSubscriptions: WebhookSubscriptionService;
+
+  constructor() {
+    this.shopService = new ShopService();
+    this.webhookSubscriptions = new WebhookSubscriptionService();
+  }
+
+  private getAppCredentials() {
+    const apiKey = process.env.SHOPIFY_API_KEY;
+    const apiSecret = process.env.SHOPIFY_SECRET_KEY;
+    if (!apiKey || !apiSecret) {
+      throw new ValidationError('SHOPIFY_API_KEY and SHOPIFY_SECRET_KEY must be configured for app installs');
+    }
+    return { apiKey, apiSecret };
+  }
+
+  // Must match one of the app's allowed redirection URLs
+  getRedirectUri() {
+    const baseUrl = process.env.SHOPIFY_APP_URL || process.env.WEBHOOK_BASE_URL;
+    if (!baseUrl) {
+      throw new ValidationError('SHOPIFY_APP_URL is not configured');
+    }
+    return `${baseUrl.replace(/\/+$/, '')}/api/integrations/shopify/callback`;
+  }
+
+  private parseShopDomain(value: unknown) {
+    const domain = typeof value === 'string' ? normalizeShopDomain(value) : '';
+    if (!isValidShopDomain(domain)) {
+      throw new ValidationError(`Invalid shop domain: ${value} (expected <shop>.myshopify.com)`);
+    }
+    return domain;
+  }
+
+  // Start an install: remember a one-time state nonce and build Shopify's authorize URL
+  async beginInstall(shop: unknown) {
+    const { apiKey } = this.getAppCredentials();
+    if (!isEncryptionConfigured()) {
+      throw new ValidationError('ENCRYPTION_KEY must be configured before installing the app');
+    }
+
+    const domain = this.parseShopDomain(shop);
+    const redirectUri = this.getRedirectUri();
+    const nonce = crypto.randomBytes(16).toString('hex');
+
+    await db.delete(shopifyOauthStates).where(lt(shopifyOauthStates.expiresAt, new Date()));
+    await db.insert(shopifyOauthStates).values({
+      nonce,
+      shopDomain: domain,
+      expiresAt: new Date(Date.now() + STATE_TTL_MS),
+    });
+
+    const params = new URLSearchParams({
+      client_id: apiKey,
+      scope: process.env.SHOPIFY_SCOPES || DEFAULT_SCOPES,
+      redirect_uri: redirectUri,
+      state: nonce,
+    });
+
+    return { shop: domain, authorizeUrl: `https://${domain}/admin/oauth/authorize?${params.toString()}` };
+  }
+
+  // Shopify signs the callback query: every parameter except hmac, sorted, joined as key=value&...
+  isValidCallbackHmac(query: Record<string, unknown>) {
+    const { apiSecret } = this.getAppCredentials();
+    const hmac = query.hmac;
+    if (typeof hmac !== 'string' || !/^[0-9a-f]+$/i.test(hmac)) {
+      return false;
+    }
+
+    const message = Object.keys(query)
+      .filter(key => key !== 'hmac' && key !== 'signature')
+      .sort()
+      .map(key => {
+        const value = query[key];
+        return `${key}=${Array.isArray(value) ? value.join(',') : value}`;
+      })
+      .join('&');
+
+    const expected = crypto.createHmac('sha256', apiSecret).update(message).digest();
+    const received = Buffer.from(hmac, 'hex');
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  // State nonces are single-use and bound to the shop the install was started for
+  private async consumeState(nonce: unknown, domain: string) {
+    if (typeof nonce !== 'string' || !nonce) {
+      throw new UnauthorizedError('Missing OAuth state');
+    }
+
+    const [state] = await db.delete(shopifyOauthStates)
+      .where(eq(shopifyOauthStates.nonce, nonce))
+      .returning();
+
+    if (!state || state.shopDomain !== domain || state.expiresAt < new Date()) {
+      throw new UnauthorizedError('Invalid or expired OAuth state');
+    }
+  }
+
+  private async exchangeCode(domain: string, code: string) {
+    const { apiKey, apiSecret } = this.getAppCredentials();
+
+    const response = await fetch(`https://${domain}/admin/oauth/access_token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ client_id: apiKey, client_secret: apiSecret, code }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Shopify token exchange failed: HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as { access_token?: string; scope?: string };
+    if (!body.access_token) {
+      throw new Error('Shopify token exchange returned no access token');
+    }
+    return { accessToken: body.access_token, scopes: body.scope || '' };
+  }
+
+  // Finish an install: verify the callback, swap the code for an offline token and store it
+  async completeInstall(query: Record<string, unknown>) {
+    if (!this.isValidCallbackHmac(query)) {
+      throw new UnauthorizedError('Invalid OAuth callback signature');
+    }
+
+    const domain = this.parseShopDomain(query.shop);
+    await this.consumeState(query.state, domain);
+
+    if (typeof query.code !== 'string' || !query.code) {
+      throw new ValidationError('Missing authorization code');
+    }
+
+    const { accessToken, scopes } = await this.exchangeCode(domain, query.code);
+    const shop = await this.shopService.installShop(domain, accessToken, scopes);
+
+    // Subscribe to our topics (including app/uninstalled) without touching other subscriptions
+    let webhooks: any = null;
+    if (process.env.WEBHOOK_BASE_URL) {
+      try {
+        webhooks = await this.webhookSubscriptions.reconcile({ shopId: shop.id, prune: false });
+      } catch (error) {
+        console.error(`Failed to register webhooks for ${domain}:`, error);
+        webhooks = { success: false, error: (error as Error).message };
+      }
+    }
+
+    return { shop, webhooks };
+  }
+}
@@ -0,0 +1,235 @@
+// Client-side throttle for the Shopify Admin API.
+//
+// REST calls share a leaky bucket per shop (40 requests, draining 2/s on standard plans;
+// Plus shops get a larger bucket that drains proportionally faster). GraphQL calls spend
+// query cost points from a separate bucket that restores at a fixed rate. Both are kept in
+// sync with what Shopify reports after every response, so bulk jobs run at the allowed
+// rate instead of sleeping for fixed intervals.
+
+const RETRYABLE_ERROR_CODES = ['ETIMEDOUT', 'ECONNRESET', 'EADDRINUSE', 'ECONNREFUSED', 'EPIPE', 'ENOTFOUND', 'ENETUNREACH', 'EAI_AGAIN'];
+
+// A REST POST that failed with a 5xx or timed out may still have been applied by Shopify
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Bucket size divided by leak rate is 20 seconds on every Shopify plan
+const REST_DRAIN_SECONDS = 20;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RestCallLimits {
+  current: number;
+  max: number;
+}
+
+export interface GraphqlCallLimits {
+  current: number;
+  max: number;
+  restoreRate: number;
+}
+
+export class ShopifyRateLimiter {
+  private maxRetries: number;
+
+  private restUsed = 0;
+  private restMax = 40;
+  private restReportedAt = Date.now();
+  private restInFlight = 0;
+
+  private graphqlAvailable = 1000;
+  private graphqlMax = 1000;
+  private graphqlRestoreRate = 50;
+  private graphqlReportedAt = Date.now();
+  private graphqlReserved = 0;
+
+  private stats = {
+    requests: 0,
+    retries: 0,
+    throttled: 0,
+    waitedMs: 0,
+  };
+
+  constructor(options: { maxRetries?: number } = {}) {
+    this.maxRetries = options.maxRetries ?? (parseInt(process.env.SHOPIFY_MAX_RETRIES || '') || 5);
+  }
+
+  // Fed from the X-Shopify-Shop-Api-Call-Limit header
+  updateRestLimits(limits: RestCallLimits) {
+    this.restUsed = limits.current;
+    this.restMax = limits.max;
+    this.restReportedAt = Date.now();
+  }
+
+  // Fed from extensions.cost.throttleStatus of GraphQL responses
+  updateGraphqlLimits(limits: GraphqlCallLimits) {
+    this.graphqlAvailable = limits.current;
+    this.graphqlMax = limits.max;
+    this.graphqlRestoreRate = limits.restoreRate;
+    this.graphqlReportedAt = Date.now();
+  }
+
+  private get restLeakRate() {
+    return this.restMax / REST_DRAIN_SECONDS;
+  }
+
+  // Bucket level now, accounting for what has leaked since Shopify last reported it
+  private estimateRestUsed() {
+    const elapsedSeconds = (Date.now() - this.restReportedAt) / 1000;
+    return Math.max(0, this.restUsed - elapsedSeconds * this.restLeakRate);
+  }
+
+  private estimateGraphqlAvailable() {
+    const elapsedSeconds = (Date.now() - this.graphqlReportedAt) / 1000;
+    return Math.min(this.graphqlMax, this.graphqlAvailable + elapsedSeconds * this.graphqlRestoreRate);
+  }
+
+  private async acquireRest() {
+    for (;;) {
+      // Keep one slot free for requests from other processes sharing the shop's bucket
+      const free = this.restMax - 1 - this.estimateRestUsed() - this.restInFlight;
+      if (free >= 1) {
+        this.restInFlight++;
+        return;
+      }
+
+      const waitMs = Math.ceil(((1 - free) / this.restLeakRate) * 1000);
+      this.stats.waitedMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+
+  private async acquireGraphql(cost: number) {
+    const needed = Math.min(cost, this.graphqlMax);
+
+    for (;;) {
+      const free = this.estimateGraphqlAvailable() - this.graphqlReserved;
+      if (free >= needed) {
+        this.graphqlReserved += needed;
+        return needed;
+      }
+
+      const waitMs = Math.ceil(((needed - free) / this.graphqlRestoreRate) * 1000);
+      this.stats.waitedMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+
+  private getStatusCode(error: any): number | undefined {
+    return error?.response?.statusCode ?? error?.statusCode;
+  }
+
+  private isThrottled(error: any) {
+    return this.getStatusCode(error) === 429 || error?.extensions?.code === 'THROTTLED' || error?.message === 'Throttled';
+  }
+
+  // Throttling is always safe to retry. Server errors and network failures are retried for
+  // GraphQL (queries and our absolute-quantity mutations) and idempotent REST methods only.
+  private isRetryable(error: any, graphql: boolean) {
+    if (this.isThrottled(error)) {
+      return true;
+    }
+
+    const statusCode = this.getStatusCode(error);
+    const transient = (statusCode !== undefined && statusCode >= 500) || RETRYABLE_ERROR_CODES.includes(error?.code);
+    if (!transient) {
+      return false;
+    }
+    return graphql || IDEMPOTENT_METHODS.includes(String(error?.options?.method ?? '').toUpperCase());
+  }
+
+  // Retry-After when Shopify sends it, otherwise exponential backoff with full jitter
+  private getRetryDelay(error: any, attempt: number) {
+    const retryAfter = parseFloat(error?.response?.headers?.['retry-after']);
+    if (!isNaN(retryAfter) && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  // Run a Shopify call within the budget, retrying throttled and (where safe) transient failures.
+  // Pass graphqlCost for GraphQL queries (their requested cost); REST calls count one request.
+  async run<T>(call: () => Promise<T>, options: { graphqlCost?: number } = {}): Promise<T> {
+    const { graphqlCost } = options;
+    const graphql = graphqlCost !== undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const reserved = graphql
+        ? await this.acquireGraphql(graphqlCost)
+        : (await this.acquireRest(), 0);
+
+      let failure: any;
+      try {
+        this.stats.requests++;
+        return await call();
+      } catch (error: any) {
+        failure = error;
+      } finally {
+        // Give the slot back before any backoff so other calls are not blocked by the sleep
+        if (graphql) {
+          this.graphqlReserved -= reserved;
+        } else {
+          this.restInFlight--;
+        }
+      }
+
+      if (this.getStatusCode(failure) === 429 || failure?.message === 'Throttled') {
+        this.stats.throttled++;
+        // Shopify says the bucket is full even if our estimate disagrees
+        if (graphql) {
+          this.graphqlAvailable = 0;
+          this.graphqlReportedAt = Date.now();
+        } else {
+          this.restUsed = this.restMax;
+          this.restReportedAt = Date.now();
+        }
+      }
+
+      if (attempt >= this.maxRetries || !this.isRetryable(failure, graphql)) {
+        throw failure;
+      }
+
+      const delayMs = this.getRetryDelay(failure, attempt);
+      console.warn(`Shopify request failed (${this.getStatusCode(failure) ?? failure?.code ?? failure?.message}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${this.maxRetries})`);
+      this.stats.retries++;
+      this.stats.waitedMs += delayMs;
+      await sleep(delayMs);
+    }
+  }
+
+  getBudget() {
+    const restUsed = this.estimateRestUsed();
+    const graphqlAvailable = this.estimateGraphqlAvailable();
+
+    return {
+      rest: {
+        used: Math.ceil(restUsed),
+        max: this.restMax,
+        available: Math.max(0, Math.floor(this.restMax - restUsed)),
+        inFlight: this.restInFlight,
+        leakRate: this.restLeakRate,
+      },
+      graphql: {
+        available: Math.floor(graphqlAvailable),
+        max: this.graphqlMax,
+        restoreRate: this.graphqlRestoreRate,
+      },
+      ...this.stats,
+    };
+  }
+}
+
+// Every ShopifyService talking to the same shop must share one limiter
+const limiters = new Map<string, ShopifyRateLimiter>();
+
+export const getShopifyRateLimiter = (shopName: string) => {
+  let limiter = limiters.get(shopName);
+  if (!limiter) {
+    limiter = new ShopifyRateLimiter();
+    limiters.set(shopName, limiter);
+  }
+  return limiter;
+};
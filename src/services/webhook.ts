@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { db } from '../db/connection';
+import { webhookDeliveries } from '../db/schema';
+import { OrderService } from './order';
+import { ProductService } from './product';
+import { ShopService } from './shop';
+import { SHOPIFY_CHANNEL, WOOCOMMERCE_CHANNEL } from '../channels/types';
+import { eq, and, or, lt, inArray, desc, sql, SQL } from 'drizzle-orm';
+import { NotFoundError, ConflictError } from '../utils/errors';
+
+type WebhookHandler = (payload: any, shopId: number) => Promise<any>;
+type WooCommerceWebhookHandler = (payload: any) => Promise<any>;
+
+// Shopify topics we handle and keep subscribed
+export const SHOPIFY_WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'orders/cancelled',
+  'orders/fulfilled',
+  'orders/partially_fulfilled',
+  'refunds/create',
+  'products/create',
+  'products/update',
+  'products/delete',
+  'inventory_levels/update',
+  'app/uninstalled',
+];
+
+// WooCommerce topics we handle
+export const WOOCOMMERCE_WEBHOOK_TOPICS = [
+  'order.created',
+  'order.updated',
+];
+
+// A delivery still 'received' or 'processing' after this long was interrupted (e.g. by a restart)
+// and may run again
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export interface WebhookDeliveryInput {
+  webhookId?: string;
+  channel: string;
+  topic: string;
+  shopDomain?: string;
+  payload: any;
+}
+
+export class WebhookService {
+  private orderService: OrderService;
+  private productService: ProductService;
+  private shopService: ShopService;
+  private handlers: Record<string, WebhookHandler>;
+  private wooCommerceHandlers: Record<string, WooCommerceWebhookHandler>;
+
+  constructor() {
+    this.orderService = new OrderService();
+    this.productService = new ProductService();
+    this.shopService = new ShopService();
+
+    // Shopify topic -> handler
+    this.handlers = {
+      'orders/create': (payload, shopId) => this.orderService.createFromShopify(payload, shopId),
+      'orders/updated': (payload, shopId) => this.orderService.updateFromShopify(payload, 'orders/updated', shopId),
+      'orders/cancelled': (payload, shopId) => this.orderService.updateFromShopify(payload, 'orders/cancelled', shopId),
+      'orders/fulfilled': (payload, shopId) => this.orderService.updateFromShopify(payload, 'orders/fulfilled', shopId),
+      'orders/partially_fulfilled': (payload, shopId) => this.orderService.updateFromShopify(payload, 'orders/partially_fulfilled', shopId),
+      'refunds/create': (payload, shopId) => this.orderService.applyShopifyRefund(payload, shopId),
+      'products/create': (payload, shopId) => this.productService.upsertFromShopify(payload, shopId),
+      'products/update': (payload, shopId) => this.productService.upsertFromShopify(payload, shopId),
+      'products/delete': (payload, shopId) => this.productService.markShopifyProductDeleted(payload.id.toString(), shopId),
+      'inventory_levels/update': (payload, shopId) => this.productService.applyShopifyInventoryLevel(shopId, payload),
+      'app/uninstalled': (payload, shopId) => this.shopService.revokeShop(shopId),
+    };
+
+    // WooCommerce topic -> handler
+    this.wooCommerceHandlers = {
+      'order.created': payload => this.orderService.createFromWooCommerce(payload),
+      'order.updated': payload => this.orderService.updateFromWooCommerce(payload, 'order.updated'),
+    };
+  }
+
+  isSupportedTopic(topic: string, channel: string = SHOPIFY_CHANNEL) {
+    return channel === WOOCOMMERCE_CHANNEL ? topic in this.wooCommerceHandlers : topic in this.handlers;
+  }
+
+  // Record a delivery and process it unless it was already handled
+  async ingest(input: WebhookDeliveryInput) {
+    const payloadHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(input.payload))
+      .digest('hex');
+
+    // Deliveries without an ID are deduplicated on their content
+    const webhookId = input.webhookId || `${input.topic}:${payloadHash}`;
+
+    // Unknown shops are still recorded; processing fails until the shop is connected
+    const shop = input.shopDomain && input.channel === SHOPIFY_CHANNEL ? await this.shopService.getByDomain(input.shopDomain) : null;
+
+    const [inserted] = await db.insert(webhookDeliveries).values({
+      webhookId,
+      channel: input.channel,
+      shopId: shop?.id ?? null,
+      topic: input.topic,
+      shopDomain: input.shopDomain || null,
+      payloadHash,
+      payload: input.payload,
+      status: 'received',
+    })
+    .onConflictDoNothing({ target: webhookDeliveries.webhookId })
+    .returning();
+
+    if (!inserted) {
+      const [existing] = await db.select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.webhookId, webhookId));
+
+      // A retry of a failed or abandoned delivery runs again; one that is already handled, or
+      // still in flight on another request, is acknowledged without reprocessing
+      const claimed = await this.claim(existing.id, ['failed']);
+      if (!claimed) {
+        return { delivery: existing, duplicate: true };
+      }
+      return { delivery: await this.process(claimed), duplicate: false };
+    }
+
+    const claimed = await this.claim(inserted.id, ['received']);
+    if (!claimed) {
+      return { delivery: inserted, duplicate: true };
+    }
+    return { delivery: await this.process(claimed), duplicate: false };
+  }
+
+  // Atomically mark a delivery as processing when it is in one of the given statuses or was
+  // abandoned mid-flight; only the request that gets the row back may run the handler
+  private async claim(deliveryId: number, statuses: string[]): Promise<WebhookDelivery | undefined> {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+
+    const [claimed] = await db.update(webhookDeliveries)
+      .set({
+        status: 'processing',
+        attempts: sql`coalesce(${webhookDeliveries.attempts}, 0) + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(webhookDeliveries.id, deliveryId),
+        or(
+          inArray(webhookDeliveries.status, statuses),
+          and(
+            inArray(webhookDeliveries.status, ['received', 'processing']),
+            lt(webhookDeliveries.updatedAt, staleBefore)
+          )
+        )
+      ))
+      .returning();
+    return claimed;
+  }
+
+  // Run the handler for a claimed delivery, recording the outcome
+  private async process(delivery: WebhookDelivery) {
+    const deliveryId = delivery.id;
+    const isWooCommerce = delivery.channel === WOOCOMMERCE_CHANNEL;
+    const handler = isWooCommerce ? this.wooCommerceHandlers[delivery.topic] : this.handlers[delivery.topic];
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for webhook topic ${delivery.topic}`);
+      }
+
+      // WooCommerce has a single store, so only Shopify deliveries need a shop
+      if (isWooCommerce) {
+        await (handler as WooCommerceWebhookHandler)(delivery.payload);
+      } else {
+        const shopId = delivery.shopId ?? (await this.resolveShopId(delivery.id, delivery.shopDomain));
+        await (handler as WebhookHandler)(delivery.payload, shopId);
+      }
+
+      const [processed] = await db.update(webhookDeliveries)
+        .set({
+          status: 'processed',
+          lastError: null,
+          processedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, deliveryId))
+        .returning();
+      return processed;
+    } catch (error) {
+      console.error(`Webhook delivery ${delivery.webhookId} (${delivery.topic}) failed:`, error);
+
+      const [failed] = await db.update(webhookDeliveries)
+        .set({
+          status: 'failed',
+          lastError: (error as Error).message,
+          updatedAt: new Date(),
+        })
+        .where(eq(webhookDeliveries.id, deliveryId))
+        .returning();
+      return failed;
+    }
+  }
+
+  // Deliveries received before their shop was connected get linked once it is
+  private async resolveShopId(deliveryId: number, shopDomain: string | null) {
+    if (!shopDomain) {
+      throw new Error('Webhook delivery has no shop domain');
+    }
+
+    const shop = await this.shopService.getByDomain(shopDomain);
+    if (!shop || !shop.isActive) {
+      throw new Error(`Shop ${shopDomain} is not connected`);
+    }
+
+    await db.update(webhookDeliveries)
+      .set({ shopId: shop.id })
+      .where(eq(webhookDeliveries.id, deliveryId));
+    return shop.id;
+  }
+
+  async getDeliveries(filters: { status?: string; topic?: string; limit?: number; offset?: number } = {}) {
+    const conditions: SQL[] = [];
+    if (filters.status) {
+      conditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+    if (filters.topic) {
+      conditions.push(eq(webhookDeliveries.topic, filters.topic));
+    }
+
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+
+    const deliveries = await db.select({
+      id: webhookDeliveries.id,
+      webhookId: webhookDeliveries.webhookId,
+      channel: webhookDeliveries.channel,
+      topic: webhookDeliveries.topic,
+      shopDomain: webhookDeliveries.shopDomain,
+      payloadHash: webhookDeliveries.payloadHash,
+      status: webhookDeliveries.status,
+      attempts: webhookDeliveries.attempts,
+      lastError: webhookDeliveries.lastError,
+      receivedAt: webhookDeliveries.receivedAt,
+      processedAt: webhookDeliveries.processedAt,
+    })
+      .from(webhookDeliveries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(webhookDeliveries.receivedAt))
+      .limit(limit)
+      .offset(offset);
+
+    return { deliveries, limit, offset };
+  }
+
+  async getDelivery(deliveryId: number) {
+    const [delivery] = await db.select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, deliveryId));
+
+    if (!delivery) {
+      throw new NotFoundError(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    return delivery;
+  }
+
+  // Re-run a stored delivery; processed ones, and ones still being processed, require force to
+  // avoid double-applying. Deliveries stuck in processing past the timeout count as failed.
+  async replay(deliveryId: number, force = false) {
+    const delivery = await this.getDelivery(deliveryId);
+
+    const claimed = await this.claim(
+      delivery.id,
+      force ? ['received', 'processing', 'processed', 'failed'] : ['failed']
+    );
+    if (!claimed) {
+      throw new ConflictError(delivery.status === 'processed'
+        ? `Webhook delivery ${deliveryId} was already processed; pass force=true to replay it`
+        : `Webhook delivery ${deliveryId} is currently being processed; pass force=true to replay it anyway`);
+    }
+
+    return await this.process(claimed);
+  }
+}
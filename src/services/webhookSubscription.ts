@@ -0,0 +1,135 @@
+import { db } from '../db/connection';
+import { syncLogs } from '../db/schema';
+import { ShopService } from './shop';
+import { SHOPIFY_WEBHOOK_TOPICS } from './webhook';
+import { ValidationError } from '../utils/errors';
+
+export class WebhookSubscriptionService {
+  private shopService: ShopService;
+
+  constructor() {
+    this.shopService = new ShopService();
+  }
+
+  private async getShopify(shopId?: number) {
+    const shop = await this.shopService.resolve(shopId);
+    return { shop, shopify: this.shopService.getShopifyService(shop) };
+  }
+
+  // Public URL Shopify delivers a topic to, e.g. https://api.example.com/api/webhooks/shopify/orders/create
+  getAddress(topic: string) {
+    const baseUrl = process.env.WEBHOOK_BASE_URL;
+    if (!baseUrl) {
+      throw new ValidationError('WEBHOOK_BASE_URL is not configured');
+    }
+    return `${baseUrl.replace(/\/+$/, '')}/api/webhooks/shopify/${topic}`;
+  }
+
+  private validateTopic(topic: string) {
+    if (!SHOPIFY_WEBHOOK_TOPICS.includes(topic)) {
+      throw new ValidationError(`Unsupported topic ${topic}. Supported topics: ${SHOPIFY_WEBHOOK_TOPICS.join(', ')}`);
+    }
+  }
+
+  async list(shopId?: number) {
+    const { shopify } = await this.getShopify(shopId);
+    const subscriptions = await shopify.getWebhooks();
+    return subscriptions.map(subscription => ({
+      id: subscription.id,
+      topic: subscription.topic,
+      address: subscription.address,
+      format: subscription.format,
+      createdAt: subscription.created_at,
+      updatedAt: subscription.updated_at,
+      handled: SHOPIFY_WEBHOOK_TOPICS.includes(subscription.topic),
+    }));
+  }
+
+  async register(topic: string, address?: string, shopId?: number) {
+    this.validateTopic(topic);
+    const { shopify } = await this.getShopify(shopId);
+    return await shopify.createWebhook(topic, address || this.getAddress(topic));
+  }
+
+  async update(webhookId: string, topic: string, address?: string, shopId?: number) {
+    this.validateTopic(topic);
+    const { shopify } = await this.getShopify(shopId);
+    return await shopify.updateWebhook(webhookId, topic, address || this.getAddress(topic));
+  }
+
+  async remove(webhookId: string, shopId?: number) {
+    const { shopify } = await this.getShopify(shopId);
+    await shopify.deleteWebhook(webhookId);
+  }
+
+  // Make Shopify's subscriptions match the desired topics: create missing ones,
+  // repoint ones with the wrong address and delete duplicates and unwanted topics
+  async reconcile(options: { topics?: string[]; prune?: boolean; dryRun?: boolean; shopId?: number } = {}) {
+    const topics = options.topics || SHOPIFY_WEBHOOK_TOPICS;
+    topics.forEach(topic => this.validateTopic(topic));
+
+    const prune = options.prune !== false;
+    const dryRun = options.dryRun === true;
+    const { shop, shopify } = await this.getShopify(options.shopId);
+    const existing = await shopify.getWebhooks();
+
+    const created: any[] = [];
+    const updated: any[] = [];
+    const deleted: any[] = [];
+    const unchanged: any[] = [];
+
+    for (const topic of topics) {
+      const address = this.getAddress(topic);
+      const [current, ...duplicates] = existing.filter(subscription => subscription.topic === topic);
+
+      if (!current) {
+        created.push(dryRun ? { topic, address } : await shopify.createWebhook(topic, address));
+      } else if (current.address !== address) {
+        updated.push(dryRun
+          ? { id: current.id, topic, from: current.address, address }
+          : await shopify.updateWebhook(current.id.toString(), topic, address));
+      } else {
+        unchanged.push({ id: current.id, topic, address });
+      }
+
+      for (const duplicate of duplicates) {
+        if (!dryRun) {
+          await shopify.deleteWebhook(duplicate.id.toString());
+        }
+        deleted.push({ id: duplicate.id, topic, address: duplicate.address });
+      }
+    }
+
+    if (prune) {
+      for (const subscription of existing.filter(candidate => !topics.includes(candidate.topic))) {
+        if (!dryRun) {
+          await shopify.deleteWebhook(subscription.id.toString());
+        }
+        deleted.push({ id: subscription.id, topic: subscription.topic, address: subscription.address });
+      }
+    }
+
+    const result = {
+      success: true,
+      shopId: shop.id,
+      dryRun,
+      created,
+      updated,
+      deleted,
+      unchanged: unchanged.length,
+    };
+
+    if (!dryRun) {
+      await db.insert(syncLogs).values({
+        channel: 'shopify',
+        shopId: shop.id,
+        operation: 'webhook-reconcile',
+        status: 'success',
+        message: `Webhook subscriptions for ${shop.domain} reconciled: ${created.length} created, ${updated.length} updated, ${deleted.length} deleted`,
+        details: result,
+      });
+    }
+
+    return result;
+  }
+}
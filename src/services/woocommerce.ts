@@ -0,0 +1,236 @@
+// WooCommerce REST API (wc/v3) client. The store URL is configurable so the integration can be
+// pointed at a local stub server in development and tests.
+
+const DEFAULT_API_PREFIX = '/wp-json/wc/v3';
+const DEFAULT_TIMEOUT_MS = 30000;
+const BASE_RETRY_DELAY_MS = 500;
+
+// WooCommerce caps per_page at 100, and batch endpoints at 100 items per request
+const MAX_PAGE_SIZE = 100;
+const MAX_BATCH_SIZE = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface WooCommerceConfig {
+  url: string;
+  consumerKey: string;
+  consumerSecret: string;
+  apiPrefix?: string;
+  // Send credentials as query parameters (for hosts that strip the Authorization header)
+  queryStringAuth?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export class WooCommerceApiError extends Error {
+  statusCode: number;
+  code?: string;
+
+  constructor(message: string, statusCode: number, code?: string) {
+    super(message);
+    this.name = 'WooCommerceApiError';
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+export class WooCommerceService {
+  private config: WooCommerceConfig | null = null;
+
+  constructor(config?: WooCommerceConfig) {
+    const url = config ? config.url : process.env.WOOCOMMERCE_URL;
+    const consumerKey = config ? config.consumerKey : process.env.WOOCOMMERCE_CONSUMER_KEY;
+    const consumerSecret = config ? config.consumerSecret : process.env.WOOCOMMERCE_CONSUMER_SECRET;
+
+    if (url && consumerKey && consumerSecret) {
+      this.config = {
+        url: url.replace(/\/+$/, ''),
+        consumerKey,
+        consumerSecret,
+        apiPrefix: config?.apiPrefix ?? process.env.WOOCOMMERCE_API_PREFIX ?? DEFAULT_API_PREFIX,
+        queryStringAuth: config?.queryStringAuth ?? process.env.WOOCOMMERCE_QUERY_STRING_AUTH === 'true',
+        timeoutMs: config?.timeoutMs ?? (parseInt(process.env.WOOCOMMERCE_TIMEOUT_MS || '') || DEFAULT_TIMEOUT_MS),
+        maxRetries: config?.maxRetries ?? (parseInt(process.env.WOOCOMMERCE_MAX_RETRIES || '') || 3),
+      };
+    }
+  }
+
+  isConfigured() {
+    return this.config !== null;
+  }
+
+  private checkInitialized(): WooCommerceConfig {
+    if (!this.config) {
+      throw new Error('WooCommerce not configured. Please set WOOCOMMERCE_URL, WOOCOMMERCE_CONSUMER_KEY and WOOCOMMERCE_CONSUMER_SECRET.');
+    }
+    return this.config;
+  }
+
+  private buildUrl(config: WooCommerceConfig, path: string, query: Record<string, any> = {}) {
+    const url = new URL(`${config.url}${config.apiPrefix}${path}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(key, value.toString());
+      }
+    }
+    if (config.queryStringAuth) {
+      url.searchParams.set('consumer_key', config.consumerKey);
+      url.searchParams.set('consumer_secret', config.consumerSecret);
+    }
+    return url.toString();
+  }
+
+  // Send a request, retrying 429/5xx responses and network errors with exponential backoff
+  private async request<T = any>(
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    options: { query?: Record<string, any>; body?: any } = {}
+  ): Promise<{ data: T; headers: Headers }> {
+    const config = this.checkInitialized();
+    const url = this.buildUrl(config, path, options.query);
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (!config.queryStringAuth) {
+      headers.Authorization = `Basic ${Buffer.from(`${config.consumerKey}:${config.consumerSecret}`).toString('base64')}`;
+    }
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+          signal: AbortSignal.timeout(config.timeoutMs!),
+        });
+      } catch (error) {
+        if (attempt >= config.maxRetries!) {
+          throw new Error(`WooCommerce API error: ${method} ${path} failed: ${(error as Error).message}`);
+        }
+        await sleep(BASE_RETRY_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+
+      if (response.ok) {
+        const text = await response.text();
+        return { data: (text ? JSON.parse(text) : null) as T, headers: response.headers };
+      }
+
+      if ((response.status === 429 || response.status >= 500) && attempt < config.maxRetries!) {
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        await sleep(!isNaN(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : BASE_RETRY_DELAY_MS * 2 ** attempt);
+        continue;
+      }
+
+      const body: any = await response.json().catch(() => null);
+      throw new WooCommerceApiError(
+        `WooCommerce API error: ${method} ${path} returned ${response.status}${body?.message ? `: ${body.message}` : ''}`,
+        response.status,
+        body?.code
+      );
+    }
+  }
+
+  // One page of products; totalPages comes from the X-WP-TotalPages header
+  async getProductsPage(options: { page?: number; perPage?: number; modifiedAfter?: string } = {}) {
+    const page = Math.max(options.page || 1, 1);
+    const { data, headers } = await this.request<any[]>('GET', '/products', {
+      query: {
+        page,
+        per_page: Math.min(Math.max(options.perPage || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+        modified_after: options.modifiedAfter,
+        orderby: 'id',
+        order: 'asc',
+      },
+    });
+
+    return {
+      products: data,
+      page,
+      totalPages: parseInt(headers.get('x-wp-totalpages') || '1') || 1,
+    };
+  }
+
+  async getProduct(productId: string | number) {
+    const { data } = await this.request('GET', `/products/${productId}`);
+    return data;
+  }
+
+  async getVariations(productId: string | number) {
+    const variations: any[] = [];
+    for (let page = 1; ; page++) {
+      const { data, headers } = await this.request<any[]>('GET', `/products/${productId}/variations`, {
+        query: { page, per_page: MAX_PAGE_SIZE },
+      });
+      variations.push(...data);
+
+      const totalPages = parseInt(headers.get('x-wp-totalpages') || '1') || 1;
+      if (page >= totalPages || data.length === 0) {
+        return variations;
+      }
+    }
+  }
+
+  async createProduct(productData: any) {
+    const { data } = await this.request('POST', '/products', { body: productData });
+    return data;
+  }
+
+  async updateProduct(productId: string | number, productData: any) {
+    const { data } = await this.request('PUT', `/products/${productId}`, { body: productData });
+    return data;
+  }
+
+  async batchProducts(changes: { create?: any[]; update?: any[] }) {
+    return await this.batch('/products/batch', changes);
+  }
+
+  async batchVariations(productId: string | number, changes: { create?: any[]; update?: any[] }) {
+    return await this.batch(`/products/${productId}/variations/batch`, changes);
+  }
+
+  // Batch endpoints take at most 100 items in total, so larger changes are split
+  private async batch(path: string, changes: { create?: any[]; update?: any[] }) {
+    const items = [
+      ...(changes.create || []).map(item => ({ type: 'create' as const, item })),
+      ...(changes.update || []).map(item => ({ type: 'update' as const, item })),
+    ];
+    const result = { create: [] as any[], update: [] as any[] };
+
+    for (let i = 0; i < items.length; i += MAX_BATCH_SIZE) {
+      const chunk = items.slice(i, i + MAX_BATCH_SIZE);
+      const { data } = await this.request<{ create?: any[]; update?: any[] }>('POST', path, {
+        body: {
+          create: chunk.filter(entry => entry.type === 'create').map(entry => entry.item),
+          update: chunk.filter(entry => entry.type === 'update').map(entry => entry.item),
+        },
+      });
+      result.create.push(...(data?.create || []));
+      result.update.push(...(data?.update || []));
+    }
+
+    return result;
+  }
+
+  async getOrdersPage(options: { page?: number; perPage?: number; modifiedAfter?: string } = {}) {
+    const page = Math.max(options.page || 1, 1);
+    const { data, headers } = await this.request<any[]>('GET', '/orders', {
+      query: {
+        page,
+        per_page: Math.min(Math.max(options.perPage || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+        modified_after: options.modifiedAfter,
+        orderby: 'id',
+        order: 'asc',
+      },
+    });
+
+    return {
+      orders: data,
+      page,
+      totalPages: parseInt(headers.get('x-wp-totalpages') || '1') || 1,
+    };
+  }
+}
@@ -0,0 +1,654 @@
+import { db } from '../db/connection';
+import { products, productColumns, productVariants, inventory, channelMappings, syncLogs } from '../db/schema';
+import { WooCommerceService } from './woocommerce';
+import { InventoryService } from './inventory';
+import { LocationService } from './location';
+import { OrderService } from './order';
+import { ProductOptionService, ProductOption, VariantOptionValue } from './productOption';
+import { INTERNAL_CHANNEL, WOOCOMMERCE_CHANNEL, ChannelOrdersResult } from '../channels/types';
+import { eq, and, inArray, isNotNull, sql } from 'drizzle-orm';
+import { NotFoundError } from '../utils/errors';
+
+type Product = Omit<typeof products.$inferSelect, 'searchVector'>;
+type Variant = typeof productVariants.$inferSelect & { options: VariantOptionValue[] };
+
+// A sellable WooCommerce item: a variation of a variable product, or a simple product itself
+interface WooCommerceItem {
+  id: string;
+  sku: string | null;
+  name: string;
+  price: string;
+  weight: string;
+  gtin: string | null;
+  manageStock: boolean;
+  stockQuantity: number;
+  // Attribute values of a variation, e.g. Size and Color
+  options: VariantOptionValue[];
+  images: string[];
+  data: any;
+}
+
+// Variations carry their chosen attribute values; simple products have none
+const toWooCommerceItem = (item: any, productName: string, productImages: string[]): WooCommerceItem => {
+  const attributes = item.attributes?.filter((attribute: any) => attribute.option !== undefined) || [];
+  const options = attributes.map((attribute: any) => attribute.option).filter(Boolean);
+
+  return {
+    id: item.id.toString(),
+    sku: item.sku?.trim() || null,
+    name: options.length > 0 ? options.join(' / ') : item.name || productName,
+    price: (item.regular_price || item.price || '0').toString(),
+    weight: (item.weight || '0').toString(),
+    gtin: item.global_unique_id?.trim() || null,
+    manageStock: item.manage_stock === true,
+    stockQuantity: item.stock_quantity ?? 0,
+    options: attributes
+      .filter((attribute: any) => attribute.name && attribute.option)
+      .map((attribute: any) => ({ name: attribute.name, value: attribute.option })),
+    images: item.image?.src ? [item.image.src] : productImages,
+    data: item,
+  };
+};
+
+export class WooCommerceSyncService {
+  private wooCommerceService: WooCommerceService;
+  private inventoryService: InventoryService;
+  private locationService: LocationService;
+  private orderService: OrderService;
+  private productOptionService: ProductOptionService;
+
+  constructor(wooCommerceService?: WooCommerceService) {
+    this.wooCommerceService = wooCommerceService || new WooCommerceService();
+    this.inventoryService = new InventoryService();
+    this.locationService = new LocationService();
+    this.orderService = new OrderService();
+    this.productOptionService = new ProductOptionService();
+  }
+
+  isConfigured() {
+    return this.wooCommerceService.isConfigured();
+  }
+
+  private async getItems(wooProduct: any) {
+    const productImages = (wooProduct.images || []).map((image: any) => image.src).filter(Boolean);
+    const items = wooProduct.type === 'variable'
+      ? await this.wooCommerceService.getVariations(wooProduct.id)
+      : [wooProduct];
+
+    return items.map(item => toWooCommerceItem(item, wooProduct.name, productImages));
+  }
+
+  // Walk the catalog page by page, creating or updating each product
+  async importProducts(options: { perPage?: number; modifiedAfter?: string; maxPages?: number } = {}) {
+    const maxPages = options.maxPages ?? Infinity;
+    let imported = 0;
+    let updated = 0;
+    let failed = 0;
+    let pages = 0;
+    const failedProducts: { id: number; name: string; error: string }[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      const result = await this.wooCommerceService.getProductsPage({
+        page,
+        perPage: options.perPage,
+        modifiedAfter: options.modifiedAfter,
+      });
+      pages++;
+
+      for (const wooProduct of result.products) {
+        try {
+          const { created } = await this.upsertProduct(wooProduct);
+          created ? imported++ : updated++;
+        } catch (error) {
+          failed++;
+          failedProducts.push({ id: wooProduct.id, name: wooProduct.name, error: (error as Error).message });
+        }
+      }
+
+      if (page >= result.totalPages || result.products.length === 0) {
+        break;
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: WOOCOMMERCE_CHANNEL,
+      operation: 'import',
+      status: failed > 0 ? 'partial' : 'success',
+      message: `WooCommerce import completed: ${imported} imported, ${updated} updated, ${failed} failed`,
+      details: { imported, updated, failed, pages, failedProducts: failedProducts.slice(0, 50) },
+    });
+
+    return { success: true, imported, updated, failed, total: imported + updated + failed, pages, failedProducts };
+  }
+
+  // Create or update one WooCommerce product (with its variations) in the catalog
+  async upsertProduct(wooProduct: any) {
+    if (!wooProduct?.id) {
+      throw new Error('Invalid WooCommerce product data: missing product ID');
+    }
+    if (wooProduct.type && !['simple', 'variable'].includes(wooProduct.type)) {
+      throw new Error(`Unsupported WooCommerce product type ${wooProduct.type} for product ${wooProduct.id}`);
+    }
+
+    const wooProductId = wooProduct.id.toString();
+    const items = await this.getItems(wooProduct);
+
+    const mappings = await db.select()
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, WOOCOMMERCE_CHANNEL),
+        eq(channelMappings.channelProductId, wooProductId)
+      ));
+
+    const productValues = {
+      name: wooProduct.name?.trim() || `WooCommerce Product ${wooProductId}`,
+      description: wooProduct.description?.trim() || wooProduct.short_description?.trim() || '',
+      category: wooProduct.categories?.[0]?.name || 'Uncategorized',
+      basePrice: items[0]?.price || '0.00',
+    };
+
+    let product: Product;
+    let created = false;
+
+    if (mappings.length > 0 && mappings[0].productId) {
+      [product] = await db.update(products)
+        .set({ ...productValues, updatedAt: new Date() })
+        .where(eq(products.id, mappings[0].productId))
+        .returning(productColumns);
+    } else {
+      const sku = wooProduct.sku?.trim() || items[0]?.sku || `WC-${wooProductId}`;
+
+      // A product we already sell elsewhere under the same SKU is linked, not duplicated
+      const [catalogProduct] = await db.select(productColumns).from(products).where(eq(products.sku, sku));
+      if (catalogProduct) {
+        product = catalogProduct;
+      } else {
+        [product] = await db.insert(products).values({
+          sku,
+          ...productValues,
+          brand: 'Unknown',
+          status: 'active',
+        }).returning(productColumns);
+        created = true;
+      }
+    }
+
+    const storeLocationId = await this.locationService.getWooCommerceLocationId();
+    const variants = [];
+
+    for (const item of items) {
+      const mapping = mappings.find(candidate => candidate.channelVariantId === item.id);
+      const { variant, isNew } = await this.upsertVariant(product, item, mapping?.variantId ?? null);
+      variants.push(variant);
+
+      if (mapping) {
+        await db.update(channelMappings)
+          .set({ channelData: item.data, syncStatus: 'synced', lastSyncAt: new Date(), updatedAt: new Date() })
+          .where(eq(channelMappings.id, mapping.id));
+      } else {
+        await db.insert(channelMappings).values({
+          productId: product.id,
+          variantId: variant.id,
+          channel: WOOCOMMERCE_CHANNEL,
+          channelProductId: wooProductId,
+          channelVariantId: item.id,
+          channelData: item.data,
+          syncStatus: 'synced',
+          lastSyncAt: new Date(),
+        });
+      }
+
+      if (item.manageStock) {
+        const context = { reason: 'sync-correction' as const, source: 'woocommerce-sync' };
+        await this.inventoryService.setLevel({
+          variantId: variant.id,
+          channel: WOOCOMMERCE_CHANNEL,
+          locationId: storeLocationId,
+          quantity: item.stockQuantity,
+          channelProductId: wooProductId,
+        }, context);
+
+        // New variants start with the store's stock as their internal stock
+        if (isNew) {
+          await this.inventoryService.setLevel({
+            variantId: variant.id,
+            channel: INTERNAL_CHANNEL,
+            locationId: await this.locationService.getDefaultLocationId(),
+            quantity: item.stockQuantity,
+          }, context);
+        }
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: WOOCOMMERCE_CHANNEL,
+      operation: created ? 'import' : 'update',
+      productId: product.id,
+      status: 'success',
+      message: `${created ? 'Imported' : 'Updated'} product ${product.name} with ${variants.length} variants from WooCommerce`,
+      details: { wooCommerceProductId: wooProductId, variants: variants.map(variant => variant.id) },
+    });
+
+    return { product: { ...product, variants }, created };
+  }
+
+  // Update the mapped variant, or find one by SKU within the product, or create it
+  private async upsertVariant(product: Product, item: WooCommerceItem, mappedVariantId: number | null) {
+    const values = {
+      name: item.name,
+      price: item.price,
+      weight: item.weight,
+      gtin: item.gtin,
+      images: item.images,
+    };
+
+    let variantId = mappedVariantId;
+    if (!variantId && item.sku) {
+      const [bySku] = await db.select({ id: productVariants.id, productId: productVariants.productId })
+        .from(productVariants)
+        .where(eq(productVariants.sku, item.sku));
+      if (bySku && bySku.productId === product.id) {
+        variantId = bySku.id;
+      }
+    }
+
+    if (variantId) {
+      const [variant] = await db.update(productVariants)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(productVariants.id, variantId))
+        .returning();
+      await this.productOptionService.setVariantOptions(db, product.id, variant.id, item.options);
+      return { variant, isNew: false };
+    }
+
+    const [variant] = await db.insert(productVariants).values({
+      productId: product.id,
+      sku: item.sku || `${product.sku}-WC-${item.id}`,
+      ...values,
+    }).returning();
+    await this.productOptionService.setVariantOptions(db, product.id, variant.id, item.options);
+    return { variant, isNew: true };
+  }
+
+  // Internal stock available to sell, per variant, across all internal locations
+  private async getInternalAvailable(variantIds: number[]) {
+    if (variantIds.length === 0) {
+      return new Map<number, number>();
+    }
+
+    const rows = await db.select({
+      variantId: inventory.variantId,
+      available: sql<number>`coalesce(sum(${inventory.available}), 0)::int`,
+    })
+      .from(inventory)
+      .where(and(
+        eq(inventory.channel, INTERNAL_CHANNEL),
+        inArray(inventory.variantId, variantIds)
+      ))
+      .groupBy(inventory.variantId);
+
+    return new Map(rows.map(row => [row.variantId as number, Math.max(0, Number(row.available))]));
+  }
+
+  // Create the product in WooCommerce, or update it when it is already listed there
+  async pushProduct(productId: number) {
+    const [product] = await db.select(productColumns).from(products).where(eq(products.id, productId));
+    if (!product) {
+      throw new NotFoundError('Product not found');
+    }
+
+    const [{ options, variants }] = await this.productOptionService.attach([{
+      id: product.id,
+      variants: await db.select()
+        .from(productVariants)
+        .where(eq(productVariants.productId, productId)),
+    }]);
+
+    const mappings = await db.select()
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.productId, productId),
+        eq(channelMappings.channel, WOOCOMMERCE_CHANNEL)
+      ));
+
+    const available = await this.getInternalAvailable(variants.map(variant => variant.id));
+    const result = mappings.length > 0
+      ? await this.updateWooCommerceProduct(product, variants, mappings, available)
+      : await this.createWooCommerceProduct(product, variants, options, available);
+
+    await db.insert(syncLogs).values({
+      channel: WOOCOMMERCE_CHANNEL,
+      operation: mappings.length > 0 ? 'update' : 'deploy',
+      productId,
+      status: 'success',
+      message: `${mappings.length > 0 ? 'Updated' : 'Deployed'} product ${product.name} in WooCommerce`,
+      details: { wooCommerceProductId: result.id },
+    });
+
+    return { created: mappings.length === 0, result };
+  }
+
+  private variationAttributes(variant: Variant) {
+    return variant.options.map(option => ({ name: option.name, option: option.value }));
+  }
+
+  private async createWooCommerceProduct(
+    product: Product,
+    variants: Variant[],
+    options: ProductOption[],
+    available: Map<number, number>
+  ) {
+    const base = {
+      name: product.name,
+      description: product.description || '',
+      status: product.status === 'active' ? 'publish' : 'draft',
+    };
+
+    // One variant sells as a simple product
+    if (variants.length <= 1) {
+      const variant = variants[0];
+      const wooProduct = await this.wooCommerceService.createProduct({
+        ...base,
+        type: 'simple',
+        sku: variant?.sku || product.sku,
+        regular_price: (variant?.price || product.basePrice || '0').toString(),
+        weight: variant?.weight?.toString() || undefined,
+        manage_stock: true,
+        stock_quantity: variant ? available.get(variant.id) ?? 0 : 0,
+      });
+
+      if (variant) {
+        await this.mapVariant(product.id, variant.id, wooProduct.id.toString(), wooProduct.id.toString(), wooProduct);
+      }
+      return wooProduct;
+    }
+
+    // Each product option becomes a variation attribute, in the same order
+    const wooProduct = await this.wooCommerceService.createProduct({
+      ...base,
+      type: 'variable',
+      sku: product.sku,
+      attributes: options.map(option => ({
+        name: option.name,
+        position: option.position - 1,
+        options: option.values,
+        variation: true,
+        visible: true,
+      })),
+    });
+
+    const { create } = await this.wooCommerceService.batchVariations(wooProduct.id, {
+      create: variants.map(variant => ({
+        sku: variant.sku,
+        regular_price: (variant.price || '0').toString(),
+        weight: variant.weight?.toString() || undefined,
+        manage_stock: true,
+        stock_quantity: available.get(variant.id) ?? 0,
+        attributes: this.variationAttributes(variant),
+      })),
+    });
+
+    for (const variation of create) {
+      const variant = variants.find(candidate => candidate.sku === variation.sku);
+      if (variant && variation.id) {
+        await this.mapVariant(product.id, variant.id, wooProduct.id.toString(), variation.id.toString(), variation);
+      }
+    }
+
+    return wooProduct;
+  }
+
+  private async updateWooCommerceProduct(
+    product: Product,
+    variants: Variant[],
+    mappings: (typeof channelMappings.$inferSelect)[],
+    available: Map<number, number>
+  ) {
+    const wooProductId = mappings[0].channelProductId as string;
+    const isSimple = mappings.length === 1 && mappings[0].channelVariantId === wooProductId;
+
+    const wooProduct = await this.wooCommerceService.updateProduct(wooProductId, {
+      name: product.name,
+      description: product.description || '',
+      status: product.status === 'active' ? 'publish' : 'draft',
+      ...(isSimple && variants[0] && {
+        regular_price: (variants[0].price || '0').toString(),
+        weight: variants[0].weight?.toString() || undefined,
+      }),
+    });
+
+    if (isSimple) {
+      return wooProduct;
+    }
+
+    const mappedVariantIds = new Map(mappings.map(mapping => [mapping.variantId, mapping.channelVariantId]));
+    const { create } = await this.wooCommerceService.batchVariations(wooProductId, {
+      update: variants
+        .filter(variant => mappedVariantIds.has(variant.id))
+        .map(variant => ({
+          id: Number(mappedVariantIds.get(variant.id)),
+          sku: variant.sku,
+          regular_price: (variant.price || '0').toString(),
+          weight: variant.weight?.toString() || undefined,
+        })),
+      create: variants
+        .filter(variant => !mappedVariantIds.has(variant.id))
+        .map(variant => ({
+          sku: variant.sku,
+          regular_price: (variant.price || '0').toString(),
+          weight: variant.weight?.toString() || undefined,
+          manage_stock: true,
+          stock_quantity: available.get(variant.id) ?? 0,
+          attributes: this.variationAttributes(variant),
+        })),
+    });
+
+    for (const variation of create) {
+      const variant = variants.find(candidate => candidate.sku === variation.sku);
+      if (variant && variation.id) {
+        await this.mapVariant(product.id, variant.id, wooProductId, variation.id.toString(), variation);
+      }
+    }
+
+    return wooProduct;
+  }
+
+  private async mapVariant(productId: number, variantId: number, wooProductId: string, wooVariantId: string, data: any) {
+    await db.insert(channelMappings).values({
+      productId,
+      variantId,
+      channel: WOOCOMMERCE_CHANNEL,
+      channelProductId: wooProductId,
+      channelVariantId: wooVariantId,
+      channelData: data,
+      syncStatus: 'synced',
+      lastSyncAt: new Date(),
+    });
+  }
+
+  // Push internal available stock for every mapped variant; WooCommerce keeps one number per item
+  async pushInventory() {
+    const mappings = await db.select()
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, WOOCOMMERCE_CHANNEL),
+        isNotNull(channelMappings.variantId)
+      ));
+
+    if (mappings.length === 0) {
+      return { success: true, pushed: 0, failed: 0, total: 0, message: 'No WooCommerce products mapped' };
+    }
+
+    const available = await this.getInternalAvailable(mappings.map(mapping => mapping.variantId as number));
+    const storeLocationId = await this.locationService.getWooCommerceLocationId();
+
+    // Simple products are updated through the products batch, variations per parent product
+    const simple = mappings.filter(mapping => mapping.channelVariantId === mapping.channelProductId);
+    const byParent = new Map<string, typeof mappings>();
+    for (const mapping of mappings.filter(candidate => candidate.channelVariantId !== candidate.channelProductId)) {
+      const siblings = byParent.get(mapping.channelProductId as string) || [];
+      siblings.push(mapping);
+      byParent.set(mapping.channelProductId as string, siblings);
+    }
+
+    let pushed = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    const applyPushed = async (group: typeof mappings) => {
+      for (const mapping of group) {
+        const quantity = available.get(mapping.variantId as number) ?? 0;
+        await this.inventoryService.setLevel({
+          variantId: mapping.variantId as number,
+          channel: WOOCOMMERCE_CHANNEL,
+          locationId: storeLocationId,
+          quantity,
+          channelProductId: mapping.channelProductId,
+        }, { reason: 'sync-correction', source: 'woocommerce-push' });
+      }
+      await db.update(channelMappings)
+        .set({ syncStatus: 'synced', lastSyncAt: new Date() })
+        .where(inArray(channelMappings.id, group.map(mapping => mapping.id)));
+      pushed += group.length;
+    };
+
+    const markFailed = async (group: typeof mappings, error: unknown) => {
+      failed += group.length;
+      errors.push((error as Error).message);
+      await db.update(channelMappings)
+        .set({ syncStatus: 'failed' })
+        .where(inArray(channelMappings.id, group.map(mapping => mapping.id)));
+    };
+
+    if (simple.length > 0) {
+      try {
+        await this.wooCommerceService.batchProducts({
+          update: simple.map(mapping => ({
+            id: Number(mapping.channelProductId),
+            manage_stock: true,
+            stock_quantity: available.get(mapping.variantId as number) ?? 0,
+          })),
+        });
+        await applyPushed(simple);
+      } catch (error) {
+        await markFailed(simple, error);
+      }
+    }
+
+    for (const [wooProductId, group] of byParent) {
+      try {
+        await this.wooCommerceService.batchVariations(wooProductId, {
+          update: group.map(mapping => ({
+            id: Number(mapping.channelVariantId),
+            manage_stock: true,
+            stock_quantity: available.get(mapping.variantId as number) ?? 0,
+          })),
+        });
+        await applyPushed(group);
+      } catch (error) {
+        await markFailed(group, error);
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: WOOCOMMERCE_CHANNEL,
+      operation: 'inventory-push',
+      status: failed === 0 ? 'success' : (pushed > 0 ? 'partial' : 'failed'),
+      message: `Pushed stock for ${pushed} WooCommerce items, ${failed} failed`,
+      details: { pushed, failed, errors: errors.slice(0, 10) },
+    });
+
+    return { success: failed === 0, pushed, failed, total: mappings.length, errors };
+  }
+
+  // Read WooCommerce stock for mapped items into the woocommerce inventory rows
+  async pullInventory() {
+    const mappings = await db.select()
+      .from(channelMappings)
+      .where(and(
+        eq(channelMappings.channel, WOOCOMMERCE_CHANNEL),
+        isNotNull(channelMappings.variantId)
+      ));
+
+    const storeLocationId = await this.locationService.getWooCommerceLocationId();
+    const productIds = Array.from(new Set(mappings.map(mapping => mapping.channelProductId as string)));
+
+    let synced = 0;
+    const errors: string[] = [];
+
+    for (const wooProductId of productIds) {
+      try {
+        const wooProduct = await this.wooCommerceService.getProduct(wooProductId);
+        const items = await this.getItems(wooProduct);
+
+        for (const mapping of mappings.filter(candidate => candidate.channelProductId === wooProductId)) {
+          const item = items.find(candidate => candidate.id === mapping.channelVariantId);
+          if (!item || !item.manageStock) {
+            continue;
+          }
+
+          await this.inventoryService.setLevel({
+            variantId: mapping.variantId as number,
+            channel: WOOCOMMERCE_CHANNEL,
+            locationId: storeLocationId,
+            quantity: item.stockQuantity,
+            channelProductId: wooProductId,
+          }, { reason: 'sync-correction', source: 'woocommerce-sync' });
+
+          await db.update(channelMappings)
+            .set({ channelData: item.data, syncStatus: 'synced', lastSyncAt: new Date() })
+            .where(eq(channelMappings.id, mapping.id));
+          synced++;
+        }
+      } catch (error) {
+        errors.push(`Product ${wooProductId}: ${(error as Error).message}`);
+      }
+    }
+
+    await db.insert(syncLogs).values({
+      channel: WOOCOMMERCE_CHANNEL,
+      operation: 'inventory-sync',
+      status: errors.length === 0 ? 'success' : 'partial',
+      message: `WooCommerce inventory sync completed. Synced: ${synced}, Errors: ${errors.length}`,
+      details: { synced, errors: errors.slice(0, 10) },
+    });
+
+    return { success: errors.length === 0, synced, total: mappings.length, errors: errors.length, errorDetails: errors };
+  }
+
+  // Fetch orders modified in WooCommerce and record them
+  async fetchOrders(options: { modifiedAfter?: string; perPage?: number; maxPages?: number } = {}): Promise<ChannelOrdersResult> {
+    const maxPages = options.maxPages ?? Infinity;
+    const result: ChannelOrdersResult = { success: true, fetched: 0, created: 0, updated: 0, failed: 0, errors: [] };
+
+    for (let page = 1; page <= maxPages; page++) {
+      const { orders, totalPages } = await this.wooCommerceService.getOrdersPage({
+        page,
+        perPage: options.perPage,
+        modifiedAfter: options.modifiedAfter,
+      });
+
+      for (const order of orders) {
+        result.fetched++;
+        try {
+          const outcome = await this.orderService.updateFromWooCommerce(order, 'order.updated');
+          if (outcome.created) {
+            result.created++;
+          } else {
+            result.updated++;
+          }
+        } catch (error) {
+          result.failed++;
+          result.errors.push(`Order ${order.id}: ${(error as Error).message}`);
+        }
+      }
+
+      if (page >= totalPages || orders.length === 0) {
+        break;
+      }
+    }
+
+    result.success = result.failed === 0;
+    return result;
+  }
+}
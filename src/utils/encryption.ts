@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+
+// AES-256-GCM for secrets stored in the database (shop access tokens and webhook secrets).
+// Encrypted values look like enc:v1:<iv>:<auth tag>:<ciphertext>, all base64.
+
+const PREFIX = 'enc:v1:';
+
+// ENCRYPTION_KEY: 32 bytes as 64 hex characters or base64; any other string is hashed to 32 bytes
+const getKey = () => {
+  const raw = process.env.ENCRYPTION_KEY;
+  if (!raw) {
+    return null;
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(raw)) {
+    return Buffer.from(raw, 'hex');
+  }
+
+  const decoded = Buffer.from(raw, 'base64');
+  return decoded.length === 32 ? decoded : crypto.createHash('sha256').update(raw).digest();
+};
+
+export const isEncryptionConfigured = () => !!process.env.ENCRYPTION_KEY;
+
+export const isEncrypted = (value: string) => value.startsWith(PREFIX);
+
+export const encryptSecret = (value: string) => {
+  const key = getKey();
+  if (!key) {
+    throw new Error('ENCRYPTION_KEY is not configured');
+  }
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return `${PREFIX}${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+};
+
+// Values written before encryption was enabled are returned as they are
+export const decryptSecret = (value: string) => {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const key = getKey();
+  if (!key) {
+    throw new Error('ENCRYPTION_KEY is not configured; cannot decrypt stored credentials');
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,35 @@
+// Error types understood by the errorHandler middleware (matched on error.name)
+
+export class ValidationError extends Error {
+  details?: any;
+
+  constructor(message: string, details?: any) {
+    super(message);
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// Postgres unique_violation
+export const isUniqueViolation = (error: any): boolean => error?.code === '23505';
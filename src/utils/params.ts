@@ -0,0 +1,9 @@
+import { ValidationError } from './errors';
+
+// An ID filter from the query string; anything but a positive integer is rejected
+export const parseIdFilter = (value: unknown, label: string) => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || parseInt(value) <= 0) {
+    throw new ValidationError(`${label} must be a positive integer`);
+  }
+  return parseInt(value);
+};
@@ -0,0 +1,20 @@
+// URL-safe identifier from a name, e.g. "Men's Shoes & Boots" -> "mens-shoes-boots"
+export const slugify = (value: string, maxLength = 100) => value
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/['\u2019]/g, '')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, maxLength)
+  .replace(/-+$/, '');
+
+// A slug not in use yet: "shoes", then "shoes-2", "shoes-3", ...
+export const uniqueSlug = async (base: string, isTaken: (slug: string) => Promise<boolean>, maxLength = 100) => {
+  const root = slugify(base, maxLength - 4) || 'item';
+  let slug = root;
+  for (let suffix = 2; await isTaken(slug); suffix++) {
+    slug = `${root}-${suffix}`;
+  }
+  return slug;
+};
@@ -0,0 +1,277 @@
+import zlib from 'zlib';
+import { ValidationError } from './errors';
+
+// Minimal readers for uploaded spreadsheets: RFC 4180 CSV and the first worksheet of an XLSX
+// workbook. Both return rows of cell strings.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetRecord {
+  // 1-based row number in the file, as shown by spreadsheet applications
+  line: number;
+  values: Record<string, string>;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+export const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Comma, semicolon or tab, whichever the header line uses most
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError(`CSV has an unterminated quoted field on row ${rows.length + 1}`);
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Limits for hostile workbooks: a zip entry may not inflate past MAX_ENTRY_SIZE, and cells may not
+// sit beyond the largest sheet Excel itself allows
+const MAX_ENTRY_SIZE = 256 * 1024 * 1024;
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+
+const invalidWorkbook = () => new ValidationError('File is not a valid XLSX workbook');
+
+// Truncated or tampered archives point outside the file
+const checkBounds = (buffer: Buffer, start: number, length: number) => {
+  if (start < 0 || start + length > buffer.length) {
+    throw invalidWorkbook();
+  }
+};
+
+// Entries of a zip archive by name, read through the central directory
+const readZip = (buffer: Buffer) => {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw invalidWorkbook();
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    checkBounds(buffer, offset, 46);
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw invalidWorkbook();
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    checkBounds(buffer, offset + 46, nameLength);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      checkBounds(buffer, localOffset, 30);
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      checkBounds(buffer, dataStart, compressedSize);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        try {
+          return zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new ValidationError(`XLSX entry ${name} is larger than ${MAX_ENTRY_SIZE / 1024 / 1024} MB uncompressed`);
+          }
+          throw invalidWorkbook();
+        }
+      }
+      throw new ValidationError(`Unsupported XLSX compression method ${method}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const decodeXml = (value: string) => value
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Text of all <t> runs inside an element (rich text is split into several)
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => decodeXml(match[1])).join('');
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  const entries = readZip(buffer);
+  const read = (name: string) => entries.get(name)?.().toString('utf8') ?? null;
+
+  // The first sheet in workbook order, located through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = read('xl/workbook.xml');
+  const relationships = read('xl/_rels/workbook.xml.rels');
+  const firstSheetId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (firstSheetId && relationships) {
+    const target = relationships.match(new RegExp(`<Relationship\\b[^>]*Id="${firstSheetId}"[^>]*Target="([^"]+)"`))?.[1]
+      ?? relationships.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${firstSheetId}"`))?.[1];
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = read(sheetPath);
+  if (!sheet) {
+    throw new ValidationError('XLSX workbook has no worksheet');
+  }
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map(match => textRuns(match[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] || '') || rows.length + 1;
+    if (rowNumber > MAX_ROWS) {
+      throw new ValidationError(`XLSX row number ${rowNumber} is beyond the ${MAX_ROWS} rows a worksheet can have`);
+    }
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[parseInt(raw || '')] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textRuns(content);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'true' : 'false';
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      const column = reference ? columnIndex(reference) : cells.length;
+      if (column >= MAX_COLUMNS) {
+        throw new ValidationError(`XLSX row ${rowNumber} has a cell beyond the ${MAX_COLUMNS} columns a worksheet can have`);
+      }
+      cells[column] = value;
+    }
+
+    // Empty rows are omitted from the sheet XML; keep row numbers aligned with the file
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows.push(Array.from(cells, cell => cell ?? ''));
+  }
+
+  return rows;
+};
+
+export const detectSpreadsheetFormat = (buffer: Buffer, hint?: string): SpreadsheetFormat => {
+  const normalized = (hint || '').toLowerCase();
+  if (normalized.includes('spreadsheetml') || normalized === 'xlsx' || normalized.endsWith('.xlsx')) {
+    return 'xlsx';
+  }
+  if (normalized.includes('csv') || normalized.endsWith('.csv')) {
+    return 'csv';
+  }
+  // Zip local file header
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50 ? 'xlsx' : 'csv';
+};
+
+// Rows keyed by header, with header names normalized (e.g. "Variant SKU" -> "variantsku");
+// blank rows are skipped
+export const readSpreadsheet = (buffer: Buffer, format: SpreadsheetFormat): { headers: string[]; records: SpreadsheetRecord[] } => {
+  const rows = format === 'xlsx' ? parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim() !== ''));
+  if (headerIndex === -1) {
+    throw new ValidationError('The file has no header row');
+  }
+
+  const headers = rows[headerIndex].map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const records: SpreadsheetRecord[] = [];
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    if (!rows[i].some(cell => cell.trim() !== '')) {
+      continue;
+    }
+
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      if (header) {
+        values[header] = (rows[i][column] ?? '').trim();
+      }
+    });
+    records.push({ line: i + 1, values });
+  }
+
+  return { headers, records };
+};